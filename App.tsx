@@ -1,170 +1,363 @@
 
-import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { FileNode, ConsoleLog, ChatMessage } from './types';
+import React, { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { ProjectNode, FileChange, ProposedChangeset, ConsoleLog, ConsoleLogLevel, ChatMessage, ModelSettings, Workspace, WorkspaceSummary, SharedProject, EditorLayout, ProjectSnapshot, Command, KeybindingOverrides, PreviewSettings, DeviceSettings } from './types';
 import { sendMessageToModel } from './services/codenixService';
-import { FileIcon, PlayIcon, ShareIcon, UploadCloudIcon, SparklesIcon, CopyIcon, DownloadIcon, FolderPlusIcon, TrashIcon, TerminalIcon, MessageSquareIcon, SendIcon, RefreshCwIcon, ExpandIcon, MinimizeIcon, MenuIcon, XIcon, CodeIcon } from './components/icons';
+import { MODEL_PROVIDERS, loadModelSettings, saveModelSettings } from './services/providers';
+import { createConsoleLog, parseConsoleMessage, MAX_CONSOLE_LOGS } from './services/consoleBridge';
+import { parseScrollMessage, postHotReloadCommand, stylesheetUpdate } from './services/hotReload';
+import { OPAQUE_ORIGIN, PREVIEW_SANDBOX } from './services/previewSecurity';
+import { parseModelResponse, describeChanges } from './services/responseParser';
+import { PreviewPage, buildPreviewDocument, findEntryDocument } from './services/previewBuilder';
+import { parseNavigationMessage, resolvePageLink, splitPreviewAddress } from './services/navigationBridge';
+import { transpileFiles } from './services/transpiler';
+import { loadPreviewSettings, savePreviewSettings } from './services/previewSettings';
+import { DEFAULT_DEVICE_SETTINGS } from './services/devicePresets';
+import { createChangeset, isAdditiveOnly } from './services/changeset';
+import { listWorkspaces, loadWorkspace, saveWorkspace, deleteWorkspace, getLastWorkspaceId, setLastWorkspaceId, createWorkspaceId, normalizeWorkspace, toSummary } from './services/workspaceStore';
+import { isShareHash, readShareHash } from './services/shareLink';
+import { languageForFile, highlightDocument, HighlightedDocument } from './services/tokenizer';
+import { findStructure, findMatchingPair } from './services/codeStructure';
+import { buildFoldedView, applyViewEdit, remapFolds, viewToReal, realToView, viewLineAt, viewLineOf } from './services/foldedView';
+import { handleEditorKey } from './services/editorInput';
+import { keyCombination, isCommandCombination, resolveKeybindings, loadKeybindingOverrides, saveKeybindingOverrides } from './services/keybindings';
+import { EditHistories, recordEdit, recordProjectChange, undoEdit, redoEdit, remapHistories, dropHistories, addSnapshot, changedOffset } from './services/editHistory';
+import { EMPTY_EDITOR_LAYOUT, activeFileOf, openTab, focusGroup, closeTab, closeOtherTabs, closeAllTabs, moveTab, splitTab, removeTabs, remapTabs } from './services/editorTabs';
+import { ImportedFile, ImportResult, ConflictStrategy, findImportConflicts, mergeImport } from './services/projectImport';
+import { createZip } from './services/zip';
+import { downloadBlob, exportProject, ExportOptions } from './services/projectExport';
+import { buildTree, flattenFiles, collectDirectories, findFile, applyFileChanges, upsertFile, updateFileContent, createDirectory, removeNode, moveNode, validateNewPath, joinPath, dirname, basename, isSameOrDescendant } from './services/fileTree';
+import ConsoleValueView from './components/ConsoleValueView';
+import FileExplorer from './components/FileExplorer';
+import ChangeReview from './components/ChangeReview';
+import SettingsPanel from './components/SettingsPanel';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import ImportConflictDialog from './components/ImportConflictDialog';
+import BinaryFileView from './components/BinaryFileView';
+import ShareDialog from './components/ShareDialog';
+import ExportDialog from './components/ExportDialog';
+import EditorTabs from './components/EditorTabs';
+import HistoryTimeline from './components/HistoryTimeline';
+import EditorGutter from './components/EditorGutter';
+import SearchPanel from './components/SearchPanel';
+import CommandPalette from './components/CommandPalette';
+import KeybindingsPanel from './components/KeybindingsPanel';
+import PreviewSettingsPanel from './components/PreviewSettingsPanel';
+import PreviewAddressBar from './components/PreviewAddressBar';
+import DeviceToolbar from './components/DeviceToolbar';
+import PreviewViewports from './components/PreviewViewports';
+import { PlayIcon, ShareIcon, UploadCloudIcon, SparklesIcon, CopyIcon, DownloadIcon, TrashIcon, TerminalIcon, MessageSquareIcon, SendIcon, RefreshCwIcon, ExpandIcon, MinimizeIcon, MenuIcon, XIcon, CodeIcon, SettingsIcon, StopIcon, HistoryIcon, SmartphoneIcon } from './components/icons';
 
 // --- Reusable UI Components ---
 
-interface FileExplorerProps {
-  files: FileNode[];
-  activeFile: string | null;
-  onFileSelect: (fileName: string) => void;
-  onAddFile: () => void;
-  renamingFile: string | null;
-  onRenameStart: (fileName: string) => void;
-  onRenameConfirm: (oldName: string, newName: string) => void;
-  onClose?: () => void;
-}
-
-const FileExplorer: React.FC<FileExplorerProps> = ({ files, activeFile, onFileSelect, onAddFile, renamingFile, onRenameStart, onRenameConfirm, onClose }) => (
-  <div className="bg-gray-900/70 backdrop-blur-sm md:border-r border-gray-700/50 p-4 flex flex-col h-full">
-    <div className="flex items-center justify-between mb-4">
-        <h2 className="text-lg font-semibold text-gray-300">File Explorer</h2>
-        <div className="flex items-center">
-            <button onClick={onAddFile} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Add new file">
-                <FolderPlusIcon className="w-5 h-5 text-gray-400"/>
-            </button>
-            {onClose && (
-                <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors md:hidden" title="Close Explorer">
-                    <XIcon className="w-5 h-5 text-gray-400" />
-                </button>
-            )}
-        </div>
-    </div>
-    <div className="flex-grow overflow-y-auto">
-      {files.length === 0 ? (
-        <p className="text-gray-500 text-sm">Chat with the AI to generate files.</p>
-      ) : (
-        <ul>
-          {files.map((file) => (
-            <li key={file.name}>
-              {renamingFile === file.name ? (
-                <input
-                  type="text"
-                  defaultValue={file.name}
-                  autoFocus
-                  onBlur={(e) => onRenameConfirm(file.name, e.target.value)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') { (e.target as HTMLInputElement).blur(); }
-                    if (e.key === 'Escape') { onRenameConfirm(file.name, file.name); }
-                  }}
-                  className="w-full bg-gray-700 text-white p-1.5 rounded-md text-sm border border-blue-500 focus:outline-none"
-                />
-              ) : (
-                <button
-                  onClick={() => onFileSelect(file.name)}
-                  onDoubleClick={() => onRenameStart(file.name)}
-                  className={`w-full text-left flex items-center gap-2 p-2 rounded-md text-sm transition-colors duration-200 ${
-                    activeFile === file.name ? 'bg-blue-600/30 text-blue-300' : 'hover:bg-gray-700/50 text-gray-400'
-                  }`}
-                  title="Double-click to rename"
-                >
-                  <FileIcon className="w-4 h-4 text-gray-500" />
-                  <span className="truncate">{file.name}</span>
-                </button>
-              )}
-            </li>
-          ))}
-        </ul>
-      )}
-    </div>
-  </div>
-);
-
-// --- Syntax Highlighting Logic ---
-const highlightSyntax = (code: string, language: 'html' | 'css' | 'javascript' | 'unknown') => {
-  if (language === 'unknown') {
-    return code.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-  }
-
-  let highlightedCode = code.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-
-  const rules = {
-    html: [
-        { pattern: /(&lt;!--.*?--&gt;)/gs, className: 'token-comment' },
-        { pattern: /(&lt;\/?)([a-zA-Z0-9\-]+)/g, replace: '$1<span class="token-tag">$2</span>' },
-        { pattern: /([a-zA-Z\-]+)=(".*?")/g, replace: '<span class="token-attr-name">$1</span>=<span class="token-attr-value">$2</span>' },
-    ],
-    css: [
-        { pattern: /(\/\*.*?\*\/)/gs, className: 'token-comment' },
-        { pattern: /([#.]?[\w-]+)(?=\s*\{)/g, className: 'token-selector' },
-        { pattern: /([\w-]+)(?=\s*:)/g, className: 'token-property' },
-        { pattern: /([:;,{}()])/g, className: 'token-punctuation' },
-        { pattern: /"(.*?)"/g, className: 'token-string' },
-    ],
-    javascript: [
-        { pattern: /(\/\*.*?\*\/|\/\/.*)/g, className: 'token-comment' },
-        { pattern: /('.*?'|".*?"|`.*?`)/g, className: 'token-string' },
-        { pattern: /\b(const|let|var|function|return|if|else|for|while|import|export|from|as|async|await|new|class|extends)\b/g, className: 'token-keyword' },
-        { pattern: /([a-zA-Z_]\w*)(?=\s*\()/g, className: 'token-function' },
-        { pattern: /([=+\-*/%<>!&|?])/g, className: 'token-operator' },
-        { pattern: /([.,;:[\]{}()])/g, className: 'token-punctuation' },
-        { pattern: /\b(\d+)\b/g, className: 'token-number' },
-    ]
-  };
-
-  (rules[language] || []).forEach(rule => {
-      if ('className' in rule) {
-          highlightedCode = highlightedCode.replace(rule.pattern, `<span class="${rule.className}">$1</span>`);
-      } else if ('replace' in rule) {
-          highlightedCode = highlightedCode.replace(rule.pattern, rule.replace);
-      }
-  });
-
-  return highlightedCode;
-};
+// Lines rendered above and below the visible ones, so fast scrolling doesn't show unhighlighted gaps.
+const EDITOR_OVERSCAN_LINES = 20;
 
+// Where the cursor and scroll position were when a tab was last shown.
+interface EditorViewState {
+  selectionStart: number;
+  selectionEnd: number;
+  scrollTop: number;
+  scrollLeft: number;
+}
 
 interface CodeEditorProps {
   content: string;
   onContentChange: (newContent: string) => void;
   fileName: string | null;
+  // Read-only view of a file the model is still writing; keeps the newest output in view.
+  isStreaming?: boolean;
+  readOnly?: boolean;
+  // The tab strip already names the file, so tabbed editors leave the title bar out.
+  showHeader?: boolean;
+  viewState?: EditorViewState;
+  onViewStateChange?: (state: EditorViewState) => void;
+  // Return where the cursor should go once the restored content is shown, or null if there was nothing to undo/redo.
+  onUndo?: () => number | null;
+  onRedo?: () => number | null;
+  // Selects and scrolls to a range of the file, e.g. a search result; a new object each time.
+  reveal?: { start: number; end: number };
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ content, onContentChange, fileName }) => {
+const NO_FOLDS = new Set<number>();
+
+// Tabs in the textarea stop every 8 columns; decorations need the on-screen column.
+const visualColumn = (line: string, column: number) => {
+  let visual = 0;
+  for (let i = 0; i < column; i++) visual = line[i] === '\t' ? visual + 8 - (visual % 8) : visual + 1;
+  return visual;
+};
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ content, onContentChange, fileName, isStreaming = false, readOnly = false, showHeader = true, viewState, onViewStateChange, onUndo, onRedo, reveal }) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
-    const preRef = useRef<HTMLPreElement>(null);
+    const layerRef = useRef<HTMLDivElement>(null);
+    const gutterRef = useRef<HTMLDivElement>(null);
+    // A selection (in file offsets) to apply once the textarea shows the updated text.
+    const pendingSelectionRef = useRef<{ start: number; end: number; scrollIntoView?: boolean } | null>(null);
+    const highlightRef = useRef<HighlightedDocument | null>(null);
+    // Line height and padding come from the textarea's styles, so the layers can't drift apart.
+    const [metrics, setMetrics] = useState({ lineHeight: 0, paddingTop: 0, paddingLeft: 0, viewportHeight: 0 });
+    const [scrollTop, setScrollTop] = useState(0);
+    const [selection, setSelection] = useState({ start: 0, end: 0 });
+    // Folded lines belong to one file; switching files starts with everything unfolded.
+    const [foldState, setFoldState] = useState<{ fileName: string | null; lines: Set<number> }>({ fileName, lines: NO_FOLDS });
+    const folded = foldState.fileName === fileName ? foldState.lines : NO_FOLDS;
     
-    const language = useMemo(() => {
-        if (!fileName) return 'unknown';
-        const extension = fileName.split('.').pop();
-        if (extension === 'js' || extension === 'jsx' || extension === 'ts' || extension === 'tsx') return 'javascript';
-        if (extension === 'css') return 'css';
-        if (extension === 'html') return 'html';
-        return 'unknown';
-    }, [fileName]);
+    const language = useMemo(() => languageForFile(fileName), [fileName]);
+
+    // Only lines that changed (and any whose state the change affects) are re-tokenized.
+    const highlighted = useMemo(() => {
+        highlightRef.current = highlightDocument(highlightRef.current, content, language);
+        return highlightRef.current;
+    }, [content, language]);
+
+    const structure = useMemo(() => findStructure(highlighted.tokens, language), [highlighted, language]);
+
+    // What the textarea shows: the file minus the insides of folded blocks.
+    const view = useMemo(() => buildFoldedView(highlighted.lines, structure.folds, folded), [highlighted, structure, folded]);
 
-    const highlightedContent = useMemo(() => highlightSyntax(content, language), [content, language]);
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const measure = () => {
+            const style = getComputedStyle(textarea);
+            setMetrics({
+                lineHeight: parseFloat(style.lineHeight),
+                paddingTop: parseFloat(style.paddingTop),
+                paddingLeft: parseFloat(style.paddingLeft),
+                viewportHeight: textarea.clientHeight,
+            });
+        };
+        measure();
+        const observer = new ResizeObserver(measure);
+        observer.observe(textarea);
+        return () => observer.disconnect();
+    }, []);
+
+    const lineCount = view.lines.length;
+    const { firstLine, lastLine } = useMemo(() => {
+        if (!metrics.lineHeight) return { firstLine: 0, lastLine: lineCount };
+        const top = Math.floor((scrollTop - metrics.paddingTop) / metrics.lineHeight);
+        const bottom = Math.ceil((scrollTop + metrics.viewportHeight) / metrics.lineHeight);
+        return {
+            firstLine: Math.max(0, top - EDITOR_OVERSCAN_LINES),
+            lastLine: Math.min(lineCount, bottom + EDITOR_OVERSCAN_LINES),
+        };
+    }, [metrics, scrollTop, lineCount]);
+
+    const visibleLines = useMemo(() => view.lines.slice(firstLine, lastLine), [view, firstLine, lastLine]);
+    const visibleHtml = useMemo(
+        () => visibleLines.map(line => highlighted.html[line] + (folded.has(line) ? '<span class="fold-placeholder">⋯</span>' : '')).join('\n'),
+        [visibleLines, highlighted, folded],
+    );
 
+    const caretViewLine = viewLineAt(view, selection.start);
+    const currentLine = view.lines[caretViewLine];
+
+    // Brackets or tag names to outline: the pair the cursor is on, if it's on one.
+    const matchedRanges = useMemo(() => {
+        if (selection.start !== selection.end) return [];
+        const pair = findMatchingPair(structure, currentLine, selection.start - view.viewStarts[caretViewLine]);
+        return pair ? [pair.open, pair.close] : [];
+    }, [structure, view, selection, currentLine, caretViewLine]);
+
+    // Both layers follow the textarea by transform straight away; which lines they hold catches up
+    // on the next render.
     const handleScroll = () => {
-        if (preRef.current && textareaRef.current) {
-            preRef.current.scrollTop = textareaRef.current.scrollTop;
-            preRef.current.scrollLeft = textareaRef.current.scrollLeft;
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        if (layerRef.current) layerRef.current.style.transform = `translate(${-textarea.scrollLeft}px, ${-textarea.scrollTop}px)`;
+        if (gutterRef.current) gutterRef.current.style.transform = `translateY(${-textarea.scrollTop}px)`;
+        setScrollTop(textarea.scrollTop);
+    };
+
+    useEffect(() => {
+        if (!isStreaming || !textareaRef.current) return;
+        textareaRef.current.scrollTop = textareaRef.current.scrollHeight;
+        handleScroll();
+    }, [content, isStreaming]);
+
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea || !viewState) return;
+        textarea.setSelectionRange(viewState.selectionStart, viewState.selectionEnd);
+        textarea.scrollTop = viewState.scrollTop;
+        textarea.scrollLeft = viewState.scrollLeft;
+        handleScroll();
+    }, [fileName]);
+
+    const applyPendingSelection = () => {
+        const pending = pendingSelectionRef.current;
+        const textarea = textareaRef.current;
+        if (pending === null || !textarea) return;
+        pendingSelectionRef.current = null;
+        textarea.setSelectionRange(realToView(view, pending.start), realToView(view, pending.end));
+        setSelection({ start: textarea.selectionStart, end: textarea.selectionEnd });
+        if (!pending.scrollIntoView) return;
+        // Put the line a third of the way down rather than at the very edge.
+        const style = getComputedStyle(textarea);
+        const line = viewLineAt(view, textarea.selectionStart);
+        textarea.scrollTop = Math.max(0, parseFloat(style.paddingTop) + line * parseFloat(style.lineHeight) - textarea.clientHeight / 3);
+        textarea.focus();
+        handleScroll();
+    };
+
+    useLayoutEffect(applyPendingSelection, [view]);
+
+    useLayoutEffect(() => {
+        if (!reveal) return;
+        pendingSelectionRef.current = { ...reveal, scrollIntoView: true };
+        // A match inside a folded block needs the block open first; the selection follows once it is.
+        if (viewToReal(view, realToView(view, reveal.start)) !== reveal.start) setFoldState({ fileName, lines: NO_FOLDS });
+        else applyPendingSelection();
+    }, [reveal]);
+
+    const setFolded = (lines: Set<number>) => {
+        const textarea = textareaRef.current;
+        if (textarea) pendingSelectionRef.current = { start: viewToReal(view, textarea.selectionStart), end: viewToReal(view, textarea.selectionEnd) };
+        setFoldState({ fileName, lines });
+    };
+
+    const toggleFold = (line: number) => {
+        const lines = new Set<number>(folded);
+        if (!lines.delete(line)) lines.add(line);
+        setFolded(lines);
+    };
+
+    // Takes the textarea's new text and where its cursor ended up, and writes the change through to the file.
+    const applyViewText = (text: string, selectionStart: number, selectionEnd: number) => {
+        if (folded.size === 0) {
+            pendingSelectionRef.current = { start: selectionStart, end: selectionEnd };
+            onContentChange(text);
+            return;
         }
+        const edit = applyViewEdit(content, view, text, selectionEnd);
+        pendingSelectionRef.current = { start: edit.caret - (selectionEnd - selectionStart), end: edit.caret };
+        setFoldState({ fileName, lines: remapFolds(folded, structure.folds, edit) });
+        onContentChange(edit.content);
+    };
+
+    // The browser's own undo stack is lost whenever React rewrites the value, so undo goes
+    // through the app's history instead.
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        const textarea = e.currentTarget;
+        const key = e.key.toLowerCase();
+        if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+            const isUndo = key === 'z' && !e.shiftKey;
+            const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+            if (isUndo || isRedo) {
+                e.preventDefault();
+                if (isStreaming || readOnly) return;
+                const caret = (isUndo ? onUndo : onRedo)?.() ?? null;
+                if (caret === null) return;
+                // Undo can change any line, so line-based folds would no longer line up.
+                pendingSelectionRef.current = { start: caret, end: caret };
+                setFoldState({ fileName, lines: NO_FOLDS });
+                return;
+            }
+            // Ctrl+Shift+[ folds the innermost block around the cursor, Ctrl+Shift+] unfolds it.
+            if (e.shiftKey && (e.code === 'BracketLeft' || e.code === 'BracketRight')) {
+                e.preventDefault();
+                const enclosing = [...structure.folds].filter(([start, end]) => start <= currentLine && currentLine < end);
+                const innermost = enclosing.reduce((best, [start]) => Math.max(best, start), -1);
+                const lines = new Set<number>(folded);
+                if (e.code === 'BracketLeft' && innermost !== -1) lines.add(innermost);
+                else if (!lines.delete(currentLine)) return;
+                setFolded(lines);
+            }
+            return;
+        }
+        if (e.altKey || isStreaming || readOnly) return;
+        const edit = handleEditorKey(e.key, textarea.value, textarea.selectionStart, textarea.selectionEnd, language);
+        if (!edit) return;
+        e.preventDefault();
+        if (edit.text === textarea.value) {
+            textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+            setSelection({ start: edit.selectionStart, end: edit.selectionEnd });
+            return;
+        }
+        applyViewText(edit.text, edit.selectionStart, edit.selectionEnd);
+    };
+
+    const reportViewState = () => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        setSelection({ start: textarea.selectionStart, end: textarea.selectionEnd });
+        onViewStateChange?.({
+            selectionStart: viewToReal(view, textarea.selectionStart),
+            selectionEnd: viewToReal(view, textarea.selectionEnd),
+            scrollTop: textarea.scrollTop,
+            scrollLeft: textarea.scrollLeft,
+        });
     };
     
     return (
         <div className="flex-1 flex flex-col bg-gray-800/50 overflow-hidden">
-            <div className="bg-gray-900/80 px-4 py-2 border-b border-gray-700/50">
-                <h3 className="text-sm text-gray-300 truncate">{fileName || 'No file selected'}</h3>
-            </div>
-            <div className="flex-1 w-full relative group">
-                <textarea
-                    ref={textareaRef}
-                    value={content}
-                    onChange={(e) => onContentChange(e.target.value)}
-                    onScroll={handleScroll}
-                    className="absolute inset-0 w-full h-full p-4 bg-transparent text-transparent caret-white font-mono text-sm resize-none focus:outline-none leading-relaxed z-10"
-                    placeholder="Select a file or ask the AI to generate one."
-                    spellCheck="false"
-                />
-                <pre
-                    ref={preRef}
-                    aria-hidden="true"
-                    className="syntax-highlight absolute inset-0 w-full h-full p-4 font-mono text-sm overflow-auto pointer-events-none leading-relaxed"
-                    dangerouslySetInnerHTML={{ __html: highlightedContent + '\n' }} 
+            {showHeader && (
+                <div className="bg-gray-900/80 px-4 py-2 border-b border-gray-700/50">
+                    <h3 className="text-sm text-gray-300 truncate">
+                        {fileName || 'No file selected'}
+                        {isStreaming && <span className="ml-2 text-xs text-blue-300 animate-pulse">generating…</span>}
+                    </h3>
+                </div>
+            )}
+            <div className="flex-1 w-full flex overflow-hidden">
+                <EditorGutter
+                    lines={visibleLines}
+                    offsetTop={metrics.paddingTop + firstLine * metrics.lineHeight}
+                    lineHeight={metrics.lineHeight}
+                    lineCount={highlighted.lines.length}
+                    currentLine={currentLine}
+                    folds={structure.folds}
+                    folded={folded}
+                    onToggleFold={toggleFold}
+                    contentRef={gutterRef}
                 />
+                <div className="flex-1 relative group">
+                    <div aria-hidden="true" className="syntax-highlight absolute inset-0 overflow-hidden pointer-events-none font-mono text-sm leading-relaxed">
+                        <div
+                            style={{ top: metrics.paddingTop + caretViewLine * metrics.lineHeight - scrollTop, height: metrics.lineHeight }}
+                            className="absolute inset-x-0 bg-gray-700/30"
+                        />
+                        <div ref={layerRef} className="relative will-change-transform">
+                            {matchedRanges.map(range => {
+                                const line = viewLineOf(view, range.line);
+                                if (line === -1) return null;
+                                const text = highlighted.lines[range.line];
+                                const start = visualColumn(text, range.start);
+                                return (
+                                    <div
+                                        key={`${range.line}:${range.start}`}
+                                        style={{
+                                            top: metrics.paddingTop + line * metrics.lineHeight,
+                                            left: `calc(${metrics.paddingLeft}px + ${start}ch)`,
+                                            width: `${visualColumn(text, range.end) - start}ch`,
+                                            height: metrics.lineHeight,
+                                        }}
+                                        className="absolute rounded-sm bg-gray-600/40 outline outline-1 outline-gray-500"
+                                    />
+                                );
+                            })}
+                            <pre
+                                style={{ paddingTop: metrics.paddingTop + firstLine * metrics.lineHeight }}
+                                className="p-4"
+                                dangerouslySetInnerHTML={{ __html: visibleHtml + '\n' }}
+                            />
+                        </div>
+                    </div>
+                    <textarea
+                        ref={textareaRef}
+                        value={view.text}
+                        wrap="off"
+                        onChange={(e) => applyViewText(e.target.value, e.target.selectionStart, e.target.selectionEnd)}
+                        readOnly={isStreaming || readOnly}
+                        onScroll={() => { handleScroll(); reportViewState(); }}
+                        onSelect={reportViewState}
+                        onKeyDown={handleKeyDown}
+                        className="absolute inset-0 w-full h-full p-4 bg-transparent text-transparent caret-white font-mono text-sm resize-none focus:outline-none leading-relaxed z-10"
+                        placeholder="Select a file or ask the AI to generate one."
+                        spellCheck="false"
+                    />
+                </div>
             </div>
         </div>
     );
@@ -172,30 +365,117 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ content, onContentChange, fileN
 
 interface PreviewProps {
   htmlContent: string;
-  key: number;
+  // Problems found building the page, shown in the console each time it loads.
+  problems: string[];
+  // Changing it reloads the page, even when its content is the same.
+  reloadToken: number;
+  // The address being shown. Its scroll position survives reloads until the address changes.
+  page: string;
+  onConsoleLog?: (log: ConsoleLog | 'clear') => void;
+  // Called with the href of a relative link the user followed inside the page.
+  onNavigate?: (href: string) => void;
 }
 
-const Preview: React.FC<PreviewProps> = ({ htmlContent, key }) => (
-    <iframe
-        key={key}
-        srcDoc={htmlContent}
-        title="Live Preview"
-        className="w-full h-full border-0"
-        sandbox="allow-scripts allow-same-origin"
-    />
-);
+const Preview: React.FC<PreviewProps> = ({ htmlContent, problems, reloadToken, page, onConsoleLog, onNavigate }) => {
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    // What the frame was loaded with. Stylesheet edits are swapped into the live page and don't change it;
+    // anything else loads a fresh frame.
+    const [loaded, setLoaded] = useState({ html: htmlContent, count: 0 });
+    // The document the page currently reflects, including stylesheets swapped in since it loaded.
+    const shownHtmlRef = useRef(htmlContent);
+    const isLoadedRef = useRef(false);
+    const reloadTokenRef = useRef(reloadToken);
+    const scrollRef = useRef({ x: 0, y: 0 });
+    // The problems already in the console for the page that is showing.
+    const shownProblemsRef = useRef<string[]>([]);
+
+    const reportProblems = (reported: string[]) => {
+        reported.forEach(problem => onConsoleLog?.(createConsoleLog('error', problem)));
+        shownProblemsRef.current = problems;
+    };
+
+    const reload = (html: string) => {
+        isLoadedRef.current = false;
+        onConsoleLog?.('clear');
+        reportProblems(problems);
+        setLoaded(current => ({ html, count: current.count + 1 }));
+    };
+
+    useEffect(() => {
+        onConsoleLog?.('clear');
+        reportProblems(problems);
+    }, []);
+
+    useEffect(() => {
+        scrollRef.current = { x: 0, y: 0 };
+    }, [page]);
+
+    useEffect(() => {
+        if (htmlContent === shownHtmlRef.current) return;
+        const frame = iframeRef.current?.contentWindow;
+        const styles = frame && isLoadedRef.current ? stylesheetUpdate(shownHtmlRef.current, htmlContent) : null;
+        shownHtmlRef.current = htmlContent;
+        if (frame && styles) {
+            postHotReloadCommand(frame, { type: 'styles', styles });
+            reportProblems(problems.filter(problem => !shownProblemsRef.current.includes(problem)));
+        } else {
+            reload(htmlContent);
+        }
+    }, [htmlContent]);
+
+    useEffect(() => {
+        if (reloadToken === reloadTokenRef.current) return;
+        reloadTokenRef.current = reloadToken;
+        reload(shownHtmlRef.current);
+    }, [reloadToken]);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            // Only accept messages from this frame so a second mounted preview doesn't duplicate logs.
+            if (event.source !== iframeRef.current?.contentWindow || event.origin !== OPAQUE_ORIGIN) return;
+            const scroll = parseScrollMessage(event.data);
+            if (scroll) scrollRef.current = scroll;
+            const log = parseConsoleMessage(event.data);
+            if (log) onConsoleLog?.(log);
+            const href = parseNavigationMessage(event.data);
+            if (href !== null) onNavigate?.(href);
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [onConsoleLog, onNavigate]);
+
+    const handleLoad = () => {
+        isLoadedRef.current = true;
+        const { x, y } = scrollRef.current;
+        const frame = iframeRef.current?.contentWindow;
+        if (frame && (x > 0 || y > 0)) postHotReloadCommand(frame, { type: 'scroll', x, y });
+    };
+
+    return (
+        <iframe
+            ref={iframeRef}
+            key={loaded.count}
+            srcDoc={loaded.html}
+            onLoad={handleLoad}
+            title="Live Preview"
+            className="w-full h-full border-0"
+            sandbox={PREVIEW_SANDBOX}
+        />
+    );
+};
 
 interface ChatPanelProps {
     messages: ChatMessage[];
     isLoading: boolean;
+    streamingMessage?: string;
 }
   
-const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading }) => {
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading, streamingMessage }) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages, isLoading]);
+    }, [messages, isLoading, streamingMessage]);
 
     return (
         <div className="h-full flex flex-col p-4 overflow-y-auto bg-gray-800/30">
@@ -207,7 +487,15 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading }) => {
             </div>
             </div>
         ))}
-        {isLoading && (
+        {isLoading && streamingMessage && (
+            <div className="flex items-start gap-3 my-2">
+                <SparklesIcon className="w-6 h-6 text-blue-400 flex-shrink-0 mt-1 animate-pulse" />
+                <div className="max-w-md rounded-lg px-4 py-2 overflow-x-auto bg-gray-700">
+                    <p className="text-sm whitespace-pre-wrap">{streamingMessage}</p>
+                </div>
+            </div>
+        )}
+        {isLoading && !streamingMessage && (
             <div className="flex items-start gap-3 my-2">
                 <SparklesIcon className="w-6 h-6 text-blue-400 flex-shrink-0 mt-1 animate-pulse" />
                 <div className="max-w-md rounded-lg px-4 py-2 bg-gray-700">
@@ -229,23 +517,70 @@ interface ConsoleOutputProps {
     onClear: () => void;
 }
 
+const consoleLevelStyles: Record<ConsoleLogLevel, { label: string; text: string; row: string }> = {
+    error: { label: 'Errors', text: 'text-red-400', row: 'bg-red-500/10' },
+    warn: { label: 'Warnings', text: 'text-yellow-300', row: 'bg-yellow-500/10' },
+    info: { label: 'Info', text: 'text-blue-300', row: '' },
+    log: { label: 'Logs', text: 'text-gray-300', row: '' },
+};
+
 const ConsoleOutput: React.FC<ConsoleOutputProps> = ({ logs, onClear }) => {
+    const [enabledLevels, setEnabledLevels] = useState<Record<ConsoleLogLevel, boolean>>({ error: true, warn: true, info: true, log: true });
+    const logsContainerRef = useRef<HTMLDivElement>(null);
+
+    const counts = useMemo(() => {
+        const result: Record<ConsoleLogLevel, number> = { error: 0, warn: 0, info: 0, log: 0 };
+        logs.forEach(log => { result[log.type]++; });
+        return result;
+    }, [logs]);
+
+    const visibleLogs = logs.filter(log => enabledLevels[log.type]);
+
+    useEffect(() => {
+        const container = logsContainerRef.current;
+        if (container) container.scrollTop = container.scrollHeight;
+    }, [logs]);
+
+    const toggleLevel = (level: ConsoleLogLevel) => {
+        setEnabledLevels(prev => ({ ...prev, [level]: !prev[level] }));
+    };
+
     return (
         <div className="h-full flex flex-col bg-gray-900/80">
              <div className="flex items-center justify-between px-4 py-1.5 border-b border-t border-gray-700/50">
-                <h3 className="text-sm font-semibold text-gray-300">Console</h3>
+                <div className="flex items-center gap-3">
+                    <h3 className="text-sm font-semibold text-gray-300">Console</h3>
+                    <div className="flex items-center gap-1">
+                        {(Object.keys(consoleLevelStyles) as ConsoleLogLevel[]).map(level => (
+                            <button
+                                key={level}
+                                onClick={() => toggleLevel(level)}
+                                className={`px-2 py-0.5 text-xs rounded-md transition-colors ${enabledLevels[level] ? `bg-gray-700 ${consoleLevelStyles[level].text}` : 'text-gray-500 hover:bg-gray-800'}`}
+                                title={`${enabledLevels[level] ? 'Hide' : 'Show'} ${consoleLevelStyles[level].label.toLowerCase()}`}
+                            >
+                                {consoleLevelStyles[level].label} {counts[level] > 0 && `(${counts[level]})`}
+                            </button>
+                        ))}
+                    </div>
+                </div>
                 <button onClick={onClear} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Clear console">
                     <TrashIcon className="w-4 h-4 text-gray-400"/>
                 </button>
             </div>
-            <div className="flex-1 p-2 font-mono text-xs overflow-y-auto">
+            <div ref={logsContainerRef} className="flex-1 p-2 font-mono text-xs overflow-y-auto">
                 {logs.length === 0 ? (
                     <p className="text-gray-500">Console is empty. Logs from your project will appear here.</p>
+                ) : visibleLogs.length === 0 ? (
+                    <p className="text-gray-500">All messages are hidden by the current filters.</p>
                 ) : (
-                    logs.map((log, index) => (
-                        <div key={index} className={`flex items-start gap-2 border-b border-gray-800/50 py-1 ${log.type === 'error' ? 'text-red-400' : 'text-gray-300'}`}>
+                    visibleLogs.map((log, index) => (
+                        <div key={index} className={`flex items-start gap-2 border-b border-gray-800/50 py-1 ${consoleLevelStyles[log.type].text} ${consoleLevelStyles[log.type].row}`}>
                             <span className="text-gray-500">{log.timestamp}</span>
-                            <div className="flex-1 whitespace-pre-wrap break-all">{log.message.join(' ')}</div>
+                            <div className="flex-1 whitespace-pre-wrap break-all">
+                                {log.args
+                                    ? log.args.map((arg, argIndex) => <span key={argIndex} className="mr-2"><ConsoleValueView value={arg} /></span>)
+                                    : log.message.join(' ')}
+                            </div>
                         </div>
                     ))
                 )}
@@ -288,20 +623,116 @@ const Resizer: React.FC<ResizerProps> = ({ onDrag, direction }) => {
     );
 };
 
+// --- Workspaces ---
+
+const INITIAL_CHAT_HISTORY: ChatMessage[] = [
+  { sender: 'ai', content: "Hello! I'm Nix 1.5. Describe the website you want to build, or ask me anything." }
+];
+const DEFAULT_WORKSPACE_NAME = 'Untitled project';
+const AUTOSAVE_DELAY_MS = 500;
+// How long typing has to pause before the preview catches up.
+const PREVIEW_UPDATE_DELAY_MS = 300;
+// Pages visited in the preview, like a browser tab's history. No entries means the entry page.
+const EMPTY_PREVIEW_HISTORY = { entries: [] as string[], index: -1 };
+
+const createBlankWorkspace = (name: string): Workspace => {
+  const now = Date.now();
+  return {
+    id: createWorkspaceId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    files: [],
+    activeFile: null,
+    chatHistory: INITIAL_CHAT_HISTORY,
+    layout: { explorerWidth: 256, rightPanelWidth: window.innerWidth * 0.4, consoleHeight: 0 },
+  };
+};
+
+const workspaceFromShare = (project: SharedProject): Workspace => {
+  const files = buildTree(project.files, project.directories);
+  return {
+    ...createBlankWorkspace(project.name),
+    files,
+    // The link is hand-editable, so don't trust it to name a file it actually carries.
+    activeFile: project.activeFile && findFile(files, project.activeFile) ? project.activeFile : null,
+    chatHistory: project.chatHistory ?? INITIAL_CHAT_HISTORY,
+  };
+};
+
+const contentsByPath = (nodes: ProjectNode[]): Record<string, string> =>
+  Object.fromEntries(flattenFiles(nodes).map(file => [file.name, file.content]));
+
+// Whether anything that is saved with a workspace differs from how it was last loaded or saved.
+// State is replaced rather than mutated, so an untouched field is still the same object.
+const hasUnsavedChanges = (workspace: Workspace, saved: Workspace | null) =>
+  !saved
+  || workspace.id !== saved.id
+  || workspace.name !== saved.name
+  || workspace.files !== saved.files
+  || workspace.chatHistory !== saved.chatHistory
+  || workspace.editor !== saved.editor
+  || workspace.snapshots !== saved.snapshots
+  || workspace.layout.explorerWidth !== saved.layout.explorerWidth
+  || workspace.layout.rightPanelWidth !== saved.layout.rightPanelWidth
+  || workspace.layout.consoleHeight !== saved.layout.consoleHeight;
+
+// Drops a share payload from the address bar once it has been dealt with.
+const clearShareHash = () => {
+  if (isShareHash(window.location.hash)) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+};
+
 // --- Main App Component ---
 
 const App: React.FC = () => {
   const [message, setMessage] = useState<string>('');
-  const [files, setFiles] = useState<FileNode[]>([]);
-  const [activeFile, setActiveFile] = useState<string | null>(null);
+  const [files, setFiles] = useState<ProjectNode[]>([]);
+  const [editorLayout, setEditorLayout] = useState<EditorLayout>(EMPTY_EDITOR_LAYOUT);
+  const activeFile = activeFileOf(editorLayout);
+  // File contents as last written to storage, for the unsaved-change dots on tabs.
+  const [savedContents, setSavedContents] = useState<{ workspaceId: string; files: Record<string, string> } | null>(null);
+  // Keyed by `${groupIndex}:${path}`; lives only as long as the workspace stays open.
+  const viewStatesRef = useRef(new Map<string, EditorViewState>());
+  // Per-file undo stacks are kept for the session; project snapshots are saved with the workspace.
+  const [editHistories, setEditHistories] = useState<EditHistories>({});
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [sidebarView, setSidebarView] = useState<'files' | 'search'>('files');
+  // A search result to select in the editor showing that file; cleared once the editor has it.
+  const [revealRequest, setRevealRequest] = useState<{ path: string; start: number; end: number } | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [consoleLogs, setConsoleLogs] = useState<ConsoleLog[]>([]);
   const [renamingFile, setRenamingFile] = useState<string | null>(null);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([
-    { sender: 'ai', content: "Hello! I'm Nix 1.5. Describe the website you want to build, or ask me anything." }
-  ]);
+  const [pendingChangeset, setPendingChangeset] = useState<ProposedChangeset | null>(null);
+  const [changesetVersion, setChangesetVersion] = useState<number>(0);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(loadModelSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [previewSettings, setPreviewSettings] = useState<PreviewSettings>(loadPreviewSettings);
+  const [isPreviewSettingsOpen, setIsPreviewSettingsOpen] = useState(false);
+  // The palette's starting text: ">" for commands, empty for quick-open; null while it's closed.
+  const [paletteQuery, setPaletteQuery] = useState<string | null>(null);
+  const [isKeybindingsOpen, setIsKeybindingsOpen] = useState(false);
+  const [keybindingOverrides, setKeybindingOverrides] = useState<KeybindingOverrides>(loadKeybindingOverrides);
+  const [streamingText, setStreamingText] = useState<string>('');
+  const [pendingImport, setPendingImport] = useState<{ files: ImportedFile[]; targetDirectory: string; conflicts: string[] } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>(INITIAL_CHAT_HISTORY);
+  const [activeWorkspace, setActiveWorkspace] = useState<WorkspaceSummary | null>(null);
+  // Shared projects open read-only and are not saved until the user forks them.
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const autosaveTimerRef = useRef<number | null>(null);
+  // The open workspace as it was last loaded or saved. Null while it has never been saved, e.g. a shared project.
+  const savedWorkspaceRef = useRef<Workspace | null>(null);
   const [activeTab, setActiveTab] = useState<'preview' | 'chat'>('chat');
   const [previewKey, setPreviewKey] = useState<number>(0);
+  const [previewHistory, setPreviewHistory] = useState(EMPTY_PREVIEW_HISTORY);
+  // The files the preview was built from. They follow `files` after a pause, or only on refresh with auto-refresh off.
+  const [previewFiles, setPreviewFiles] = useState<ProjectNode[]>([]);
+  const [isDeviceToolbarOpen, setIsDeviceToolbarOpen] = useState(false);
+  const [deviceSettings, setDeviceSettings] = useState<DeviceSettings>(DEFAULT_DEVICE_SETTINGS);
   
   // State for responsive and resizable panels
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
@@ -324,108 +755,705 @@ const App: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  const openWorkspace = (workspace: Workspace, readOnly = false) => {
+    const { editor, snapshots: workspaceSnapshots } = normalizeWorkspace(workspace);
+    savedWorkspaceRef.current = readOnly ? null : { ...workspace, editor, snapshots: workspaceSnapshots };
+    setActiveWorkspace(toSummary(workspace));
+    setIsReadOnly(readOnly);
+    setFiles(workspace.files);
+    setPreviewFiles(workspace.files);
+    setEditorLayout(editor);
+    setSavedContents({ workspaceId: workspace.id, files: contentsByPath(workspace.files) });
+    viewStatesRef.current.clear();
+    setEditHistories({});
+    setSnapshots(workspaceSnapshots);
+    setChatHistory(workspace.chatHistory);
+    setExplorerWidth(workspace.layout.explorerWidth);
+    setRightPanelWidth(workspace.layout.rightPanelWidth);
+    setConsoleHeight(workspace.layout.consoleHeight);
+    setPendingChangeset(null);
+    setRenamingFile(null);
+    setConsoleLogs([]);
+    setPreviewHistory(EMPTY_PREVIEW_HISTORY);
+    if (readOnly) return;
+    setLastWorkspaceId(workspace.id);
+    clearShareHash();
+  };
+
+  const buildWorkspaceSnapshot = (): Workspace | null => activeWorkspace && {
+    ...activeWorkspace,
+    updatedAt: Date.now(),
+    files,
+    activeFile,
+    chatHistory,
+    layout: { explorerWidth, rightPanelWidth, consoleHeight },
+    editor: editorLayout,
+    snapshots,
+  };
+
+  const persistWorkspace = async (workspace: Workspace) => {
+    // Snapshots are only rewritten when they changed since the last save.
+    const saved = savedWorkspaceRef.current;
+    const snapshotsChanged = !saved || saved.id !== workspace.id || saved.snapshots !== workspace.snapshots;
+    try {
+      await saveWorkspace(snapshotsChanged ? workspace : { ...workspace, snapshots: undefined });
+      if (workspace.id === activeWorkspace?.id) {
+        savedWorkspaceRef.current = workspace;
+        setSavedContents({ workspaceId: workspace.id, files: contentsByPath(workspace.files) });
+      }
+      setWorkspaces(prev => [...prev.filter(w => w.id !== workspace.id), toSummary(workspace)].sort((a, b) => b.updatedAt - a.updatedAt));
+    } catch (error) {
+      console.error('Failed to save workspace:', error);
+    }
+  };
+
+  const cancelAutosave = () => {
+    if (autosaveTimerRef.current !== null) {
+      window.clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+  };
+
+  // Saves the open workspace right away, e.g. before switching to another one.
+  const flushWorkspace = async () => {
+    cancelAutosave();
+    const snapshot = buildWorkspaceSnapshot();
+    if (snapshot && !isReadOnly && hasUnsavedChanges(snapshot, savedWorkspaceRef.current)) await persistWorkspace(snapshot);
+  };
+  const flushWorkspaceRef = useRef(flushWorkspace);
+  flushWorkspaceRef.current = flushWorkspace;
+
+  // Edits from the last moments before the tab closes or goes to the background are saved
+  // right away instead of waiting for the autosave delay.
+  useEffect(() => {
+    const flush = () => { flushWorkspaceRef.current(); };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (isShareHash(window.location.hash)) {
+        const shared = await readShareHash(window.location.hash);
+        if (cancelled) return;
+        if (shared.success === false) {
+          alert(shared.error);
+          clearShareHash();
+        } else {
+          listWorkspaces().then(setWorkspaces, error => console.error('Could not load saved workspaces:', error));
+          openWorkspace(workspaceFromShare(shared.project), true);
+          return;
+        }
+      }
+      try {
+        const summaries = await listWorkspaces();
+        const lastId = getLastWorkspaceId();
+        const target = summaries.find(w => w.id === lastId) ?? summaries[0];
+        const workspace = target ? await loadWorkspace(target.id) : null;
+        if (cancelled) return;
+        if (workspace) {
+          setWorkspaces(summaries);
+          openWorkspace(workspace);
+          return;
+        }
+      } catch (error) {
+        console.error('Could not load saved workspaces:', error);
+      }
+      if (cancelled) return;
+      const blank = createBlankWorkspace(DEFAULT_WORKSPACE_NAME);
+      setWorkspaces([toSummary(blank)]);
+      openWorkspace(blank);
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    const snapshot = buildWorkspaceSnapshot();
+    if (!snapshot || isReadOnly || !hasUnsavedChanges(snapshot, savedWorkspaceRef.current)) return;
+    cancelAutosave();
+    autosaveTimerRef.current = window.setTimeout(() => {
+      autosaveTimerRef.current = null;
+      persistWorkspace(snapshot);
+    }, AUTOSAVE_DELAY_MS);
+    return cancelAutosave;
+  }, [activeWorkspace, isReadOnly, files, editorLayout, snapshots, chatHistory, explorerWidth, rightPanelWidth, consoleHeight]);
+
+  // A share link pasted into the address bar of an open tab only changes the hash.
+  useEffect(() => {
+    const handleHashChange = async () => {
+      if (!isShareHash(window.location.hash) || isLoading) return;
+      const shared = await readShareHash(window.location.hash);
+      if (shared.success === false) {
+        alert(shared.error);
+        clearShareHash();
+        return;
+      }
+      await flushWorkspace();
+      openWorkspace(workspaceFromShare(shared.project), true);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  });
+
+  const handleForkWorkspace = async () => {
+    const snapshot = buildWorkspaceSnapshot();
+    if (!snapshot) return;
+    const now = Date.now();
+    const fork: Workspace = { ...snapshot, createdAt: now, updatedAt: now };
+    await persistWorkspace(fork);
+    setIsReadOnly(false);
+    setLastWorkspaceId(fork.id);
+    clearShareHash();
+  };
+
+  const getSharedProject = (includeChat: boolean): SharedProject => ({
+    name: activeWorkspace?.name ?? DEFAULT_WORKSPACE_NAME,
+    files: flattenFiles(files),
+    directories: collectDirectories(files),
+    activeFile,
+    ...(includeChat ? { chatHistory: chatHistory.filter(entry => !entry.isError) } : {}),
+  });
+
+  const handleOpenWorkspace = async (id: string) => {
+    if (id === activeWorkspace?.id) return;
+    await flushWorkspace();
+    const workspace = await loadWorkspace(id).catch(() => null);
+    if (workspace) openWorkspace(workspace);
+    else alert('That workspace could not be opened.');
+  };
+
+  const handleCreateWorkspace = async () => {
+    const name = window.prompt('Enter a name for the new workspace:', DEFAULT_WORKSPACE_NAME);
+    if (!name?.trim()) return;
+    await flushWorkspace();
+    const blank = createBlankWorkspace(name.trim());
+    await persistWorkspace(blank);
+    openWorkspace(blank);
+  };
+
+  const handleDuplicateWorkspace = async (id: string) => {
+    await flushWorkspace();
+    const source = id === activeWorkspace?.id ? buildWorkspaceSnapshot() : await loadWorkspace(id).catch(() => null);
+    if (!source) return;
+    const now = Date.now();
+    const copy: Workspace = { ...source, id: createWorkspaceId(), name: `${source.name} (copy)`, createdAt: now, updatedAt: now };
+    await persistWorkspace(copy);
+    openWorkspace(copy);
+  };
+
+  const handleRenameWorkspace = async (id: string) => {
+    const summary = workspaces.find(w => w.id === id);
+    if (!summary) return;
+    const name = window.prompt('Rename workspace:', summary.name)?.trim();
+    if (!name || name === summary.name) return;
+    if (id === activeWorkspace?.id) {
+      setActiveWorkspace(prev => prev && { ...prev, name });
+      return;
+    }
+    const workspace = await loadWorkspace(id).catch(() => null);
+    if (workspace) await persistWorkspace({ ...workspace, name });
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+    const summary = workspaces.find(w => w.id === id);
+    if (!summary || !window.confirm(`Delete the workspace "${summary.name}"? This cannot be undone.`)) return;
+    const isActive = id === activeWorkspace?.id;
+    if (isActive) cancelAutosave();
+    try {
+      await deleteWorkspace(id);
+    } catch (error) {
+      console.error('Failed to delete workspace:', error);
+      return;
+    }
+    const remaining = workspaces.filter(w => w.id !== id);
+    setWorkspaces(remaining);
+    if (!isActive) return;
+    const next = remaining[0] ? await loadWorkspace(remaining[0].id).catch(() => null) : null;
+    if (next) {
+      openWorkspace(next);
+    } else {
+      const blank = createBlankWorkspace(DEFAULT_WORKSPACE_NAME);
+      await persistWorkspace(blank);
+      openWorkspace(blank);
+    }
+  };
+
   const handleFileSelect = (fileName: string) => {
-    setActiveFile(fileName);
+    setEditorLayout(layout => openTab(layout, fileName));
     if(isMobile) {
       setIsExplorerVisible(false);
       setMobileMainView('editor');
     }
   };
 
-  const handleContentChange = (newContent: string) => {
-    if (!activeFile) return;
-    setFiles(files.map((file) => file.name === activeFile ? { ...file, content: newContent } : file));
+  // The model may answer after the user has kept editing, so proposals are diffed against
+  // the latest files rather than the ones captured when the request was sent.
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  const handleContentChange = (path: string, newContent: string) => {
+    const previous = findFile(filesRef.current, path)?.content;
+    if (previous !== undefined) setEditHistories(histories => recordEdit(histories, path, previous, 'edit'));
+    setFiles(prevFiles => updateFileContent(prevFiles, path, newContent));
+  };
+
+  const handleHistoryStep = (path: string, direction: 'undo' | 'redo'): number | null => {
+    const current = findFile(filesRef.current, path)?.content;
+    if (current === undefined) return null;
+    const result = (direction === 'undo' ? undoEdit : redoEdit)(editHistories, path, current);
+    if (!result) return null;
+    setEditHistories(result.histories);
+    setFiles(prevFiles => updateFileContent(prevFiles, path, result.content));
+    return changedOffset(current, result.content);
+  };
+
+  const takeSnapshot = (label: string) => {
+    setSnapshots(prev => addSnapshot(prev, label, filesRef.current));
+  };
+
+  const handleOpenMatch = (fileName: string, start: number, end: number) => {
+    handleFileSelect(fileName);
+    setRevealRequest({ path: fileName, start, end });
+  };
+
+  useEffect(() => {
+    if (revealRequest) setRevealRequest(null);
+  }, [revealRequest]);
+
+  const handleReplaceInFiles = (contents: Record<string, string>, snapshotLabel?: string) => {
+    if (isReadOnly) return;
+    const before = filesRef.current;
+    const next = Object.entries(contents).reduce((current, [path, content]) => updateFileContent(current, path, content), before);
+    if (snapshotLabel) takeSnapshot(snapshotLabel);
+    setFiles(next);
+    setEditHistories(histories => recordProjectChange(histories, before, next, 'replace'));
   };
+
+  const dirtyFiles = useMemo(() => {
+    if (!savedContents || savedContents.workspaceId !== activeWorkspace?.id) return new Set<string>();
+    return new Set(flattenFiles(files).filter(file => savedContents.files[file.name] !== file.content).map(file => file.name));
+  }, [files, savedContents, activeWorkspace]);
   
   const handleSendMessage = useCallback(async () => {
-    if (!message.trim()) return;
+    if (!message.trim() || isReadOnly) return;
     const userMessage: ChatMessage = { sender: 'user', content: message };
     setChatHistory(prev => [...prev, userMessage]);
     setMessage('');
     setIsLoading(true);
-    const response = await sendMessageToModel(message);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const response = await sendMessageToModel(message, { files: flattenFiles(files), activeFile, history: chatHistory }, modelSettings, {
+      signal: controller.signal,
+      onProgress: setStreamingText,
+    });
+    abortControllerRef.current = null;
+    setStreamingText('');
     setIsLoading(false);
-    
+
+    // A stopped or broken stream never touches the files directly: whatever complete
+    // file blocks arrived are offered for review so nothing is lost or half-applied.
+    if (response.success === false && response.partial) {
+      const partial = parseModelResponse(response.partial, true);
+      const changeset = partial.isStructured ? createChangeset(filesRef.current, partial.summary, partial.changes) : null;
+      const hasChanges = !!changeset && changeset.changes.length > 0;
+      const note = hasChanges ? 'The partial output is available for review in the editor.' : 'No complete files were received.';
+      setChatHistory(prev => [...prev, { sender: 'ai', content: `${response.error} ${note}`, isError: !response.aborted }]);
+      if (changeset && hasChanges) {
+        setPendingChangeset(changeset);
+        setChangesetVersion(v => v + 1);
+        setMobileMainView('editor');
+      }
+      return;
+    }
     if (response.success === false) {
-      setChatHistory(prev => [...prev, { sender: 'ai', content: response.error, isError: true }]);
+      setChatHistory(prev => [...prev, { sender: 'ai', content: response.error, isError: !response.aborted }]);
+      if (response.aborted) return;
       setConsoleHeight(192); // Show console on error
       setActiveTab('chat');
       setMobileMainView('preview');
       return;
     }
-    const aiResponseContent = response.message;
-    setChatHistory(prev => [...prev, { sender: 'ai', content: aiResponseContent }]);
-    const contentFile: FileNode = { name: 'content', content: aiResponseContent, type: 'file' };
-    setFiles(prevFiles => {
-        const otherFiles = prevFiles.filter(f => f.name !== 'content');
-        return [...otherFiles, contentFile];
+    const parsed = parseModelResponse(response.message);
+    const chatContent = parsed.isStructured
+        ? [parsed.summary, describeChanges(parsed.changes)].filter(Boolean).join('\n\n')
+        : response.message;
+    const changeset = createChangeset(filesRef.current, parsed.summary, parsed.changes);
+    // Brand-new files can't clobber anything, so only edits and deletions go through review.
+    const needsReview = changeset.changes.length > 0 && !isAdditiveOnly(changeset);
+    const reviewNote = needsReview ? 'Review the proposed changes in the editor before they are applied.' : '';
+    const noChangesNote = changeset.changes.length === 0 ? 'No files were changed.' : '';
+    setChatHistory(prev => [...prev, { sender: 'ai', content: [chatContent, reviewNote || noChangesNote].filter(Boolean).join('\n\n') }]);
+    if (needsReview) {
+      setPendingChangeset(changeset);
+      setChangesetVersion(v => v + 1);
+      setMobileMainView('editor');
+    } else if (changeset.changes.length > 0) {
+      applyChanges(changeset.changes);
+    }
+  }, [message, isMobile, activeFile, files, chatHistory, modelSettings, isReadOnly]);
+
+  const applyChanges = (changes: FileChange[]) => {
+    if (changes.length === 0) return;
+    // One snapshot and one undo step per file, however many edits the answer contained.
+    const before = filesRef.current;
+    const next = applyFileChanges(before, changes);
+    const touched = changes.map(change => change.path);
+    takeSnapshot(`Before AI changes to ${touched.slice(0, 3).join(', ')}${touched.length > 3 ? ` and ${touched.length - 3} more` : ''}`);
+    setFiles(next);
+    setEditHistories(histories => changes.reduce(
+      (current, change) => (change.type === 'delete' ? dropHistories(current, change.path) : current),
+      recordProjectChange(histories, before, next, 'ai'),
+    ));
+    const written = changes.filter(change => change.type === 'upsert');
+    const nextActive = written.find(change => change.path.endsWith('.html')) || written[0];
+    setEditorLayout(layout => {
+      const remaining = changes.reduce((current, change) => (change.type === 'delete' ? removeTabs(current, change.path) : current), layout);
+      return nextActive ? openTab(remaining, nextActive.path) : remaining;
     });
-    setActiveFile('content');
     setActiveTab('preview');
     setMobileMainView('preview');
-  }, [message, isMobile]);
+  };
 
-  const handleAddNewFile = () => {
-    const fileName = window.prompt("Enter the name for the new file (e.g., 'about.html', 'utils.js'):");
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // While an answer streams in, show the file it is currently writing and a readable
+  // progress line in the chat instead of the raw markup.
+  const streamingPreview = useMemo(() => {
+    if (!streamingText) return null;
+    const parsed = parseModelResponse(streamingText);
+    const writing = [...parsed.changes].reverse().find(change => change.type === 'upsert');
+    const file = writing && writing.type === 'upsert' ? { path: writing.path, content: writing.content } : null;
+    const chatText = parsed.isStructured
+        ? [parsed.summary, file ? `Writing ${file.path}…` : ''].filter(Boolean).join('\n\n')
+        : streamingText;
+    return { file, chatText };
+  }, [streamingText]);
+
+  const handleSaveSettings = (settings: ModelSettings) => {
+    setModelSettings(settings);
+    saveModelSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  const handleApplyChangeset = (changes: FileChange[]) => {
+    setPendingChangeset(null);
+    applyChanges(changes);
+  };
+
+  const handleAddNewFile = (parentPath: string) => {
+    const fileName = window.prompt("Enter the name for the new file (e.g., 'about.html', 'js/utils.js'):");
     if (fileName) {
-        if (files.some(f => f.name === fileName)) {
-            alert(`A file named "${fileName}" already exists.`);
+        const path = joinPath(parentPath, fileName.trim());
+        const error = validateNewPath(files, path);
+        if (error) {
+            alert(error);
             return;
         }
-        const newFile: FileNode = { name: fileName, content: '', type: 'file' };
-        setFiles(prevFiles => [...prevFiles, newFile]);
-        setActiveFile(fileName);
+        setFiles(prevFiles => upsertFile(prevFiles, path, ''));
+        setEditorLayout(layout => openTab(layout, path));
         if (isMobile) setIsExplorerVisible(false);
     }
   };
 
+  const handleAddNewFolder = (parentPath: string) => {
+    const folderName = window.prompt("Enter the name for the new folder (e.g., 'css', 'assets/images'):");
+    if (folderName) {
+        const path = joinPath(parentPath, folderName.trim());
+        const error = validateNewPath(files, path);
+        if (error) {
+            alert(error);
+            return;
+        }
+        setFiles(prevFiles => createDirectory(prevFiles, path));
+    }
+  };
+
+  const finishImport = (imported: ImportedFile[], targetDirectory: string, strategy: ConflictStrategy) => {
+    setPendingImport(null);
+    const before = filesRef.current;
+    const next = mergeImport(before, imported, targetDirectory, strategy);
+    takeSnapshot(`Before importing ${imported.length} file${imported.length === 1 ? '' : 's'}`);
+    setFiles(next);
+    setEditHistories(histories => recordProjectChange(histories, before, next, 'import'));
+    if (!activeFile) {
+      const page = flattenFiles(next).find(file => file.name.endsWith('.html'));
+      if (page) setEditorLayout(layout => openTab(layout, page.name));
+    }
+  };
+
+  const handleImport = async (pending: Promise<ImportResult>, targetDirectory: string) => {
+    if (isReadOnly) return;
+    let result: ImportResult;
+    try {
+      result = await pending;
+    } catch (error) {
+      alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (result.skipped.length > 0) {
+      alert(`Some files were not imported:\n${result.skipped.map(({ path, reason }) => `${path}: ${reason}`).join('\n')}`);
+    }
+    if (result.files.length === 0) return;
+    const conflicts = findImportConflicts(filesRef.current, result.files, targetDirectory);
+    if (conflicts.length > 0) setPendingImport({ files: result.files, targetDirectory, conflicts });
+    else finishImport(result.files, targetDirectory, 'overwrite');
+  };
+
   const handleDownloadProject = () => {
     if (files.length === 0) return;
-    const zip = new (window as any).JSZip();
-    files.forEach(file => { zip.file(file.name, file.content); });
-    zip.generateAsync({ type: 'blob' }).then((content: any) => {
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(content);
-        link.download = 'codenix-project.zip';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    });
+    createZip(flattenFiles(files), collectDirectories(files)).then(content => downloadBlob(content, 'codenix-project.zip'));
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    const result = await exportProject(files, activeWorkspace?.name ?? '', previewSettings, options);
+    downloadBlob(result.blob, result.fileName);
+    return result;
   };
 
-  const handleRenameFile = (oldName: string, newName: string) => {
+  const handleRenameFile = (oldPath: string, newName: string) => {
+    if (isReadOnly) return;
     const trimmedNewName = newName.trim();
-    if (!trimmedNewName || trimmedNewName === oldName) {
+    const newPath = joinPath(dirname(oldPath), trimmedNewName);
+    if (!trimmedNewName || newPath === oldPath) {
       setRenamingFile(null);
       return;
     }
-    if (files.some(f => f.name === trimmedNewName)) {
-      alert(`A file named "${trimmedNewName}" already exists.`);
+    const error = validateNewPath(files, newPath);
+    if (error) {
+      alert(error);
       return;
     }
-    setFiles(files.map(f => (f.name === oldName ? { ...f, name: trimmedNewName } : f)));
-    if (activeFile === oldName) { setActiveFile(trimmedNewName); }
+    setFiles(moveNode(files, oldPath, newPath));
+    setEditorLayout(layout => remapTabs(layout, oldPath, newPath));
+    setEditHistories(histories => remapHistories(histories, oldPath, newPath));
     setRenamingFile(null);
   };
+
+  const handleMoveNode = (path: string, targetDirectory: string) => {
+    if (isReadOnly) return;
+    const newPath = joinPath(targetDirectory, basename(path));
+    if (newPath === path) return;
+    if (isSameOrDescendant(targetDirectory, path)) {
+      alert('A folder cannot be moved into itself.');
+      return;
+    }
+    const error = validateNewPath(files, newPath);
+    if (error) {
+      alert(error);
+      return;
+    }
+    setFiles(moveNode(files, path, newPath));
+    setEditorLayout(layout => remapTabs(layout, path, newPath));
+    setEditHistories(histories => remapHistories(histories, path, newPath));
+  };
+
+  const handleDeleteNode = (path: string) => {
+    if (isReadOnly) return;
+    const isDirectory = !findFile(files, path);
+    const prompt = isDirectory ? `Delete the folder "${path}" and everything in it?` : `Delete "${path}"?`;
+    if (!window.confirm(prompt)) return;
+    takeSnapshot(`Before deleting ${path}`);
+    setFiles(removeNode(files, path));
+    setEditorLayout(layout => removeTabs(layout, path));
+    setEditHistories(histories => dropHistories(histories, path));
+  };
+
+  const handleRestoreSnapshot = (id: string) => {
+    const snapshot = snapshots.find(entry => entry.id === id);
+    if (!snapshot || !window.confirm(`Restore the project to "${snapshot.label}"? Current files will be snapshotted first.`)) return;
+    const before = filesRef.current;
+    takeSnapshot(`Before restoring "${snapshot.label}"`);
+    setFiles(snapshot.files);
+    setEditHistories(histories => {
+      const restored = recordProjectChange(histories, before, snapshot.files, 'restore');
+      return Object.fromEntries(Object.entries(restored).filter(([path]) => findFile(snapshot.files, path)));
+    });
+    setEditorLayout(layout => layout.groups
+        .flatMap(group => group.tabs)
+        .filter(path => !findFile(snapshot.files, path))
+        .reduce(removeTabs, layout));
+    setPendingChangeset(null);
+    setIsHistoryOpen(false);
+  };
   
-  const activeFileContent = files.find((file) => file.name === activeFile)?.content || '';
-
-  const previewContent = useMemo(() => {
-    const htmlFile = files.find(f => f.name === 'content') || files.find(f => f.name.endsWith('.html'));
-    if (!htmlFile) return '<h1>No HTML file found to preview.</h1><p>Ask the AI to generate a complete webpage.</p>';
-    const cssFiles = files.filter(f => f.name.endsWith('.css'));
-    const jsFiles = files.filter(f => f.name.endsWith('.js'));
-    const styles = cssFiles.map(f => `<style>${f.content}</style>`).join('\n');
-    const scripts = jsFiles.map(f => `<script type="module">${f.content}</script>`).join('\n');
-    let finalHtml = htmlFile.content;
-    if (finalHtml.includes('</head>')) {
-        finalHtml = finalHtml.replace('</head>', `${styles}\n</head>`);
-    } else { finalHtml += styles; }
-    if (finalHtml.includes('</body>')) {
-        finalHtml = finalHtml.replace('</body>', `${scripts}\n</body>`);
-    } else { finalHtml += scripts; }
-    return finalHtml;
-  }, [files]);
+  const canSplitEditor = !isMobile;
+
+  const [previewPage, setPreviewPage] = useState<PreviewPage>({ html: '', problems: [] });
+  const previewAddress: string | undefined = previewHistory.entries[previewHistory.index];
+
+  useEffect(() => {
+    if (!previewSettings.autoRefresh) return;
+    const timer = window.setTimeout(() => setPreviewFiles(files), PREVIEW_UPDATE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [files, previewSettings.autoRefresh]);
+
+  // TypeScript and JSX compile in a worker, so the preview document is built once that's done.
+  useEffect(() => {
+    let isCurrent = true;
+    const projectFiles = flattenFiles(previewFiles);
+    transpileFiles(projectFiles)
+      .then(compiled => ({ compiled, compileError: undefined }), (error: unknown) => ({
+        compiled: undefined,
+        compileError: error instanceof Error ? error.message : String(error),
+      }))
+      .then(({ compiled, compileError }) => {
+        if (isCurrent) setPreviewPage(buildPreviewDocument(projectFiles, { compiled, compileError, settings: previewSettings, address: previewAddress }));
+      });
+    return () => { isCurrent = false; };
+  }, [previewFiles, previewSettings, previewAddress]);
+
+  const hasPendingPreviewChanges = previewFiles !== files;
+
+  // Applies pending changes right away; without any, reloads the page.
+  const refreshPreview = () => {
+    if (hasPendingPreviewChanges) setPreviewFiles(files);
+    else setPreviewKey(k => k + 1);
+  };
+
+  const toggleAutoRefresh = () => {
+    const settings = { ...previewSettings, autoRefresh: !previewSettings.autoRefresh };
+    setPreviewSettings(settings);
+    savePreviewSettings(settings);
+  };
+
+  const previewPages = useMemo(() => flattenFiles(files).map(file => file.name).filter(name => /\.html?$/i.test(name)), [files]);
+  const shownPreviewAddress = previewAddress ?? findEntryDocument(flattenFiles(files))?.name ?? '';
+
+  // Read by the preview's link handler, which stays the same across renders.
+  const shownPreviewAddressRef = useRef(shownPreviewAddress);
+  shownPreviewAddressRef.current = shownPreviewAddress;
+
+  // Links resolve against the page they're on; addresses typed into the address bar against the project root.
+  const navigatePreview = useCallback((href: string, fromPage: string) => {
+    const address = resolvePageLink(flattenFiles(filesRef.current), fromPage, href);
+    if (address === null) return;
+    const current = shownPreviewAddressRef.current;
+    setPreviewHistory(history => {
+      if (current === address) return history;
+      // The entry page becomes the first entry, so Back returns to it.
+      const entries = history.index === -1 ? [current].filter(Boolean) : history.entries.slice(0, history.index + 1);
+      return { entries: [...entries, address], index: entries.length };
+    });
+  }, []);
+
+  const handlePreviewLink = useCallback(
+    (href: string) => navigatePreview(href, splitPreviewAddress(shownPreviewAddressRef.current).path),
+    [navigatePreview],
+  );
+
+  const stepPreviewHistory = (step: number) => {
+    setPreviewHistory(history => ({ ...history, index: Math.min(history.entries.length - 1, Math.max(0, history.index + step)) }));
+  };
+
+  const handleSavePreviewSettings = (settings: PreviewSettings) => {
+    setPreviewSettings(settings);
+    savePreviewSettings(settings);
+    setIsPreviewSettingsOpen(false);
+  };
+
+  const handleConsoleLog = useCallback((log: ConsoleLog | 'clear') => {
+    if (log === 'clear') {
+      setConsoleLogs([]);
+      return;
+    }
+    setConsoleLogs(prev => [...prev, log].slice(-MAX_CONSOLE_LOGS));
+  }, []);
+
+  const toggleConsole = () => {
+    setConsoleHeight(prev => (prev > 0 ? 0 : 192));
+  };
+
+  const handleSaveKeybindings = (overrides: KeybindingOverrides) => {
+    setKeybindingOverrides(overrides);
+    saveKeybindingOverrides(overrides);
+  };
+
+  const showSearch = () => {
+    setSidebarView('search');
+    setIsExplorerVisible(true);
+  };
+
+  const cycleTab = (step: number) => {
+    const group = editorLayout.groups[editorLayout.focusedGroup];
+    if (group.tabs.length < 2 || !group.activeTab) return;
+    const index = group.tabs.indexOf(group.activeTab);
+    setEditorLayout(layout => openTab(layout, group.tabs[(index + step + group.tabs.length) % group.tabs.length]));
+  };
+
+  const showRightPanel = (tab: 'preview' | 'chat') => {
+    setActiveTab(tab);
+    if (isMobile) setMobileMainView('preview');
+  };
+
+  // Everything the palette and keyboard shortcuts can do. Commands that don't apply right now are left out.
+  const commands: Command[] = [
+    { id: 'palette.commands', title: 'Show All Commands', category: 'View', run: () => setPaletteQuery('>') },
+    { id: 'palette.quickOpen', title: 'Go to File', category: 'File', run: () => setPaletteQuery('') },
+    { id: 'search.show', title: 'Search in Files', category: 'Search', run: showSearch },
+    ...(isReadOnly ? [] : [
+      { id: 'file.new', title: 'New File', category: 'File', run: () => handleAddNewFile(activeFile ? dirname(activeFile) : '') },
+      { id: 'folder.new', title: 'New Folder', category: 'File', run: () => handleAddNewFolder(activeFile ? dirname(activeFile) : '') },
+    ]),
+    ...(files.length > 0 ? [
+      { id: 'project.download', title: 'Download Project', category: 'Project', run: handleDownloadProject },
+      { id: 'project.export', title: 'Export Project…', category: 'Project', run: () => setIsExportOpen(true) },
+      { id: 'project.share', title: 'Share Project', category: 'Project', run: () => setIsShareOpen(true) },
+    ] : []),
+    { id: 'project.history', title: 'Show Project History', category: 'Project', run: () => setIsHistoryOpen(true) },
+    { id: 'console.toggle', title: 'Toggle Console', category: 'View', run: toggleConsole },
+    { id: 'view.preview', title: 'Show Live Preview', category: 'View', run: () => showRightPanel('preview') },
+    { id: 'view.chat', title: 'Show Chat', category: 'View', run: () => showRightPanel('chat') },
+    { id: 'view.explorer', title: 'Show Files', category: 'View', run: () => { setSidebarView('files'); setIsExplorerVisible(true); } },
+    { id: 'preview.refresh', title: 'Refresh Preview', category: 'Preview', run: refreshPreview },
+    { id: 'preview.autoRefresh', title: previewSettings.autoRefresh ? 'Turn Off Auto Refresh' : 'Turn On Auto Refresh', category: 'Preview', run: toggleAutoRefresh },
+    { id: 'preview.back', title: 'Go Back', category: 'Preview', run: () => stepPreviewHistory(-1) },
+    { id: 'preview.forward', title: 'Go Forward', category: 'Preview', run: () => stepPreviewHistory(1) },
+    { id: 'preview.fullscreen', title: 'Toggle Fullscreen Preview', category: 'Preview', run: () => setIsPreviewFullScreen(p => !p) },
+    { id: 'preview.devices', title: 'Toggle Device Toolbar', category: 'Preview', run: () => setIsDeviceToolbarOpen(open => !open) },
+    ...(activeFile ? [
+      { id: 'editor.nextTab', title: 'Next Tab', category: 'Editor', run: () => cycleTab(1) },
+      { id: 'editor.previousTab', title: 'Previous Tab', category: 'Editor', run: () => cycleTab(-1) },
+      { id: 'editor.closeTab', title: 'Close Tab', category: 'Editor', run: () => setEditorLayout(layout => closeTab(layout, layout.focusedGroup, activeFile)) },
+      ...(canSplitEditor ? [{ id: 'editor.split', title: 'Split Editor', category: 'Editor', run: () => setEditorLayout(layout => splitTab(layout, layout.focusedGroup, activeFile)) }] : []),
+    ] : []),
+    { id: 'settings.model', title: 'Model Settings', category: 'Preferences', run: () => setIsSettingsOpen(true) },
+    { id: 'settings.preview', title: 'Preview Settings', category: 'Preferences', run: () => setIsPreviewSettingsOpen(true) },
+    { id: 'settings.keybindings', title: 'Keyboard Shortcuts', category: 'Preferences', run: () => setIsKeybindingsOpen(true) },
+  ];
+  const keybindings = resolveKeybindings(keybindingOverrides);
+
+  // The window listener is attached once and reads the latest commands through a ref.
+  const commandsRef = useRef({ commands, keybindings });
+  commandsRef.current = { commands, keybindings };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        // The editor and dialogs handle their own keys first.
+        if (e.defaultPrevented) return;
+        const combination = keyCombination(e);
+        if (!combination) return;
+        const target = e.target as HTMLElement | null;
+        const isTyping = !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+        if (isTyping && !isCommandCombination(combination)) return;
+        const { commands, keybindings } = commandsRef.current;
+        const command = commands.find(candidate => keybindings[candidate.id] === combination);
+        if (!command) return;
+        e.preventDefault();
+        command.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -437,10 +1465,6 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [isPreviewFullScreen]);
 
-  const toggleConsole = () => {
-    setConsoleHeight(prev => (prev > 0 ? 0 : 192));
-  };
-
   return (
     <div className="h-screen w-screen flex flex-col bg-gradient-to-br from-gray-900 to-gray-800 text-gray-200 overflow-hidden">
       <header className="flex items-center justify-between p-3 bg-gray-900/80 backdrop-blur-sm border-b border-gray-700/50 shadow-md z-30">
@@ -451,13 +1475,33 @@ const App: React.FC = () => {
           <SparklesIcon className="w-6 h-6 text-blue-400 hidden sm:block" />
           <h1 className="text-xl font-bold tracking-wider">Codenix</h1>
           <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-0.5 rounded-full hidden sm:block">Nix 1.5</span>
+          <WorkspaceSwitcher
+              workspaces={workspaces} activeWorkspace={activeWorkspace} disabled={isLoading}
+              onOpen={handleOpenWorkspace} onCreate={handleCreateWorkspace} onDuplicate={handleDuplicateWorkspace}
+              onRename={handleRenameWorkspace} onDelete={handleDeleteWorkspace}
+          />
         </div>
         <div className="flex items-center gap-2">
-            <button onClick={handleDownloadProject} disabled={files.length === 0} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors bg-gray-600/50 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed">
-                <DownloadIcon className="w-4 h-4" /> <span className="hidden sm:inline">Download</span>
+            <button onClick={() => setIsSettingsOpen(true)} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors bg-gray-600/50 hover:bg-gray-700" title="Model settings">
+                <SettingsIcon className="w-4 h-4" /> <span className="hidden lg:inline">{MODEL_PROVIDERS[modelSettings.provider].label}</span>
+            </button>
+            <button onClick={() => setIsHistoryOpen(true)} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors bg-gray-600/50 hover:bg-gray-700" title="Project history">
+                <HistoryIcon className="w-4 h-4" /> <span className="hidden lg:inline">History</span>
+            </button>
+            <button onClick={() => setIsShareOpen(true)} disabled={files.length === 0} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors bg-gray-600/50 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed" title="Share a link to this project">
+                <ShareIcon className="w-4 h-4" /> <span className="hidden sm:inline">Share</span>
+            </button>
+            <button onClick={() => setIsExportOpen(true)} disabled={files.length === 0} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors bg-gray-600/50 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed" title="Download or export this project">
+                <DownloadIcon className="w-4 h-4" /> <span className="hidden sm:inline">Export</span>
             </button>
         </div>
       </header>
+      {isReadOnly && (
+        <div className="flex items-center justify-between gap-3 px-4 py-2 bg-amber-500/10 border-b border-amber-500/30 text-sm text-amber-200">
+          <span>You're viewing a shared project. It is read-only and won't be saved until you fork it.</span>
+          <button onClick={handleForkWorkspace} className="px-3 py-1 text-sm font-semibold rounded-md bg-amber-600 hover:bg-amber-700 text-white transition-colors flex-shrink-0">Fork to edit</button>
+        </div>
+      )}
       
       <main className="flex flex-1 overflow-hidden relative">
         {isMobile && isExplorerVisible && <div onClick={() => setIsExplorerVisible(false)} className="fixed inset-0 bg-black/60 z-30" />}
@@ -465,12 +1509,20 @@ const App: React.FC = () => {
             style={{ width: isMobile ? '288px' : `${explorerWidth}px` }}
             className={`h-full transition-transform duration-300 ease-in-out ${isMobile ? 'fixed z-40' : 'relative'} ${isExplorerVisible || !isMobile ? 'translate-x-0' : '-translate-x-full'}`}
         >
-            <FileExplorer 
-                files={files} activeFile={activeFile} onFileSelect={handleFileSelect} 
-                onAddFile={handleAddNewFile} renamingFile={renamingFile}
-                onRenameStart={setRenamingFile} onRenameConfirm={handleRenameFile}
-                onClose={() => setIsExplorerVisible(false)}
-            />
+            {sidebarView === 'search' ? (
+                <SearchPanel
+                    files={files} readOnly={isReadOnly} onOpenMatch={handleOpenMatch} onReplace={handleReplaceInFiles}
+                    onClose={() => setSidebarView('files')}
+                />
+            ) : (
+                <FileExplorer 
+                    files={files} activeFile={activeFile} onFileSelect={handleFileSelect} 
+                    onAddFile={handleAddNewFile} onAddFolder={handleAddNewFolder} renamingFile={renamingFile}
+                    onRenameStart={setRenamingFile} onRenameConfirm={handleRenameFile}
+                    onMove={handleMoveNode} onDelete={handleDeleteNode} onImport={handleImport} readOnly={isReadOnly}
+                    onSearch={() => setSidebarView('search')} onClose={() => setIsExplorerVisible(false)}
+                />
+            )}
         </div>
         <div className="relative hidden md:block">
             <Resizer direction="horizontal" onDrag={(dx) => setExplorerWidth(w => Math.max(200, w + dx))} />
@@ -489,7 +1541,60 @@ const App: React.FC = () => {
           )}
           <div className="flex-1 flex overflow-hidden">
             <div className={`flex-1 flex flex-col min-w-0 ${isMobile && mobileMainView !== 'editor' ? 'hidden' : ''}`}>
-                <CodeEditor content={activeFileContent} onContentChange={handleContentChange} fileName={activeFile} />
+                {pendingChangeset ? (
+                    <ChangeReview key={changesetVersion} changeset={pendingChangeset} onApply={handleApplyChangeset} onDiscard={() => setPendingChangeset(null)} />
+                ) : (
+                    streamingPreview?.file ? (
+                        <CodeEditor content={streamingPreview.file.content} onContentChange={() => {}} fileName={streamingPreview.file.path} isStreaming />
+                    ) : (
+                        <div className="flex-1 flex min-h-0">
+                            {editorLayout.groups.map((group, groupIndex) => {
+                                // There is no room for a split on small screens; only the focused group is shown.
+                                if (!canSplitEditor && groupIndex !== editorLayout.focusedGroup) return null;
+                                const path = group.activeTab;
+                                const node = path ? findFile(files, path) : undefined;
+                                const viewKey = `${groupIndex}:${path}`;
+                                return (
+                                    <div
+                                        key={groupIndex}
+                                        onMouseDownCapture={() => setEditorLayout(layout => focusGroup(layout, groupIndex))}
+                                        className={`flex-1 flex flex-col min-w-0 ${groupIndex > 0 ? 'border-l border-gray-700/50' : ''}`}
+                                    >
+                                        {group.tabs.length > 0 && (
+                                            <EditorTabs
+                                                group={group} groupIndex={groupIndex} isFocused={groupIndex === editorLayout.focusedGroup}
+                                                dirtyFiles={dirtyFiles} canSplit={canSplitEditor}
+                                                onSelect={(tab) => setEditorLayout(layout => openTab(layout, tab, groupIndex))}
+                                                onClose={(tab) => setEditorLayout(layout => closeTab(layout, groupIndex, tab))}
+                                                onCloseOthers={(tab) => setEditorLayout(layout => closeOtherTabs(layout, groupIndex, tab))}
+                                                onCloseAll={() => setEditorLayout(layout => closeAllTabs(layout, groupIndex))}
+                                                onSplit={(tab) => setEditorLayout(layout => splitTab(layout, groupIndex, tab))}
+                                                onMove={(fromGroup, tab, toIndex) => setEditorLayout(layout => moveTab(layout, fromGroup, tab, groupIndex, toIndex))}
+                                            />
+                                        )}
+                                        {path && node?.binary ? (
+                                            <BinaryFileView fileName={path} dataUrl={node.content} />
+                                        ) : (
+                                            <CodeEditor
+                                                key={viewKey}
+                                                content={node?.content ?? ''}
+                                                onContentChange={(content) => path && handleContentChange(path, content)}
+                                                fileName={path}
+                                                readOnly={isReadOnly}
+                                                showHeader={group.tabs.length === 0}
+                                                viewState={viewStatesRef.current.get(viewKey)}
+                                                onViewStateChange={(state) => viewStatesRef.current.set(viewKey, state)}
+                                                onUndo={() => (path ? handleHistoryStep(path, 'undo') : null)}
+                                                onRedo={() => (path ? handleHistoryStep(path, 'redo') : null)}
+                                                reveal={revealRequest?.path === path && groupIndex === editorLayout.focusedGroup ? revealRequest : undefined}
+                                            />
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )
+                )}
             </div>
             
             <div className="relative hidden md:block">
@@ -508,8 +1613,18 @@ const App: React.FC = () => {
                 </div>
                 {activeTab === 'preview' && (
                     <div className="flex items-center gap-2">
-                        <button onClick={() => setPreviewKey(k => k + 1)} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Refresh Preview">
+                        <button onClick={toggleAutoRefresh} className={`px-2 py-1 text-xs rounded-md transition-colors ${previewSettings.autoRefresh ? 'bg-gray-700 text-gray-200' : 'text-gray-400 hover:bg-gray-700'}`} title={previewSettings.autoRefresh ? 'Updating as you type. Click to refresh manually.' : 'Refreshing manually. Click to update as you type.'}>
+                            Auto
+                        </button>
+                        <button onClick={refreshPreview} className="relative p-1.5 rounded-md hover:bg-gray-700 transition-colors" title={hasPendingPreviewChanges ? 'Apply changes' : 'Refresh Preview'}>
                             <RefreshCwIcon className="w-4 h-4 text-gray-400"/>
+                            {hasPendingPreviewChanges && !previewSettings.autoRefresh && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-blue-400" />}
+                        </button>
+                        <button onClick={() => setIsDeviceToolbarOpen(open => !open)} className={`p-1.5 rounded-md transition-colors ${isDeviceToolbarOpen ? 'bg-gray-700' : 'hover:bg-gray-700'}`} title="Toggle device toolbar">
+                            <SmartphoneIcon className="w-4 h-4 text-gray-400"/>
+                        </button>
+                        <button onClick={() => setIsPreviewSettingsOpen(true)} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Preview settings">
+                            <SettingsIcon className="w-4 h-4 text-gray-400"/>
                         </button>
                         <button onClick={() => setIsPreviewFullScreen(p => !p)} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Toggle Fullscreen">
                            {isPreviewFullScreen ? <MinimizeIcon className="w-4 h-4 text-gray-400"/> : <ExpandIcon className="w-4 h-4 text-gray-400"/>}
@@ -517,8 +1632,28 @@ const App: React.FC = () => {
                     </div>
                 )}
               </div>
-              <div className="flex-1 bg-white relative" onDoubleClick={() => activeTab === 'preview' && setIsPreviewFullScreen(true)}>
-                {activeTab === 'preview' ? <Preview htmlContent={previewContent} key={previewKey} /> : <ChatPanel messages={chatHistory} isLoading={isLoading} />}
+              {activeTab === 'preview' && (
+                <PreviewAddressBar
+                    address={shownPreviewAddress} pages={previewPages}
+                    canGoBack={previewHistory.index > 0} canGoForward={previewHistory.index < previewHistory.entries.length - 1}
+                    onBack={() => stepPreviewHistory(-1)} onForward={() => stepPreviewHistory(1)}
+                    onNavigate={(address) => navigatePreview(address, '')}
+                />
+              )}
+              {activeTab === 'preview' && isDeviceToolbarOpen && <DeviceToolbar settings={deviceSettings} onChange={setDeviceSettings} />}
+              <div className="flex-1 bg-white relative" onDoubleClick={() => activeTab === 'preview' && !isDeviceToolbarOpen && setIsPreviewFullScreen(true)}>
+                {activeTab === 'chat' ? (
+                    <ChatPanel messages={chatHistory} isLoading={isLoading} streamingMessage={streamingPreview?.chatText} />
+                ) : isDeviceToolbarOpen ? (
+                    <PreviewViewports
+                        settings={deviceSettings}
+                        onSelect={(selected) => setDeviceSettings(settings => ({ ...settings, selected }))}
+                        // Every frame shows the same document; only the first reports to the console so logs aren't repeated.
+                        renderFrame={(index) => <Preview htmlContent={previewPage.html} problems={previewPage.problems} reloadToken={previewKey} page={shownPreviewAddress} onConsoleLog={index === 0 && !isPreviewFullScreen ? handleConsoleLog : undefined} onNavigate={isPreviewFullScreen ? undefined : handlePreviewLink} />}
+                    />
+                ) : (
+                    <Preview htmlContent={previewPage.html} problems={previewPage.problems} reloadToken={previewKey} page={shownPreviewAddress} onConsoleLog={isPreviewFullScreen ? undefined : handleConsoleLog} onNavigate={isPreviewFullScreen ? undefined : handlePreviewLink} />
+                )}
               </div>
             </div>
           </div>
@@ -533,30 +1668,67 @@ const App: React.FC = () => {
               type="text"
               value={message}
               onChange={(e) => setMessage(e.target.value)}
-              placeholder="Chat with Nix 1.5..."
-              className="flex-1 bg-gray-700/50 border border-gray-600 rounded-md px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 transition-shadow"
+              placeholder={isReadOnly ? 'Fork this project to keep building on it' : 'Chat with Nix 1.5...'}
+              disabled={isReadOnly}
+              className="flex-1 bg-gray-700/50 border border-gray-600 rounded-md px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 transition-shadow disabled:opacity-50 disabled:cursor-not-allowed"
               onKeyDown={(e) => e.key === 'Enter' && !isLoading && handleSendMessage()}
             />
             <button onClick={toggleConsole} className="relative p-2 border border-gray-600 bg-gray-700/50 rounded-md hover:bg-gray-700" title="Toggle Console">
                 <TerminalIcon className="w-5 h-5" />
                 {consoleLogs.length > 0 && <span className="absolute -top-1 -right-1 flex h-4 w-4 items-center justify-center rounded-full bg-red-500 text-xs">{consoleLogs.length}</span>}
             </button>
-            <button
-              onClick={handleSendMessage}
-              disabled={isLoading || !message.trim()}
-              className="flex items-center justify-center gap-2 px-5 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
-            >
-              {isLoading ? ( <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg> ) : ( <SendIcon className="w-5 h-5" /> )}
-            </button>
+            {isLoading ? (
+              <button
+                onClick={handleStopGeneration}
+                className="flex items-center justify-center gap-2 px-5 py-2 bg-red-600 text-white font-semibold rounded-md hover:bg-red-700"
+                title="Stop generating"
+              >
+                <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                <StopIcon className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSendMessage}
+                disabled={!message.trim() || isReadOnly}
+                className="flex items-center justify-center gap-2 px-5 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
+              >
+                <SendIcon className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </main>
+       {isSettingsOpen && <SettingsPanel settings={modelSettings} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />}
+       {isHistoryOpen && <HistoryTimeline snapshots={snapshots} readOnly={isReadOnly} onRestore={handleRestoreSnapshot} onClose={() => setIsHistoryOpen(false)} />}
+       {isShareOpen && <ShareDialog getProject={getSharedProject} onClose={() => setIsShareOpen(false)} />}
+       {isExportOpen && (
+        <ExportDialog
+            pages={previewPages} initialPage={splitPreviewAddress(shownPreviewAddress).path}
+            onExport={handleExport} onClose={() => setIsExportOpen(false)}
+        />
+       )}
+       {paletteQuery !== null && (
+        <CommandPalette
+            key={paletteQuery} commands={commands} keybindings={keybindings} filePaths={flattenFiles(files).map(file => file.name)}
+            openFiles={[...new Set(editorLayout.groups.flatMap(group => group.tabs))]}
+            initialQuery={paletteQuery} onOpenFile={handleFileSelect} onClose={() => setPaletteQuery(null)}
+        />
+      )}
+       {isPreviewSettingsOpen && <PreviewSettingsPanel settings={previewSettings} onSave={handleSavePreviewSettings} onClose={() => setIsPreviewSettingsOpen(false)} />}
+       {isKeybindingsOpen && <KeybindingsPanel commands={commands} overrides={keybindingOverrides} onChange={handleSaveKeybindings} onClose={() => setIsKeybindingsOpen(false)} />}
+       {pendingImport && (
+        <ImportConflictDialog
+            conflicts={pendingImport.conflicts}
+            onResolve={(strategy) => finishImport(pendingImport.files, pendingImport.targetDirectory, strategy)}
+            onCancel={() => setPendingImport(null)}
+        />
+      )}
        {isPreviewFullScreen && (
         <div className="fixed inset-0 bg-white z-50" onDoubleClick={() => setIsPreviewFullScreen(false)}>
             <button onClick={() => setIsPreviewFullScreen(false)} className="absolute top-4 right-4 p-2 bg-black/50 rounded-full text-white hover:bg-black/80 z-50">
                 <MinimizeIcon className="w-6 h-6" />
             </button>
-            <Preview htmlContent={previewContent} key={previewKey + 1} />
+            <Preview htmlContent={previewPage.html} problems={previewPage.problems} reloadToken={previewKey} page={shownPreviewAddress} onConsoleLog={handleConsoleLog} onNavigate={handlePreviewLink} />
         </div>
       )}
     </div>
@@ -0,0 +1,43 @@
+import React from 'react';
+import { basename } from '../services/fileTree';
+import { DownloadIcon, FileIcon } from './icons';
+
+interface BinaryFileViewProps {
+  fileName: string;
+  // The file's content as a data: URL.
+  dataUrl: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const BinaryFileView: React.FC<BinaryFileViewProps> = ({ fileName, dataUrl }) => {
+    const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    // Every 4 base64 characters hold 3 bytes, minus the padding.
+    const size = Math.floor(base64.length * 3 / 4) - (base64.match(/=+$/)?.[0].length ?? 0);
+
+    return (
+        <div className="flex-1 flex flex-col bg-gray-800/50 overflow-hidden">
+            <div className="bg-gray-900/80 px-4 py-2 border-b border-gray-700/50 flex items-center justify-between">
+                <h3 className="text-sm text-gray-300">{fileName}</h3>
+                <span className="text-xs text-gray-500">{mimeType} · {formatSize(size)}</span>
+            </div>
+            <div className="flex-1 flex flex-col items-center justify-center gap-4 p-6 overflow-auto">
+                {mimeType.startsWith('image/') ? (
+                    <img src={dataUrl} alt={fileName} className="max-w-full max-h-[60vh] object-contain bg-[repeating-conic-gradient(#374151_0%_25%,#1f2937_0%_50%)] bg-[length:16px_16px] rounded" />
+                ) : (
+                    <>
+                        <FileIcon className="w-12 h-12 text-gray-600" />
+                        <p className="text-sm text-gray-400">This is a binary file and can't be edited here.</p>
+                    </>
+                )}
+                <a href={dataUrl} download={basename(fileName)} className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">
+                    <DownloadIcon className="w-4 h-4" /> Download
+                </a>
+            </div>
+        </div>
+    );
+};
+
+export default BinaryFileView;
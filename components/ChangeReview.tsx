@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { FileChange, ProposedChangeset } from '../types';
+import { diffLines, mergeHunks, LineDiff } from '../services/diff';
+import { CheckIcon, ChevronRightIcon, SparklesIcon, XIcon } from './icons';
+
+const CONTEXT_LINES = 3;
+
+interface FileReview {
+  change: FileChange;
+  original: string | null;
+  diff: LineDiff;
+}
+
+type DisplayRow =
+  | { kind: 'line'; type: 'equal' | 'add' | 'remove'; text: string; oldNumber?: number; newNumber?: number; hunk?: number }
+  | { kind: 'hunk'; hunk: number }
+  | { kind: 'collapsed'; count: number };
+
+// Turns diff ops into rows, keeping only a few unchanged lines around each hunk.
+const buildRows = (diff: LineDiff): DisplayRow[] => {
+  const rows: DisplayRow[] = [];
+  const { ops } = diff;
+  const nearChange = ops.map(() => false);
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') return;
+    for (let i = Math.max(0, index - CONTEXT_LINES); i <= Math.min(ops.length - 1, index + CONTEXT_LINES); i++) nearChange[i] = true;
+  });
+
+  let oldNumber = 1;
+  let newNumber = 1;
+  let collapsed = 0;
+  ops.forEach((op, index) => {
+    if (op.type === 'equal' && !nearChange[index]) {
+      collapsed++;
+      oldNumber++;
+      newNumber++;
+      return;
+    }
+    if (collapsed > 0) {
+      rows.push({ kind: 'collapsed', count: collapsed });
+      collapsed = 0;
+    }
+    if (op.hunk !== undefined && (index === 0 || ops[index - 1].hunk !== op.hunk)) rows.push({ kind: 'hunk', hunk: op.hunk });
+    if (op.type === 'equal') rows.push({ kind: 'line', type: 'equal', text: op.line, oldNumber: oldNumber++, newNumber: newNumber++ });
+    else if (op.type === 'remove') rows.push({ kind: 'line', type: 'remove', text: op.line, oldNumber: oldNumber++, hunk: op.hunk });
+    else rows.push({ kind: 'line', type: 'add', text: op.line, newNumber: newNumber++, hunk: op.hunk });
+  });
+  if (collapsed > 0) rows.push({ kind: 'collapsed', count: collapsed });
+  return rows;
+};
+
+interface ChangeReviewProps {
+  changeset: ProposedChangeset;
+  onApply: (changes: FileChange[]) => void;
+  onDiscard: () => void;
+}
+
+const ChangeReview: React.FC<ChangeReviewProps> = ({ changeset, onApply, onDiscard }) => {
+    const reviews = useMemo<FileReview[]>(() => changeset.changes.map(change => {
+        const original = changeset.originals[change.path] ?? null;
+        const diff = diffLines(original ?? '', change.type === 'upsert' ? change.content : '');
+        return { change, original, diff };
+    }), [changeset]);
+
+    // Every hunk starts out accepted; a deletion counts as a single hunk.
+    const [decisions, setDecisions] = useState<Record<string, boolean[]>>(() =>
+        Object.fromEntries(reviews.map(review => [review.change.path, Array(Math.max(1, review.diff.hunkCount)).fill(true)]))
+    );
+    const [collapsedFiles, setCollapsedFiles] = useState<Set<string>>(new Set());
+
+    const setHunk = (path: string, hunk: number, accepted: boolean) => {
+        setDecisions(prev => ({ ...prev, [path]: prev[path].map((value, index) => (index === hunk ? accepted : value)) }));
+    };
+
+    const setFile = (path: string, accepted: boolean) => {
+        setDecisions(prev => ({ ...prev, [path]: prev[path].map(() => accepted) }));
+    };
+
+    const toggleCollapsed = (path: string) => {
+        setCollapsedFiles(prev => {
+            const next = new Set(prev);
+            if (next.has(path)) next.delete(path); else next.add(path);
+            return next;
+        });
+    };
+
+    const resolveChanges = (): FileChange[] => reviews.flatMap((review): FileChange[] => {
+        const accepted = decisions[review.change.path];
+        if (review.change.type === 'delete') return accepted[0] ? [review.change] : [];
+        const content = mergeHunks(review.diff, hunk => accepted[hunk]);
+        if (review.original === null ? !accepted.some(Boolean) : content === review.original) return [];
+        return [{ type: 'upsert', path: review.change.path, content }];
+    });
+
+    const acceptedCount = Object.values(decisions).flat().filter(Boolean).length;
+    const totalCount = Object.values(decisions).flat().length;
+
+    return (
+        <div className="flex-1 flex flex-col bg-gray-800/50 overflow-hidden">
+            <div className="bg-gray-900/80 px-4 py-2 border-b border-gray-700/50 flex items-center justify-between gap-2 flex-wrap">
+                <div className="flex items-center gap-2 min-w-0">
+                    <SparklesIcon className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                    <h3 className="text-sm text-gray-300 truncate">
+                        Review AI changes — {reviews.length} file{reviews.length === 1 ? '' : 's'}, {acceptedCount}/{totalCount} change{totalCount === 1 ? '' : 's'} selected
+                    </h3>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={onDiscard} className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Reject all</button>
+                    <button onClick={() => onApply(changeset.changes)} className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Accept all</button>
+                    <button onClick={() => onApply(resolveChanges())} className="px-3 py-1 text-sm font-semibold rounded-md bg-blue-600 hover:bg-blue-700 transition-colors">Apply selected</button>
+                </div>
+            </div>
+            <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                {changeset.summary && <p className="text-sm text-gray-400 whitespace-pre-wrap">{changeset.summary}</p>}
+                {reviews.map(review => {
+                    const { path } = review.change;
+                    const accepted = decisions[path];
+                    const isCollapsed = collapsedFiles.has(path);
+                    const additions = review.diff.ops.filter(op => op.type === 'add').length;
+                    const removals = review.diff.ops.filter(op => op.type === 'remove').length;
+                    const status = review.change.type === 'delete' ? 'deleted' : review.original === null ? 'new' : 'modified';
+                    return (
+                        <div key={path} className="border border-gray-700/50 rounded-md overflow-hidden">
+                            <div className="flex items-center justify-between bg-gray-900/60 px-3 py-1.5">
+                                <button onClick={() => toggleCollapsed(path)} className="flex items-center gap-2 min-w-0 text-sm text-gray-300">
+                                    <ChevronRightIcon className={`w-3 h-3 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+                                    <span className="truncate font-mono">{path}</span>
+                                    <span className={`text-xs px-1.5 rounded ${status === 'new' ? 'bg-green-500/20 text-green-300' : status === 'deleted' ? 'bg-red-500/20 text-red-300' : 'bg-blue-500/20 text-blue-300'}`}>{status}</span>
+                                    <span className="text-xs text-green-400">+{additions}</span>
+                                    <span className="text-xs text-red-400">−{removals}</span>
+                                </button>
+                                <div className="flex items-center gap-1">
+                                    <button onClick={() => setFile(path, true)} className={`p-1 rounded ${accepted.every(Boolean) ? 'bg-green-600/40 text-green-200' : 'text-gray-400 hover:bg-gray-700'}`} title="Accept all changes in this file">
+                                        <CheckIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => setFile(path, false)} className={`p-1 rounded ${!accepted.some(Boolean) ? 'bg-red-600/40 text-red-200' : 'text-gray-400 hover:bg-gray-700'}`} title="Reject all changes in this file">
+                                        <XIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                            {!isCollapsed && (
+                                <div className="font-mono text-xs overflow-x-auto">
+                                    {buildRows(review.diff).map((row, index) => {
+                                        if (row.kind === 'collapsed') {
+                                            return <div key={index} className="px-3 py-0.5 text-gray-500 bg-gray-800/60">⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}</div>;
+                                        }
+                                        if (row.kind === 'hunk') {
+                                            const isAccepted = accepted[row.hunk];
+                                            return (
+                                                <div key={index} className="flex items-center justify-between px-3 py-0.5 bg-gray-900/40 text-gray-400 border-t border-gray-700/40">
+                                                    <span>Change {row.hunk + 1} of {review.diff.hunkCount}</span>
+                                                    <div className="flex items-center gap-1">
+                                                        <button onClick={() => setHunk(path, row.hunk, true)} className={`px-2 rounded ${isAccepted ? 'bg-green-600/40 text-green-200' : 'hover:bg-gray-700'}`}>Accept</button>
+                                                        <button onClick={() => setHunk(path, row.hunk, false)} className={`px-2 rounded ${!isAccepted ? 'bg-red-600/40 text-red-200' : 'hover:bg-gray-700'}`}>Reject</button>
+                                                    </div>
+                                                </div>
+                                            );
+                                        }
+                                        const isRejected = row.hunk !== undefined && !accepted[row.hunk];
+                                        const background = row.type === 'add' ? 'bg-green-500/15' : row.type === 'remove' ? 'bg-red-500/15' : '';
+                                        return (
+                                            <div key={index} className={`flex whitespace-pre ${background} ${isRejected ? 'opacity-40' : ''}`}>
+                                                <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-600 select-none">{row.oldNumber ?? ''}</span>
+                                                <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-600 select-none">{row.newNumber ?? ''}</span>
+                                                <span className={`w-4 flex-shrink-0 select-none ${row.type === 'add' ? 'text-green-400' : row.type === 'remove' ? 'text-red-400' : 'text-gray-600'}`}>
+                                                    {row.type === 'add' ? '+' : row.type === 'remove' ? '−' : ' '}
+                                                </span>
+                                                <span className={`pr-3 ${isRejected && row.type === 'add' ? 'line-through' : ''}`}>{row.text}</span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ChangeReview;
@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command } from '../types';
+import { fuzzyMatch, fuzzyMatchPath } from '../services/fuzzyMatch';
+import { formatKeybinding } from '../services/keybindings';
+import { FileIcon } from './icons';
+
+interface CommandPaletteProps {
+  commands: Command[];
+  keybindings: Record<string, string | null>;
+  filePaths: string[];
+  // Open tabs, listed first while quick-open has no query yet.
+  openFiles: string[];
+  // A leading ">" searches commands; anything else searches files.
+  initialQuery: string;
+  onOpenFile: (path: string) => void;
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  key: string;
+  label: string;
+  detail?: string;
+  indices: number[];
+  keybinding?: string | null;
+  isFile: boolean;
+  run: () => void;
+}
+
+const MAX_PALETTE_ITEMS = 50;
+
+// The label with the characters the query matched in bold.
+const Highlighted: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => {
+    if (indices.length === 0) return <>{text}</>;
+    const matched = new Set(indices);
+    return <>{Array.from(text, (char, index) => (matched.has(index) ? <span key={index} className="text-blue-300 font-semibold">{char}</span> : char))}</>;
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, keybindings, filePaths, openFiles, initialQuery, onOpenFile, onClose }) => {
+    const [query, setQuery] = useState(initialQuery);
+    const [selected, setSelected] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+    const isCommandMode = query.startsWith('>');
+
+    const items = useMemo((): PaletteItem[] => {
+        if (isCommandMode) {
+            const search = query.slice(1).trim();
+            return commands
+                .map(command => {
+                    const label = `${command.category}: ${command.title}`;
+                    return { command, label, match: fuzzyMatch(search, label) };
+                })
+                .filter(entry => entry.match)
+                .sort((a, b) => b.match!.score - a.match!.score)
+                .slice(0, MAX_PALETTE_ITEMS)
+                .map(({ command, label, match }) => ({
+                    key: command.id, label, indices: match!.indices, keybinding: keybindings[command.id], isFile: false, run: command.run,
+                }));
+        }
+        const search = query.trim();
+        const paths = search ? filePaths : [...openFiles, ...filePaths.filter(path => !openFiles.includes(path))];
+        return paths
+            .map(path => ({ path, match: fuzzyMatchPath(search, path) }))
+            .filter(entry => entry.match)
+            // Without a query the open tabs stay on top.
+            .sort((a, b) => (search ? b.match!.score - a.match!.score : 0))
+            .slice(0, MAX_PALETTE_ITEMS)
+            .map(({ path, match }) => {
+                const nameStart = path.lastIndexOf('/') + 1;
+                return {
+                    key: path,
+                    label: path.slice(nameStart),
+                    detail: path.slice(0, Math.max(0, nameStart - 1)),
+                    indices: match!.indices.filter(index => index >= nameStart).map(index => index - nameStart),
+                    isFile: true,
+                    run: () => onOpenFile(path),
+                };
+            });
+    }, [isCommandMode, query, commands, keybindings, filePaths, openFiles, onOpenFile]);
+
+    useEffect(() => setSelected(0), [query]);
+
+    useEffect(() => {
+        listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+    }, [selected]);
+
+    const runItem = (item: PaletteItem | undefined) => {
+        if (!item) return;
+        onClose();
+        item.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (items.length === 0) return;
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setSelected(index => (index + step + items.length) % items.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            runItem(items[selected]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-start justify-center p-4 pt-[15vh]" onClick={onClose}>
+            <div className="w-full max-w-xl bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                <input
+                    autoFocus
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={isCommandMode ? 'Type a command' : 'Search files by name (type > for commands)'}
+                    className="w-full bg-gray-800 border-b border-gray-700 px-4 py-3 text-sm focus:outline-none"
+                    spellCheck="false"
+                />
+                <ul ref={listRef} className="max-h-80 overflow-y-auto py-1">
+                    {items.length === 0 && (
+                        <li className="px-4 py-2 text-sm text-gray-500">{isCommandMode ? 'No matching commands.' : 'No matching files.'}</li>
+                    )}
+                    {items.map((item, index) => (
+                        <li
+                            key={item.key}
+                            onMouseMove={() => setSelected(index)}
+                            onClick={() => runItem(item)}
+                            className={`flex items-center gap-2 px-4 py-1.5 text-sm cursor-pointer ${index === selected ? 'bg-blue-600/30' : ''}`}
+                        >
+                            {item.isFile && <FileIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                            <span className="truncate text-gray-200"><Highlighted text={item.label} indices={item.indices} /></span>
+                            {item.detail && <span className="truncate text-xs text-gray-500">{item.detail}</span>}
+                            {item.keybinding && (
+                                <kbd className="ml-auto flex-shrink-0 px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 text-xs text-gray-400 font-sans">
+                                    {formatKeybinding(item.keybinding)}
+                                </kbd>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+export default CommandPalette;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { ConsoleValue } from '../types';
+import { formatConsoleValue } from '../services/consoleBridge';
+import { ChevronRightIcon } from './icons';
+
+const primitiveColors: Record<string, string> = {
+    string: 'text-orange-300',
+    number: 'text-green-300',
+    bigint: 'text-green-300',
+    boolean: 'text-purple-300',
+    null: 'text-gray-500',
+    undefined: 'text-gray-500',
+    symbol: 'text-purple-300',
+    function: 'text-yellow-200',
+    circular: 'text-gray-500',
+};
+
+interface ConsoleValueViewProps {
+    value: ConsoleValue;
+    nested?: boolean;
+}
+
+// Collapsible inspector for objects serialized by the preview console bridge.
+const ConsoleValueView: React.FC<ConsoleValueViewProps> = ({ value, nested = false }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    if (value.kind === 'primitive') {
+        // Top-level strings print raw, like the browser console; nested ones are quoted.
+        if (!nested && (value.type === 'string' || value.type === 'error' || value.type === 'node')) {
+            return <span className="whitespace-pre-wrap break-all">{value.text}</span>;
+        }
+        return <span className={primitiveColors[value.type] || ''}>{formatConsoleValue(value, true)}</span>;
+    }
+
+    return (
+        <span className="inline-block align-top">
+            <button onClick={() => setIsExpanded(e => !e)} className="inline-flex items-center gap-0.5 hover:text-white">
+                <ChevronRightIcon className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                <span className="italic">{isExpanded ? value.label : formatConsoleValue(value)}</span>
+            </button>
+            {isExpanded && (
+                <div className="pl-4 border-l border-gray-700/50 ml-1">
+                    {value.entries.map(entry => (
+                        <div key={entry.key}>
+                            <span className="text-blue-300">{entry.key}</span>: <ConsoleValueView value={entry.value} nested />
+                        </div>
+                    ))}
+                    {value.truncated && <div className="text-gray-500">…</div>}
+                </div>
+            )}
+        </span>
+    );
+};
+
+export default ConsoleValueView;
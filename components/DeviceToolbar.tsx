@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { DeviceSettings, PreviewViewport } from '../types';
+import { DEVICE_PRESETS, CUSTOM_VIEWPORT_LABEL, ZOOM_LEVELS, presetFor, clampViewportSize } from '../services/devicePresets';
+import { PlusIcon, RotateCwIcon, XIcon } from './icons';
+
+interface DeviceToolbarProps {
+  settings: DeviceSettings;
+  onChange: (settings: DeviceSettings) => void;
+}
+
+const MAX_VIEWPORTS = 4;
+
+// A width or height field that applies its value on Enter or blur, so half-typed numbers don't resize the frame.
+const SizeInput: React.FC<{ value: number; label: string; onCommit: (value: number) => void }> = ({ value, label, onCommit }) => {
+    const [draft, setDraft] = useState(String(value));
+
+    useEffect(() => setDraft(String(value)), [value]);
+
+    const commit = () => {
+        const parsed = parseInt(draft, 10);
+        if (Number.isFinite(parsed)) onCommit(clampViewportSize(parsed));
+        else setDraft(String(value));
+    };
+
+    return (
+        <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value.replace(/\D/g, ''))}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            inputMode="numeric"
+            aria-label={label}
+            title={label}
+            className="w-14 bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 text-xs text-center font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+    );
+};
+
+const DeviceToolbar: React.FC<DeviceToolbarProps> = ({ settings, onChange }) => {
+    const viewport = settings.viewports[settings.selected];
+    const preset = presetFor(viewport);
+
+    const updateViewport = (changes: Partial<PreviewViewport>) => {
+        const next = { ...viewport, ...changes };
+        // Typing a size no preset has turns the viewport into a custom one.
+        const matching = presetFor(next);
+        const viewports = settings.viewports.map((existing, index) => (index === settings.selected ? { ...next, label: matching?.label ?? CUSTOM_VIEWPORT_LABEL } : existing));
+        onChange({ ...settings, viewports });
+    };
+
+    const addViewport = () => {
+        const unused = DEVICE_PRESETS.find(candidate => !settings.viewports.some(existing => presetFor(existing) === candidate)) ?? DEVICE_PRESETS[0];
+        onChange({ ...settings, viewports: [...settings.viewports, unused], selected: settings.viewports.length });
+    };
+
+    const removeViewport = (index: number) => {
+        const viewports = settings.viewports.filter((_, i) => i !== index);
+        onChange({ ...settings, viewports, selected: Math.min(settings.selected, viewports.length - 1) });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 px-2 py-1 bg-gray-900/80 border-b border-gray-700/50 text-xs text-gray-300">
+            {settings.viewports.length > 1 && (
+                <div className="flex items-center gap-1">
+                    {settings.viewports.map((existing, index) => (
+                        <span
+                            key={index}
+                            className={`flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full border cursor-pointer ${index === settings.selected ? 'border-blue-500 bg-blue-600/20' : 'border-gray-700 hover:bg-gray-800'}`}
+                            onClick={() => onChange({ ...settings, selected: index })}
+                        >
+                            {existing.label}
+                            <button onClick={(e) => { e.stopPropagation(); removeViewport(index); }} className="p-0.5 rounded-full hover:bg-gray-700" title="Remove viewport">
+                                <XIcon className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            <select
+                value={preset?.label ?? CUSTOM_VIEWPORT_LABEL}
+                onChange={(e) => {
+                    const chosen = DEVICE_PRESETS.find(candidate => candidate.label === e.target.value);
+                    if (chosen) updateViewport(chosen);
+                }}
+                className="bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Device"
+            >
+                {DEVICE_PRESETS.map(candidate => <option key={candidate.label} value={candidate.label}>{candidate.label}</option>)}
+                <option value={CUSTOM_VIEWPORT_LABEL} disabled>{CUSTOM_VIEWPORT_LABEL}</option>
+            </select>
+            <div className="flex items-center gap-1">
+                <SizeInput value={viewport.width} label="Width" onCommit={(width) => updateViewport({ width })} />
+                <span className="text-gray-500">×</span>
+                <SizeInput value={viewport.height} label="Height" onCommit={(height) => updateViewport({ height })} />
+            </div>
+            <button onClick={() => updateViewport({ width: viewport.height, height: viewport.width })} className="p-1 rounded-md hover:bg-gray-700 transition-colors" title="Rotate">
+                <RotateCwIcon className="w-3.5 h-3.5 text-gray-400" />
+            </button>
+            <select
+                value={String(settings.zoom)}
+                onChange={(e) => onChange({ ...settings, zoom: e.target.value === 'fit' ? 'fit' : Number(e.target.value) })}
+                className="bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Zoom"
+            >
+                <option value="fit">Fit</option>
+                {ZOOM_LEVELS.map(level => <option key={level} value={String(level)}>{Math.round(level * 100)}%</option>)}
+            </select>
+            {settings.viewports.length < MAX_VIEWPORTS && (
+                <button onClick={addViewport} className="flex items-center gap-1 px-1.5 py-0.5 rounded-md hover:bg-gray-700 transition-colors text-gray-400" title="Compare with another viewport">
+                    <PlusIcon className="w-3.5 h-3.5" /> Compare
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default DeviceToolbar;
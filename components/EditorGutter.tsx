@@ -0,0 +1,48 @@
+import React from 'react';
+import { ChevronRightIcon } from './icons';
+
+interface EditorGutterProps {
+  // File lines (0-based) of the rendered rows, top to bottom.
+  lines: number[];
+  // Space above the first rendered row: the editor's padding plus the rows scrolled past.
+  offsetTop: number;
+  lineHeight: number;
+  lineCount: number;
+  currentLine: number;
+  folds: Map<number, number>;
+  folded: Set<number>;
+  onToggleFold: (line: number) => void;
+  // Scrolled by the editor directly, so it keeps up with the textarea between renders.
+  contentRef: React.Ref<HTMLDivElement>;
+}
+
+const EditorGutter: React.FC<EditorGutterProps> = ({ lines, offsetTop, lineHeight, lineCount, currentLine, folds, folded, onToggleFold, contentRef }) => (
+    <div
+        className="group/gutter relative flex-shrink-0 overflow-hidden select-none bg-gray-900/30 border-r border-gray-700/40 font-mono text-sm leading-relaxed text-gray-600"
+        style={{ width: `calc(${String(lineCount).length}ch + 2.5rem)` }}
+    >
+        <div ref={contentRef} style={{ paddingTop: offsetTop }} className="will-change-transform">
+            {lines.map(line => {
+                const isFolded = folded.has(line);
+                return (
+                    <div key={line} style={{ height: lineHeight }} className="flex items-center justify-end pl-2">
+                        <span className={line === currentLine ? 'text-gray-300' : ''}>{line + 1}</span>
+                        <span className="w-5 flex justify-center">
+                            {folds.has(line) && (
+                                <button
+                                    onClick={() => onToggleFold(line)}
+                                    className={`text-gray-500 hover:text-gray-200 ${isFolded ? '' : 'opacity-0 group-hover/gutter:opacity-100'}`}
+                                    title={isFolded ? `Unfold lines ${line + 2}–${folds.get(line)!}` : 'Fold'}
+                                >
+                                    <ChevronRightIcon className={`w-3.5 h-3.5 transition-transform ${isFolded ? '' : 'rotate-90'}`} />
+                                </button>
+                            )}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+);
+
+export default EditorGutter;
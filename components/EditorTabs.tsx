@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { EditorGroup } from '../types';
+import { basename } from '../services/fileTree';
+import { ColumnsIcon, XIcon } from './icons';
+
+const TAB_DRAG_MIME_TYPE = 'application/x-codenix-tab';
+
+interface EditorTabsProps {
+  group: EditorGroup;
+  groupIndex: number;
+  isFocused: boolean;
+  dirtyFiles: Set<string>;
+  canSplit: boolean;
+  onSelect: (path: string) => void;
+  onClose: (path: string) => void;
+  onCloseOthers: (path: string) => void;
+  onCloseAll: () => void;
+  onSplit: (path: string) => void;
+  // Moves a tab, possibly from the other group, to `toIndex` in this group.
+  onMove: (fromGroup: number, path: string, toIndex: number) => void;
+}
+
+const EditorTabs: React.FC<EditorTabsProps> = ({ group, groupIndex, isFocused, dirtyFiles, canSplit, onSelect, onClose, onCloseOthers, onCloseAll, onSplit, onMove }) => {
+    const [menu, setMenu] = useState<{ path: string; x: number; y: number } | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const dropHandlers = (index: number) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!e.dataTransfer.types.includes(TAB_DRAG_MIME_TYPE)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropIndex(index);
+        },
+        onDrop: (e: React.DragEvent) => {
+            const data = e.dataTransfer.getData(TAB_DRAG_MIME_TYPE);
+            setDropIndex(null);
+            if (!data) return;
+            e.preventDefault();
+            e.stopPropagation();
+            const { fromGroup, path } = JSON.parse(data);
+            onMove(fromGroup, path, index);
+        },
+    });
+
+    const runMenuAction = (action: () => void) => {
+        setMenu(null);
+        action();
+    };
+
+    return (
+        <div
+            {...dropHandlers(group.tabs.length)}
+            onDragLeave={() => setDropIndex(null)}
+            className="flex items-stretch bg-gray-900/80 border-b border-gray-700/50 overflow-x-auto min-h-[2.25rem]"
+        >
+            {group.tabs.map((path, index) => {
+                const isActive = path === group.activeTab;
+                const isDirty = dirtyFiles.has(path);
+                return (
+                    <div
+                        key={path}
+                        draggable
+                        onDragStart={(e) => {
+                            e.dataTransfer.setData(TAB_DRAG_MIME_TYPE, JSON.stringify({ fromGroup: groupIndex, path }));
+                            e.dataTransfer.effectAllowed = 'move';
+                        }}
+                        {...dropHandlers(index)}
+                        onClick={() => onSelect(path)}
+                        onMouseDown={(e) => { if (e.button === 1) e.preventDefault(); }}
+                        onAuxClick={(e) => { if (e.button === 1) onClose(path); }}
+                        onContextMenu={(e) => {
+                            e.preventDefault();
+                            setMenu({ path, x: e.clientX, y: e.clientY });
+                        }}
+                        title={path}
+                        className={`group flex items-center gap-1.5 pl-3 pr-1.5 text-sm cursor-pointer border-r border-gray-700/50 whitespace-nowrap ${
+                            dropIndex === index ? 'border-l-2 border-l-blue-500' : ''
+                        } ${isActive ? `bg-gray-800/80 ${isFocused ? 'text-gray-100 shadow-[inset_0_-2px_0_0_#3b82f6]' : 'text-gray-300'}` : 'text-gray-500 hover:bg-gray-800/40'}`}
+                    >
+                        <span>{basename(path)}</span>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onClose(path);
+                            }}
+                            className="relative w-4 h-4 flex items-center justify-center rounded hover:bg-gray-700"
+                            title={isDirty ? 'Unsaved changes — close' : 'Close'}
+                        >
+                            {isDirty && <span className="absolute w-2 h-2 rounded-full bg-gray-300 group-hover:hidden" />}
+                            <XIcon className={`w-3 h-3 ${isDirty ? 'hidden group-hover:block' : isActive ? '' : 'invisible group-hover:visible'}`} />
+                        </button>
+                    </div>
+                );
+            })}
+            <div className="flex-1" />
+            {canSplit && group.activeTab && (
+                <button onClick={() => onSplit(group.activeTab!)} className="px-2 text-gray-500 hover:text-gray-300 hover:bg-gray-800/40 flex-shrink-0" title="Open to the side">
+                    <ColumnsIcon className="w-4 h-4" />
+                </button>
+            )}
+            {menu && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setMenu(null)} onContextMenu={(e) => { e.preventDefault(); setMenu(null); }} />
+                    <div style={{ left: menu.x, top: menu.y }} className="fixed z-50 w-44 bg-gray-800 border border-gray-700 rounded-md shadow-lg py-1 text-sm">
+                        <button onClick={() => runMenuAction(() => onClose(menu.path))} className="w-full text-left px-3 py-1.5 text-gray-300 hover:bg-gray-700">Close</button>
+                        <button onClick={() => runMenuAction(() => onCloseOthers(menu.path))} className="w-full text-left px-3 py-1.5 text-gray-300 hover:bg-gray-700">Close others</button>
+                        <button onClick={() => runMenuAction(onCloseAll)} className="w-full text-left px-3 py-1.5 text-gray-300 hover:bg-gray-700">Close all</button>
+                        {canSplit && (
+                            <button onClick={() => runMenuAction(() => onSplit(menu.path))} className="w-full text-left px-3 py-1.5 text-gray-300 hover:bg-gray-700 border-t border-gray-700">Open to the side</button>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default EditorTabs;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ExportOptions, ExportResult, ExportTarget, EXPORT_MANIFEST_NAME } from '../services/projectExport';
+import { DownloadIcon, XIcon } from './icons';
+
+interface ExportDialogProps {
+  // HTML pages a single-file export can start from.
+  pages: string[];
+  initialPage: string;
+  // Builds the export and downloads it.
+  onExport: (options: ExportOptions) => Promise<ExportResult>;
+  onClose: () => void;
+}
+
+const TARGETS: { id: ExportTarget; title: string; description: string }[] = [
+  { id: 'source', title: 'Project files', description: 'Every file as it is, in a .zip archive.' },
+  { id: 'single-html', title: 'Single HTML file', description: 'One page with its stylesheets, scripts and images inlined, the way the preview shows it.' },
+  { id: 'production', title: 'Production build', description: 'TypeScript and JSX compiled, HTML, CSS and JavaScript minified, and paths rewritten to work from any folder, in a .zip ready to deploy.' },
+];
+
+type ExportState =
+  | { status: 'idle' }
+  | { status: 'exporting' }
+  | { status: 'done'; result: ExportResult }
+  | { status: 'failed'; error: string };
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ pages, initialPage, onExport, onClose }) => {
+    const [target, setTarget] = useState<ExportTarget>('source');
+    const [page, setPage] = useState(initialPage);
+    const [includeManifest, setIncludeManifest] = useState(true);
+    const [state, setState] = useState<ExportState>({ status: 'idle' });
+
+    const handleExport = async () => {
+        setState({ status: 'exporting' });
+        try {
+            const result = await onExport({ target, page, includeManifest });
+            setState({ status: 'done', result });
+        } catch (error) {
+            setState({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    const selectTarget = (next: ExportTarget) => {
+        setTarget(next);
+        setState({ status: 'idle' });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="w-full max-w-lg bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700/50">
+                    <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-300">
+                        <DownloadIcon className="w-5 h-5 text-blue-400" /> Export project
+                    </h2>
+                    <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Close">
+                        <XIcon className="w-5 h-5 text-gray-400" />
+                    </button>
+                </div>
+                <div className="p-4 space-y-3">
+                    <div className="space-y-2">
+                        {TARGETS.map(option => (
+                            <label
+                                key={option.id}
+                                className={`flex items-start gap-3 p-3 rounded-md border cursor-pointer transition-colors ${target === option.id ? 'border-blue-500 bg-blue-600/10' : 'border-gray-700 hover:bg-gray-800'}`}
+                            >
+                                <input type="radio" name="export-target" className="mt-1" checked={target === option.id} onChange={() => selectTarget(option.id)} />
+                                <span>
+                                    <span className="block text-sm font-medium text-gray-200">{option.title}</span>
+                                    <span className="block text-xs text-gray-400">{option.description}</span>
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                    {target === 'single-html' ? (
+                        <label className="block">
+                            <span className="text-xs text-gray-400">Page</span>
+                            <select
+                                value={page}
+                                onChange={(e) => setPage(e.target.value)}
+                                className="mt-1 w-full bg-gray-700/50 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                {pages.map(path => <option key={path} value={path}>{path}</option>)}
+                            </select>
+                        </label>
+                    ) : (
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={includeManifest} onChange={(e) => setIncludeManifest(e.target.checked)} />
+                            Include {EXPORT_MANIFEST_NAME} with the SHA-256 hash of every file
+                        </label>
+                    )}
+                    {state.status === 'failed' && <p className="text-sm text-red-400">Export failed: {state.error}</p>}
+                    {state.status === 'done' && (
+                        <div className="space-y-2 text-sm">
+                            <p className="text-gray-300">
+                                Downloaded <span className="font-mono">{state.result.fileName}</span>
+                                {state.result.fileCount > 1 && ` (${state.result.fileCount} files)`}.
+                            </p>
+                            {state.result.sha256 && (
+                                <p className="text-xs text-gray-400 break-all">SHA-256: <span className="font-mono text-gray-300">{state.result.sha256}</span></p>
+                            )}
+                            {state.result.problems.length > 0 && (
+                                <div className="max-h-40 overflow-y-auto rounded-md border border-yellow-600/40 bg-yellow-900/20 p-2 text-xs text-yellow-300 space-y-1">
+                                    <p className="font-semibold">The export may not work as expected:</p>
+                                    {state.result.problems.map(problem => <p key={problem} className="font-mono break-words">{problem}</p>)}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+                <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-700/50">
+                    <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">{state.status === 'done' ? 'Done' : 'Cancel'}</button>
+                    <button
+                        onClick={handleExport}
+                        disabled={state.status === 'exporting' || (target === 'single-html' && !page)}
+                        className="px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {state.status === 'exporting' ? 'Exporting…' : 'Export'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportDialog;
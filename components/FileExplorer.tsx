@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProjectNode } from '../types';
+import { basename, dirname } from '../services/fileTree';
+import { ImportResult, readDataTransfer, readFileList } from '../services/projectImport';
+import { FileIcon, FilePlusIcon, FolderIcon, FolderPlusIcon, ChevronRightIcon, TrashIcon, UploadCloudIcon, SearchIcon, XIcon } from './icons';
+
+const DRAG_MIME_TYPE = 'application/x-codenix-path';
+
+interface FileExplorerProps {
+  files: ProjectNode[];
+  activeFile: string | null;
+  onFileSelect: (path: string) => void;
+  onAddFile: (parentPath: string) => void;
+  onAddFolder: (parentPath: string) => void;
+  renamingFile: string | null;
+  onRenameStart: (path: string) => void;
+  onRenameConfirm: (oldPath: string, newName: string) => void;
+  onMove: (path: string, targetDirectory: string) => void;
+  onDelete: (path: string) => void;
+  onImport: (pending: Promise<ImportResult>, targetDirectory: string) => void;
+  // Hides every action that would change the project; files can still be opened.
+  readOnly?: boolean;
+  onSearch: () => void;
+  onClose?: () => void;
+}
+
+const FileExplorer: React.FC<FileExplorerProps> = ({ files, activeFile, onFileSelect, onAddFile, onAddFolder, renamingFile, onRenameStart, onRenameConfirm, onMove, onDelete, onImport, readOnly = false, onSearch, onClose }) => {
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [isImportMenuOpen, setIsImportMenuOpen] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    // Make sure the active file is never hidden inside a collapsed folder.
+    useEffect(() => {
+        if (!activeFile) return;
+        setCollapsed(prev => {
+            const ancestors = [...prev].filter(path => activeFile.startsWith(`${path}/`));
+            if (ancestors.length === 0) return prev;
+            const next = new Set(prev);
+            ancestors.forEach(path => next.delete(path));
+            return next;
+        });
+    }, [activeFile]);
+
+    const toggleFolder = (path: string) => {
+        setCollapsed(prev => {
+            const next = new Set(prev);
+            if (next.has(path)) next.delete(path); else next.add(path);
+            return next;
+        });
+    };
+
+    // Accepts both tree items being moved and files dragged in from the operating system.
+    const dropHandlers = (targetDirectory: string) => (readOnly ? {} : {
+        onDragOver: (e: React.DragEvent) => {
+            const { types } = e.dataTransfer;
+            if (!types.includes(DRAG_MIME_TYPE) && !types.includes('Files')) return;
+            e.preventDefault();
+            e.stopPropagation();
+            e.dataTransfer.dropEffect = types.includes(DRAG_MIME_TYPE) ? 'move' : 'copy';
+            setDropTarget(targetDirectory);
+        },
+        onDragLeave: () => setDropTarget(current => (current === targetDirectory ? null : current)),
+        onDrop: (e: React.DragEvent) => {
+            const path = e.dataTransfer.getData(DRAG_MIME_TYPE);
+            setDropTarget(null);
+            if (path) {
+                e.preventDefault();
+                e.stopPropagation();
+                onMove(path, targetDirectory);
+            } else if (e.dataTransfer.types.includes('Files')) {
+                e.preventDefault();
+                e.stopPropagation();
+                onImport(readDataTransfer(e.dataTransfer), targetDirectory);
+            }
+        },
+    });
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const picked = Array.from<File>(e.target.files ?? []);
+        // Reset so picking the same files again still fires a change event.
+        e.target.value = '';
+        if (picked.length > 0) onImport(readFileList(picked), '');
+    };
+
+    const pickFiles = (input: HTMLInputElement | null) => {
+        setIsImportMenuOpen(false);
+        input?.click();
+    };
+
+    const renderNode = (node: ProjectNode, depth: number): React.ReactNode => {
+        const isDirectory = node.type === 'directory';
+        const isCollapsed = collapsed.has(node.name);
+        const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+        const row = renamingFile === node.name && !readOnly ? (
+            <div style={indent} className="py-0.5 pr-1">
+                <input
+                    type="text"
+                    defaultValue={basename(node.name)}
+                    autoFocus
+                    onBlur={(e) => onRenameConfirm(node.name, e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') { (e.target as HTMLInputElement).blur(); }
+                        if (e.key === 'Escape') { onRenameConfirm(node.name, basename(node.name)); }
+                    }}
+                    className="w-full bg-gray-700 text-white p-1.5 rounded-md text-sm border border-blue-500 focus:outline-none"
+                />
+            </div>
+        ) : (
+            <div
+                draggable={!readOnly}
+                onDragStart={(e) => {
+                    e.dataTransfer.setData(DRAG_MIME_TYPE, node.name);
+                    e.dataTransfer.effectAllowed = 'move';
+                }}
+                {...(isDirectory ? dropHandlers(node.name) : {})}
+                className={`group flex items-center rounded-md transition-colors duration-200 ${
+                    dropTarget === node.name ? 'bg-blue-500/20 ring-1 ring-blue-500/50' :
+                    activeFile === node.name ? 'bg-blue-600/30 text-blue-300' : 'hover:bg-gray-700/50 text-gray-400'
+                }`}
+            >
+                <button
+                    onClick={() => (isDirectory ? toggleFolder(node.name) : onFileSelect(node.name))}
+                    onDoubleClick={() => !readOnly && onRenameStart(node.name)}
+                    style={indent}
+                    className="flex-1 min-w-0 text-left flex items-center gap-2 py-2 pr-1 text-sm"
+                    title={readOnly ? undefined : 'Double-click to rename, drag to move'}
+                >
+                    {isDirectory ? (
+                        <>
+                            <ChevronRightIcon className={`w-3 h-3 flex-shrink-0 text-gray-500 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+                            <FolderIcon className="w-4 h-4 flex-shrink-0 text-blue-400/80" />
+                        </>
+                    ) : (
+                        <FileIcon className="w-4 h-4 flex-shrink-0 text-gray-500 ml-5" />
+                    )}
+                    <span className="truncate">{basename(node.name)}</span>
+                </button>
+                <div className={`hidden ${readOnly ? '' : 'group-hover:flex'} items-center pr-1`}>
+                    {isDirectory && (
+                        <>
+                            <button onClick={() => onAddFile(node.name)} className="p-1 rounded hover:bg-gray-600" title="New file in folder">
+                                <FilePlusIcon className="w-3.5 h-3.5 text-gray-400" />
+                            </button>
+                            <button onClick={() => onAddFolder(node.name)} className="p-1 rounded hover:bg-gray-600" title="New folder in folder">
+                                <FolderPlusIcon className="w-3.5 h-3.5 text-gray-400" />
+                            </button>
+                        </>
+                    )}
+                    <button onClick={() => onDelete(node.name)} className="p-1 rounded hover:bg-gray-600" title={`Delete ${isDirectory ? 'folder' : 'file'}`}>
+                        <TrashIcon className="w-3.5 h-3.5 text-gray-400" />
+                    </button>
+                </div>
+            </div>
+        );
+
+        return (
+            <li key={node.name}>
+                {row}
+                {isDirectory && !isCollapsed && node.children.length > 0 && (
+                    <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+                )}
+            </li>
+        );
+    };
+
+    // New items are created next to the active file unless a folder action is used.
+    const defaultParent = activeFile ? dirname(activeFile) : '';
+
+    return (
+        <div className="bg-gray-900/70 backdrop-blur-sm md:border-r border-gray-700/50 p-4 flex flex-col h-full">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-300">File Explorer</h2>
+                <div className="flex items-center">
+                    <button onClick={onSearch} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Search in files (Ctrl+Shift+F)">
+                        <SearchIcon className="w-5 h-5 text-gray-400"/>
+                    </button>
+                    {!readOnly && (
+                        <>
+                            <button onClick={() => onAddFile(defaultParent)} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Add new file">
+                                <FilePlusIcon className="w-5 h-5 text-gray-400"/>
+                            </button>
+                            <button onClick={() => onAddFolder(defaultParent)} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Add new folder">
+                                <FolderPlusIcon className="w-5 h-5 text-gray-400"/>
+                            </button>
+                            <div className="relative">
+                                <button onClick={() => setIsImportMenuOpen(open => !open)} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Import files">
+                                    <UploadCloudIcon className="w-5 h-5 text-gray-400"/>
+                                </button>
+                                {isImportMenuOpen && (
+                                    <>
+                                        <div className="fixed inset-0 z-10" onClick={() => setIsImportMenuOpen(false)} />
+                                        <div className="absolute right-0 mt-1 w-48 z-20 bg-gray-800 border border-gray-700 rounded-md shadow-lg py-1 text-sm">
+                                            <button onClick={() => pickFiles(fileInputRef.current)} className="w-full text-left px-3 py-1.5 text-gray-300 hover:bg-gray-700">Files or .zip archive…</button>
+                                            <button onClick={() => pickFiles(folderInputRef.current)} className="w-full text-left px-3 py-1.5 text-gray-300 hover:bg-gray-700">Folder…</button>
+                                        </div>
+                                    </>
+                                )}
+                                <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleInputChange} />
+                                <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleInputChange} {...{ webkitdirectory: '' }} />
+                            </div>
+                        </>
+                    )}
+                    {onClose && (
+                        <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors md:hidden" title="Close Explorer">
+                            <XIcon className="w-5 h-5 text-gray-400" />
+                        </button>
+                    )}
+                </div>
+            </div>
+            <div
+                {...dropHandlers('')}
+                className={`flex-grow overflow-y-auto rounded-md ${dropTarget === '' ? 'bg-blue-500/10 ring-1 ring-blue-500/30' : ''}`}
+            >
+                {files.length === 0 ? (
+                    <p className="text-gray-500 text-sm">Chat with the AI to generate files, or drop files here to import them.</p>
+                ) : (
+                    <ul>{files.map(node => renderNode(node, 0))}</ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default FileExplorer;
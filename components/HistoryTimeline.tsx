@@ -0,0 +1,63 @@
+import React from 'react';
+import { ProjectSnapshot } from '../types';
+import { flattenFiles } from '../services/fileTree';
+import { HistoryIcon, XIcon } from './icons';
+
+interface HistoryTimelineProps {
+  snapshots: ProjectSnapshot[];
+  readOnly: boolean;
+  onRestore: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ snapshots, readOnly, onRestore, onClose }) => (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+        <div className="w-full max-w-lg bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700/50">
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-300">
+                    <HistoryIcon className="w-5 h-5 text-blue-400" /> Project history
+                </h2>
+                <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Close">
+                    <XIcon className="w-5 h-5 text-gray-400" />
+                </button>
+            </div>
+            <div className="p-4 space-y-3">
+                <p className="text-sm text-gray-400">
+                    A snapshot is taken before every AI change, import, delete and restore. Restoring one replaces all files; the current state is snapshotted first, so a restore can itself be undone.
+                </p>
+                {snapshots.length === 0 ? (
+                    <p className="text-sm text-gray-500">No snapshots yet.</p>
+                ) : (
+                    <ol className="max-h-80 overflow-y-auto border-l border-gray-700 ml-1.5 space-y-1">
+                        {snapshots.map(snapshot => {
+                            const fileCount = flattenFiles(snapshot.files).length;
+                            return (
+                                <li key={snapshot.id} className="group relative flex items-center justify-between gap-2 pl-4 pr-1 py-1.5 rounded-r-md hover:bg-gray-800">
+                                    <span className="absolute -left-[5px] top-1/2 -translate-y-1/2 w-2.5 h-2.5 rounded-full bg-gray-600 group-hover:bg-blue-400" />
+                                    <div className="min-w-0">
+                                        <div className="text-sm text-gray-300 truncate">{snapshot.label}</div>
+                                        <div className="text-xs text-gray-500">
+                                            {formatTimestamp(snapshot.timestamp)} · {fileCount} file{fileCount === 1 ? '' : 's'}
+                                        </div>
+                                    </div>
+                                    {!readOnly && (
+                                        <button
+                                            onClick={() => onRestore(snapshot.id)}
+                                            className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                                        >
+                                            Restore
+                                        </button>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                )}
+            </div>
+        </div>
+    </div>
+);
+
+export default HistoryTimeline;
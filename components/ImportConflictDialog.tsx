@@ -0,0 +1,45 @@
+import React from 'react';
+import { ConflictStrategy } from '../services/projectImport';
+import { XIcon } from './icons';
+
+// Long conflict lists are cut short; the choice applies to every conflict either way.
+const MAX_LISTED_CONFLICTS = 12;
+
+interface ImportConflictDialogProps {
+  conflicts: string[];
+  onResolve: (strategy: ConflictStrategy) => void;
+  onCancel: () => void;
+}
+
+const ImportConflictDialog: React.FC<ImportConflictDialogProps> = ({ conflicts, onResolve, onCancel }) => {
+    const listed = conflicts.slice(0, MAX_LISTED_CONFLICTS);
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onCancel}>
+            <div className="w-full max-w-lg bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700/50">
+                    <h2 className="text-lg font-semibold text-gray-300">
+                        {conflicts.length} imported file{conflicts.length === 1 ? '' : 's'} already exist{conflicts.length === 1 ? 's' : ''}
+                    </h2>
+                    <button onClick={onCancel} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Cancel import">
+                        <XIcon className="w-5 h-5 text-gray-400" />
+                    </button>
+                </div>
+                <div className="p-4 space-y-3">
+                    <ul className="max-h-60 overflow-y-auto space-y-1 font-mono text-xs text-gray-300">
+                        {listed.map(path => <li key={path} className="truncate">{path}</li>)}
+                        {conflicts.length > listed.length && <li className="text-gray-500">…and {conflicts.length - listed.length} more</li>}
+                    </ul>
+                    <p className="text-xs text-gray-500">"Keep both" saves the imported copies under a numbered name, e.g. <span className="font-mono">logo (1).png</span>.</p>
+                </div>
+                <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-700/50">
+                    <button onClick={onCancel} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Cancel</button>
+                    <button onClick={() => onResolve('skip')} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Skip</button>
+                    <button onClick={() => onResolve('keep-both')} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Keep both</button>
+                    <button onClick={() => onResolve('overwrite')} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 hover:bg-blue-700 transition-colors">Overwrite</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportConflictDialog;
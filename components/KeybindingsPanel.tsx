@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Command, KeybindingOverrides } from '../types';
+import { DEFAULT_KEYBINDINGS, formatKeybinding, keyCombination, resolveKeybindings } from '../services/keybindings';
+import { fuzzyMatch } from '../services/fuzzyMatch';
+import { XIcon } from './icons';
+
+interface KeybindingsPanelProps {
+  commands: Command[];
+  overrides: KeybindingOverrides;
+  onChange: (overrides: KeybindingOverrides) => void;
+  onClose: () => void;
+}
+
+const KeybindingsPanel: React.FC<KeybindingsPanelProps> = ({ commands, overrides, onChange, onClose }) => {
+    const [filter, setFilter] = useState('');
+    // The command waiting for its new key combination, if any.
+    const [recording, setRecording] = useState<string | null>(null);
+    const bindings = resolveKeybindings(overrides);
+
+    const commandsUsing = (combination: string, except: string) =>
+        commands.filter(command => command.id !== except && bindings[command.id] === combination);
+
+    const setBinding = (id: string, combination: string | null) => {
+        const next = { ...overrides };
+        if (combination === (DEFAULT_KEYBINDINGS[id] ?? null)) delete next[id];
+        else next[id] = combination;
+        onChange(next);
+    };
+
+    const handleRecordKey = (e: React.KeyboardEvent, id: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            setRecording(null);
+            return;
+        }
+        const combination = keyCombination(e);
+        if (!combination) return;
+        setBinding(id, combination);
+        setRecording(null);
+    };
+
+    const visible = commands.filter(command => fuzzyMatch(filter, `${command.category}: ${command.title}`));
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="w-full max-w-lg bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700/50">
+                    <h2 className="text-lg font-semibold text-gray-300">Keyboard shortcuts</h2>
+                    <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Close">
+                        <XIcon className="w-5 h-5 text-gray-400" />
+                    </button>
+                </div>
+                <div className="p-4 space-y-3">
+                    <input
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        placeholder="Filter commands"
+                        className="w-full bg-gray-800 border border-gray-700 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        spellCheck="false"
+                    />
+                    <ul className="max-h-80 overflow-y-auto -mx-1 space-y-0.5">
+                        {visible.map(command => {
+                            const binding = bindings[command.id] ?? null;
+                            const conflicts = binding ? commandsUsing(binding, command.id) : [];
+                            const isChanged = command.id in overrides;
+                            return (
+                                <li key={command.id} className="group flex items-center gap-2 px-1 py-1 rounded-md hover:bg-gray-800 text-sm">
+                                    <div className="min-w-0 flex-1">
+                                        <div className="truncate text-gray-300">
+                                            <span className="text-gray-500">{command.category}:</span> {command.title}
+                                        </div>
+                                        {conflicts.length > 0 && (
+                                            <div className="text-xs text-amber-300 truncate">Also bound to {conflicts.map(other => other.title).join(', ')}</div>
+                                        )}
+                                    </div>
+                                    {recording === command.id ? (
+                                        <input
+                                            autoFocus
+                                            readOnly
+                                            onKeyDown={(e) => handleRecordKey(e, command.id)}
+                                            onBlur={() => setRecording(null)}
+                                            placeholder="Press keys…"
+                                            className="w-32 bg-gray-800 border border-blue-500 rounded px-2 py-0.5 text-xs focus:outline-none"
+                                        />
+                                    ) : (
+                                        <button
+                                            onClick={() => setRecording(command.id)}
+                                            className="px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 hover:border-gray-500 text-xs text-gray-400 flex-shrink-0"
+                                            title="Change shortcut"
+                                        >
+                                            {binding ? formatKeybinding(binding) : 'Add shortcut'}
+                                        </button>
+                                    )}
+                                    <div className="w-24 flex justify-end gap-2 flex-shrink-0 opacity-0 group-hover:opacity-100">
+                                        {binding && (
+                                            <button onClick={() => setBinding(command.id, null)} className="text-xs text-gray-500 hover:text-gray-300" title="Remove shortcut">Remove</button>
+                                        )}
+                                        {isChanged && (
+                                            <button onClick={() => setBinding(command.id, DEFAULT_KEYBINDINGS[command.id] ?? null)} className="text-xs text-gray-500 hover:text-gray-300" title="Reset to default">Reset</button>
+                                        )}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+                <div className="flex items-center justify-between px-4 py-3 border-t border-gray-700/50">
+                    <p className="text-xs text-gray-500">Shortcuts are saved in this browser.</p>
+                    <button
+                        onClick={() => onChange({})}
+                        disabled={Object.keys(overrides).length === 0}
+                        className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Reset all
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default KeybindingsPanel;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeftIcon, ArrowRightIcon, FileIcon } from './icons';
+
+interface PreviewAddressBarProps {
+  // The page shown, like "blog/post.html#comments".
+  address: string;
+  // Every HTML file in the project, for the page selector.
+  pages: string[];
+  canGoBack: boolean;
+  canGoForward: boolean;
+  onBack: () => void;
+  onForward: () => void;
+  // Called with whatever the user typed or picked; it's resolved like a link from the project root.
+  onNavigate: (address: string) => void;
+}
+
+const PreviewAddressBar: React.FC<PreviewAddressBarProps> = ({ address, pages, canGoBack, canGoForward, onBack, onForward, onNavigate }) => {
+    const [draft, setDraft] = useState(address);
+    const currentPage = address.split('#')[0];
+
+    useEffect(() => setDraft(address), [address]);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' && draft.trim()) {
+            onNavigate(draft.trim());
+            e.currentTarget.blur();
+        } else if (e.key === 'Escape') {
+            setDraft(address);
+            e.currentTarget.blur();
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-1 px-2 py-1 bg-gray-900/80 border-b border-gray-700/50">
+            <button onClick={onBack} disabled={!canGoBack} className="p-1 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:hover:bg-transparent" title="Back">
+                <ArrowLeftIcon className="w-4 h-4 text-gray-400" />
+            </button>
+            <button onClick={onForward} disabled={!canGoForward} className="p-1 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:hover:bg-transparent" title="Forward">
+                <ArrowRightIcon className="w-4 h-4 text-gray-400" />
+            </button>
+            <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => setDraft(address)}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-md px-2 py-0.5 text-xs font-mono text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                spellCheck="false"
+                aria-label="Page address"
+            />
+            <div className="relative flex-shrink-0" title="Go to page">
+                <FileIcon className="w-4 h-4 text-gray-400 pointer-events-none absolute left-1.5 top-1/2 -translate-y-1/2" />
+                <select
+                    value={pages.includes(currentPage) ? currentPage : ''}
+                    onChange={(e) => e.target.value && onNavigate(e.target.value)}
+                    className="appearance-none w-8 h-6 bg-transparent rounded-md hover:bg-gray-700 text-transparent cursor-pointer focus:outline-none"
+                    aria-label="Go to page"
+                >
+                    <option value="" disabled className="text-gray-200 bg-gray-800">Pages</option>
+                    {pages.map(page => <option key={page} value={page} className="text-gray-200 bg-gray-800">{page}</option>)}
+                </select>
+            </div>
+        </div>
+    );
+};
+
+export default PreviewAddressBar;
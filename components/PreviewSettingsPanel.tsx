@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { PreviewSettings } from '../types';
+import { DEFAULT_PREVIEW_SETTINGS, parseImports } from '../services/previewSettings';
+import { policyDirectives } from '../services/previewSecurity';
+import { XIcon } from './icons';
+
+interface PreviewSettingsPanelProps {
+  settings: PreviewSettings;
+  onSave: (settings: PreviewSettings) => void;
+  onClose: () => void;
+}
+
+const PreviewSettingsPanel: React.FC<PreviewSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+    const [cdnUrl, setCdnUrl] = useState(settings.cdnUrl);
+    const [importsText, setImportsText] = useState(() => (Object.keys(settings.imports).length > 0 ? JSON.stringify(settings.imports, null, 2) : ''));
+    // One directive per line reads more easily than the single line a policy is stored as.
+    const [policyText, setPolicyText] = useState(() => policyDirectives(settings.contentSecurityPolicy).join(';\n'));
+    const imports = parseImports(importsText);
+    const canSave = imports.success && cdnUrl.trim() !== '';
+
+    const handleSave = () => {
+        if (imports.success === false || !canSave) return;
+        onSave({ ...settings, cdnUrl: cdnUrl.trim(), imports: imports.imports, contentSecurityPolicy: policyDirectives(policyText).join('; ') });
+    };
+
+    const handleReset = () => {
+        setCdnUrl(DEFAULT_PREVIEW_SETTINGS.cdnUrl);
+        setImportsText('');
+        setPolicyText(policyDirectives(DEFAULT_PREVIEW_SETTINGS.contentSecurityPolicy).join(';\n'));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="w-full max-w-lg bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700/50">
+                    <h2 className="text-lg font-semibold text-gray-300">Preview settings</h2>
+                    <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Close settings">
+                        <XIcon className="w-5 h-5 text-gray-400" />
+                    </button>
+                </div>
+                <div className="p-4 space-y-4">
+                    <p className="text-sm text-gray-400">
+                        TypeScript and JSX files are compiled in the browser. Packages imported by name, like <code className="text-gray-300">react</code>, load from the CDN below unless the project's own import map or the entries here say otherwise.
+                    </p>
+                    <label className="block">
+                        <span className="text-xs text-gray-400">Package CDN URL</span>
+                        <input
+                            value={cdnUrl}
+                            onChange={(e) => setCdnUrl(e.target.value)}
+                            placeholder={DEFAULT_PREVIEW_SETTINGS.cdnUrl}
+                            className="mt-1 w-full bg-gray-700/50 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            spellCheck="false"
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-xs text-gray-400">Import map entries (JSON)</span>
+                        <textarea
+                            value={importsText}
+                            onChange={(e) => setImportsText(e.target.value)}
+                            placeholder={'{\n  "react": "https://esm.sh/react@19"\n}'}
+                            rows={6}
+                            className="mt-1 w-full bg-gray-700/50 border border-gray-600 rounded-md px-3 py-1.5 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            spellCheck="false"
+                        />
+                    </label>
+                    {imports.success === false && <p className="text-xs text-red-400">{imports.error}</p>}
+                    <label className="block">
+                        <span className="text-xs text-gray-400">Content-Security-Policy</span>
+                        <textarea
+                            value={policyText}
+                            onChange={(e) => setPolicyText(e.target.value)}
+                            placeholder="No policy"
+                            rows={6}
+                            className="mt-1 w-full bg-gray-700/50 border border-gray-600 rounded-md px-3 py-1.5 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            spellCheck="false"
+                        />
+                        <span className="block mt-1 text-xs text-gray-500">
+                            Previewed pages run isolated from the IDE under this policy. What it blocks, and any network or storage use, shows up as warnings in the console.
+                        </span>
+                    </label>
+                </div>
+                <div className="flex justify-between gap-2 px-4 py-3 border-t border-gray-700/50">
+                    <button onClick={handleReset} className="px-3 py-1.5 text-sm rounded-md text-gray-400 hover:bg-gray-800 transition-colors">Reset to defaults</button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Cancel</button>
+                        <button onClick={handleSave} disabled={!canSave} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Save</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PreviewSettingsPanel;
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DeviceSettings } from '../types';
+import { fitScale } from '../services/devicePresets';
+
+interface PreviewViewportsProps {
+  settings: DeviceSettings;
+  onSelect: (index: number) => void;
+  // Renders the page for one viewport; it's laid out at the viewport's real size and scaled from there.
+  renderFrame: (index: number) => React.ReactNode;
+}
+
+const FRAME_GAP = 24;
+const PANEL_PADDING = 16;
+// Room for the caption above each frame.
+const CAPTION_HEIGHT = 20;
+
+const PreviewViewports: React.FC<PreviewViewportsProps> = ({ settings, onSelect, renderFrame }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [available, setAvailable] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => {
+            setAvailable({
+                width: container.clientWidth - PANEL_PADDING * 2,
+                height: container.clientHeight - PANEL_PADDING * 2 - CAPTION_HEIGHT,
+            });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    const scale = settings.zoom === 'fit' ? fitScale(settings.viewports, available, FRAME_GAP) : settings.zoom;
+
+    return (
+        <div ref={containerRef} className="absolute inset-0 overflow-auto bg-gray-800">
+            <div className="flex items-start w-max min-w-full justify-center" style={{ padding: PANEL_PADDING, gap: FRAME_GAP }}>
+                {settings.viewports.map((viewport, index) => (
+                    <div key={index} className="flex-shrink-0">
+                        <button
+                            onClick={() => onSelect(index)}
+                            className={`block w-full truncate text-left text-xs mb-1 ${index === settings.selected ? 'text-blue-300' : 'text-gray-400 hover:text-gray-200'}`}
+                            style={{ height: CAPTION_HEIGHT - 4 }}
+                        >
+                            {viewport.label} · {viewport.width}×{viewport.height}{scale !== 1 && ` · ${Math.round(scale * 100)}%`}
+                        </button>
+                        <div
+                            className={`relative overflow-hidden bg-white shadow-lg ring-1 ${index === settings.selected ? 'ring-blue-500/60' : 'ring-gray-700'}`}
+                            style={{ width: viewport.width * scale, height: viewport.height * scale }}
+                        >
+                            <div className="absolute top-0 left-0 origin-top-left" style={{ width: viewport.width, height: viewport.height, transform: `scale(${scale})` }}>
+                                {renderFrame(index)}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default PreviewViewports;
@@ -0,0 +1,202 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { ProjectNode } from '../types';
+import { flattenFiles } from '../services/fileTree';
+import { FileSearchResult, SearchMatch, buildSearchPattern, searchFiles, replaceMatches, previewReplacement } from '../services/projectSearch';
+import { ChevronRightIcon, FileIcon, XIcon } from './icons';
+
+interface SearchPanelProps {
+  files: ProjectNode[];
+  readOnly: boolean;
+  onOpenMatch: (fileName: string, start: number, end: number) => void;
+  // New contents by path. Replace-all passes a label so the project is snapshotted first.
+  onReplace: (contents: Record<string, string>, snapshotLabel?: string) => void;
+  onClose: () => void;
+}
+
+const ToggleButton: React.FC<{ active: boolean; onClick: () => void; title: string; children: React.ReactNode }> = ({ active, onClick, title, children }) => (
+    <button
+        onClick={onClick}
+        title={title}
+        aria-pressed={active}
+        className={`px-1.5 py-0.5 rounded text-xs font-mono transition-colors ${active ? 'bg-blue-600/60 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+    >
+        {children}
+    </button>
+);
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ files, readOnly, onOpenMatch, onReplace, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [replacement, setReplacement] = useState('');
+    const [isRegex, setIsRegex] = useState(false);
+    const [matchCase, setMatchCase] = useState(false);
+    const [wholeWord, setWholeWord] = useState(false);
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [isConfirmingReplaceAll, setIsConfirmingReplaceAll] = useState(false);
+    // Typing stays responsive in big projects; results catch up a moment later.
+    const deferredQuery = useDeferredValue(query);
+
+    const pattern = useMemo(
+        () => (deferredQuery ? buildSearchPattern({ query: deferredQuery, isRegex, matchCase, wholeWord }) : null),
+        [deferredQuery, isRegex, matchCase, wholeWord],
+    );
+    const textFiles = useMemo(() => flattenFiles(files), [files]);
+    const search = useMemo(() => (pattern?.success ? searchFiles(textFiles, pattern.pattern) : null), [pattern, textFiles]);
+    const matchCount = search?.results.reduce((total, result) => total + result.matches.length, 0) ?? 0;
+    // Replacing waits until the results are those of the query in the box.
+    const canReplace = !readOnly && !!search && matchCount > 0 && query === deferredQuery;
+
+    const contentOf = (fileName: string) => textFiles.find(file => file.name === fileName)?.content ?? '';
+    const replacePattern = () => {
+        const current = buildSearchPattern({ query, isRegex, matchCase, wholeWord });
+        return current.success ? current.pattern : null;
+    };
+
+    const replaceOne = (fileName: string, match: SearchMatch) => {
+        const current = replacePattern();
+        if (!current) return;
+        onReplace({ [fileName]: replaceMatches(contentOf(fileName), current, replacement, isRegex, { onlyAt: match.start }) });
+    };
+
+    // Replaces the matches listed for each file, which are all of them unless the search was capped.
+    const replaceInFiles = (results: FileSearchResult[]) => {
+        const current = replacePattern();
+        if (!current) return;
+        const contents = Object.fromEntries(results.map(({ fileName, matches }) =>
+            [fileName, replaceMatches(contentOf(fileName), current, replacement, isRegex, { limit: matches.length })]));
+        onReplace(contents, `Before replacing “${query}” in ${results.length} file${results.length === 1 ? '' : 's'}`);
+        setIsConfirmingReplaceAll(false);
+    };
+
+    const toggleCollapsed = (fileName: string) => setCollapsed(prev => {
+        const next = new Set(prev);
+        if (!next.delete(fileName)) next.add(fileName);
+        return next;
+    });
+
+    return (
+        <div className="bg-gray-900/70 backdrop-blur-sm md:border-r border-gray-700/50 p-4 flex flex-col h-full">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-300">Search</h2>
+                <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Back to files">
+                    <XIcon className="w-5 h-5 text-gray-400" />
+                </button>
+            </div>
+            <div className="space-y-2 mb-3">
+                <div className="flex items-center gap-1 bg-gray-800 border border-gray-700 rounded-md pr-1 focus-within:ring-2 focus-within:ring-blue-500">
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => { setQuery(e.target.value); setIsConfirmingReplaceAll(false); }}
+                        placeholder="Search"
+                        className="flex-1 min-w-0 bg-transparent px-2 py-1.5 text-sm focus:outline-none"
+                        spellCheck="false"
+                    />
+                    <ToggleButton active={matchCase} onClick={() => setMatchCase(v => !v)} title="Match case">Aa</ToggleButton>
+                    <ToggleButton active={wholeWord} onClick={() => setWholeWord(v => !v)} title="Match whole word">ab</ToggleButton>
+                    <ToggleButton active={isRegex} onClick={() => setIsRegex(v => !v)} title="Use regular expression">.*</ToggleButton>
+                </div>
+                {!readOnly && (
+                    <div className="flex items-center gap-1">
+                        <input
+                            value={replacement}
+                            onChange={(e) => setReplacement(e.target.value)}
+                            placeholder={isRegex ? 'Replace ($1 for groups)' : 'Replace'}
+                            className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            spellCheck="false"
+                        />
+                        <button
+                            onClick={() => setIsConfirmingReplaceAll(true)}
+                            disabled={!canReplace}
+                            className="px-2 py-1.5 text-xs rounded-md bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Replace all
+                        </button>
+                    </div>
+                )}
+                {pattern?.success === false && <p className="text-xs text-red-400">{pattern.error}</p>}
+                {search && (
+                    <p className="text-xs text-gray-500">
+                        {matchCount === 0 ? 'No results.' : `${matchCount} result${matchCount === 1 ? '' : 's'} in ${search.results.length} file${search.results.length === 1 ? '' : 's'}`}
+                        {search.truncated && ' (showing the first ones only)'}
+                    </p>
+                )}
+            </div>
+            {isConfirmingReplaceAll && search && (
+                <div className="mb-3 p-3 rounded-md bg-gray-800 border border-gray-700 text-sm space-y-2">
+                    <p className="text-gray-300">
+                        Replace {matchCount} match{matchCount === 1 ? '' : 'es'} with <span className="font-mono text-green-300">{replacement || '(nothing)'}</span> in:
+                    </p>
+                    <ul className="max-h-32 overflow-y-auto space-y-0.5 font-mono text-xs text-gray-400">
+                        {search.results.map(result => (
+                            <li key={result.fileName} className="flex justify-between gap-2">
+                                <span className="truncate">{result.fileName}</span>
+                                <span className="flex-shrink-0">{result.matches.length}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    {search.truncated && <p className="text-xs text-amber-300">Only the matches listed here are replaced; run it again for the rest.</p>}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setIsConfirmingReplaceAll(false)} className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Cancel</button>
+                        <button onClick={() => replaceInFiles(search.results)} disabled={!canReplace} className="px-3 py-1 text-sm font-semibold rounded-md bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Replace</button>
+                    </div>
+                </div>
+            )}
+            <div className="flex-grow overflow-y-auto -mx-1 text-sm">
+                {search?.results.map(result => {
+                    const isCollapsed = collapsed.has(result.fileName);
+                    return (
+                        <div key={result.fileName} className="mb-1">
+                            <div className="group flex items-center gap-1 px-1 py-1 rounded-md hover:bg-gray-800 cursor-pointer" onClick={() => toggleCollapsed(result.fileName)}>
+                                <ChevronRightIcon className={`w-3.5 h-3.5 text-gray-500 flex-shrink-0 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+                                <FileIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                                <span className="truncate text-gray-300" title={result.fileName}>{result.fileName}</span>
+                                <span className="ml-auto text-xs text-gray-500 flex-shrink-0">{result.matches.length}</span>
+                                {canReplace && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); replaceInFiles([result]); }}
+                                        className="hidden group-hover:block px-1.5 text-xs rounded bg-gray-700 hover:bg-gray-600 flex-shrink-0"
+                                        title="Replace all in this file"
+                                    >
+                                        Replace
+                                    </button>
+                                )}
+                            </div>
+                            {!isCollapsed && result.matches.map(match => (
+                                <div
+                                    key={match.start}
+                                    onClick={() => onOpenMatch(result.fileName, match.start, match.end)}
+                                    className="group flex items-center gap-2 pl-7 pr-1 py-0.5 rounded-md hover:bg-gray-800 cursor-pointer"
+                                >
+                                    <span className="text-xs text-gray-600 w-8 text-right flex-shrink-0">{match.line + 1}</span>
+                                    <span className="truncate font-mono text-xs text-gray-400">
+                                        {match.preview.before}
+                                        {canReplace && replacement !== '' ? (
+                                            <>
+                                                <span className="bg-red-500/30 line-through">{match.preview.text}</span>
+                                                <span className="bg-green-500/30 text-green-200">{pattern?.success && previewReplacement(match, pattern.pattern, replacement, isRegex)}</span>
+                                            </>
+                                        ) : (
+                                            <span className="bg-yellow-500/30 text-gray-100">{match.preview.text}</span>
+                                        )}
+                                        {match.preview.after}
+                                    </span>
+                                    {canReplace && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); replaceOne(result.fileName, match); }}
+                                            className="hidden group-hover:block ml-auto px-1.5 text-xs rounded bg-gray-700 hover:bg-gray-600 flex-shrink-0"
+                                            title="Replace"
+                                        >
+                                            Replace
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default SearchPanel;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ModelProviderId, ModelSettings, ProviderConfig } from '../types';
+import { MODEL_PROVIDERS } from '../services/providers';
+import { XIcon } from './icons';
+
+const FIELD_LABELS: Record<keyof ProviderConfig, string> = {
+  endpoint: 'Endpoint URL',
+  model: 'Model',
+  apiKey: 'API key',
+};
+
+interface SettingsPanelProps {
+  settings: ModelSettings;
+  onSave: (settings: ModelSettings) => void;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+    const [draft, setDraft] = useState<ModelSettings>(settings);
+    const provider = MODEL_PROVIDERS[draft.provider];
+
+    const updateField = (field: keyof ProviderConfig, value: string) => {
+        setDraft(prev => ({
+            ...prev,
+            configs: { ...prev.configs, [prev.provider]: { ...prev.configs[prev.provider], [field]: value } },
+        }));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="w-full max-w-lg bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700/50">
+                    <h2 className="text-lg font-semibold text-gray-300">Model settings</h2>
+                    <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Close settings">
+                        <XIcon className="w-5 h-5 text-gray-400" />
+                    </button>
+                </div>
+                <div className="p-4 space-y-4">
+                    <div className="space-y-2">
+                        {(Object.keys(MODEL_PROVIDERS) as ModelProviderId[]).map(id => (
+                            <label key={id} className={`flex items-start gap-3 p-2 rounded-md cursor-pointer border ${draft.provider === id ? 'border-blue-500 bg-blue-600/10' : 'border-transparent hover:bg-gray-800'}`}>
+                                <input
+                                    type="radio"
+                                    name="model-provider"
+                                    checked={draft.provider === id}
+                                    onChange={() => setDraft(prev => ({ ...prev, provider: id }))}
+                                    className="mt-1"
+                                />
+                                <div>
+                                    <div className="text-sm text-gray-200">{MODEL_PROVIDERS[id].label}</div>
+                                    <div className="text-xs text-gray-500">{MODEL_PROVIDERS[id].description}</div>
+                                </div>
+                            </label>
+                        ))}
+                    </div>
+                    {provider.fields.map(field => (
+                        <label key={field} className="block">
+                            <span className="text-xs text-gray-400">{FIELD_LABELS[field]}</span>
+                            <input
+                                type={field === 'apiKey' ? 'password' : 'text'}
+                                value={draft.configs[draft.provider][field]}
+                                onChange={(e) => updateField(field, e.target.value)}
+                                className="mt-1 w-full bg-gray-700/50 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                spellCheck="false"
+                            />
+                        </label>
+                    ))}
+                    {provider.fields.includes('apiKey') && (
+                        <p className="text-xs text-gray-500">Keys are stored in this browser's local storage and sent only to the endpoint above.</p>
+                    )}
+                </div>
+                <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-700/50">
+                    <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors">Cancel</button>
+                    <button onClick={() => onSave(draft)} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 hover:bg-blue-700 transition-colors">Save</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
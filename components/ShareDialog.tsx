@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { SharedProject } from '../types';
+import { createShareLink, ShareLinkResult } from '../services/shareLink';
+import { CheckIcon, CopyIcon, ShareIcon, XIcon } from './icons';
+
+interface ShareDialogProps {
+  getProject: (includeChat: boolean) => SharedProject;
+  onClose: () => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ getProject, onClose }) => {
+    const [includeChat, setIncludeChat] = useState(false);
+    const [result, setResult] = useState<ShareLinkResult | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setResult(null);
+        setCopied(false);
+        createShareLink(getProject(includeChat), window.location.href).then(next => {
+            if (!cancelled) setResult(next);
+        });
+        return () => { cancelled = true; };
+    }, [includeChat]);
+
+    const handleCopy = async () => {
+        if (!result?.success) return;
+        try {
+            await navigator.clipboard.writeText(result.url);
+            setCopied(true);
+        } catch {
+            alert('Could not copy to the clipboard. Select the link and copy it manually.');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="w-full max-w-lg bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700/50">
+                    <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-300">
+                        <ShareIcon className="w-5 h-5 text-blue-400" /> Share project
+                    </h2>
+                    <button onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors" title="Close">
+                        <XIcon className="w-5 h-5 text-gray-400" />
+                    </button>
+                </div>
+                <div className="p-4 space-y-3">
+                    <p className="text-sm text-gray-400">Anyone with this link can open a read-only copy of the project. The files travel inside the link itself; nothing is uploaded.</p>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={includeChat} onChange={(e) => setIncludeChat(e.target.checked)} />
+                        Include chat history
+                    </label>
+                    {!result && <p className="text-sm text-gray-500">Creating link…</p>}
+                    {result && !result.success && <p className="text-sm text-red-400">{result.error}</p>}
+                    {result?.success && (
+                        <>
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    readOnly
+                                    value={result.url}
+                                    onFocus={(e) => e.target.select()}
+                                    className="flex-1 min-w-0 bg-gray-700/50 border border-gray-600 rounded-md px-3 py-1.5 text-sm font-mono text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <button onClick={handleCopy} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 hover:bg-blue-700 transition-colors">
+                                    {copied ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-4 h-4" />} {copied ? 'Copied' : 'Copy'}
+                                </button>
+                            </div>
+                            <p className="text-xs text-gray-500">{result.url.length.toLocaleString()} characters</p>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShareDialog;
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WorkspaceSummary } from '../types';
+import { ChevronRightIcon, CopyIcon, FolderIcon, FolderPlusIcon, PencilIcon, TrashIcon } from './icons';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceSummary[];
+  activeWorkspace: WorkspaceSummary | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+const formatUpdatedAt = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ workspaces, activeWorkspace, onOpen, onCreate, onDuplicate, onRename, onDelete, disabled = false }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        window.addEventListener('mousedown', handleClickOutside);
+        return () => window.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const run = (action: () => void) => {
+        setIsOpen(false);
+        action();
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                disabled={disabled}
+                className="flex items-center gap-2 px-2 py-1 text-sm rounded-md hover:bg-gray-700/60 transition-colors max-w-[12rem] disabled:opacity-50 disabled:cursor-not-allowed"
+                title={disabled ? 'Wait for the current answer to finish before switching workspaces' : 'Switch workspace'}
+            >
+                <FolderIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <span className="truncate text-gray-300">{activeWorkspace?.name ?? 'Loading…'}</span>
+                <ChevronRightIcon className={`w-3 h-3 text-gray-500 flex-shrink-0 transition-transform ${isOpen ? '-rotate-90' : 'rotate-90'}`} />
+            </button>
+            {isOpen && (
+                <div className="absolute left-0 top-full mt-1 w-72 bg-gray-900 border border-gray-700/50 rounded-md shadow-xl z-50 overflow-hidden">
+                    <div className="max-h-80 overflow-y-auto py-1">
+                        {workspaces.map(workspace => (
+                            <div key={workspace.id} className={`group flex items-center gap-1 px-2 ${workspace.id === activeWorkspace?.id ? 'bg-blue-600/20' : 'hover:bg-gray-800'}`}>
+                                <button onClick={() => run(() => onOpen(workspace.id))} className="flex-1 min-w-0 text-left py-1.5">
+                                    <div className={`text-sm truncate ${workspace.id === activeWorkspace?.id ? 'text-blue-300' : 'text-gray-300'}`}>{workspace.name}</div>
+                                    <div className="text-xs text-gray-500">Edited {formatUpdatedAt(workspace.updatedAt)}</div>
+                                </button>
+                                <div className="hidden group-hover:flex items-center">
+                                    <button onClick={() => run(() => onRename(workspace.id))} className="p-1 rounded hover:bg-gray-700" title="Rename workspace">
+                                        <PencilIcon className="w-3.5 h-3.5 text-gray-400" />
+                                    </button>
+                                    <button onClick={() => run(() => onDuplicate(workspace.id))} className="p-1 rounded hover:bg-gray-700" title="Duplicate workspace">
+                                        <CopyIcon className="w-3.5 h-3.5 text-gray-400" />
+                                    </button>
+                                    <button onClick={() => run(() => onDelete(workspace.id))} className="p-1 rounded hover:bg-gray-700" title="Delete workspace">
+                                        <TrashIcon className="w-3.5 h-3.5 text-gray-400" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => run(onCreate)} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 border-t border-gray-700/50 hover:bg-gray-800">
+                        <FolderPlusIcon className="w-4 h-4 text-gray-400" /> New workspace
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WorkspaceSwitcher;
@@ -1,3 +1,11 @@
 
 export const ACTIVEPIECES_WEBHOOK_URL = 'https://cloud.activepieces.com/api/v1/webhooks/WR43cDYER0O9TiHq8exAH/sync';
 export const ACTIVEPIECES_WEBHOOK_TEST_URL = 'https://cloud.activepieces.com/api/v1/webhooks/WR43cDYER0O9TiHq8exAH/test';
+
+export const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.5-flash';
+export const OPENAI_API_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Serves npm packages as ES modules, for bare imports in previewed projects.
+export const PREVIEW_CDN_URL = 'https://esm.sh/';
@@ -0,0 +1,30 @@
+// Keeps the IDE usable with no network: the files of the build are cached when the worker installs
+// and served from the cache after that. The build fills in the file list and the version, which
+// changes with every build that changes a file (see vite.config.ts).
+const CACHE_VERSION = '__CACHE_VERSION__';
+const PRECACHE_FILES = ['__PRECACHE_FILES__'];
+const CACHE_PREFIX = 'codenix-shell-';
+const CACHE_NAME = CACHE_PREFIX + CACHE_VERSION;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_FILES)));
+});
+
+// An updated worker only takes over once no page uses the old build, whose files are then dropped.
+self.addEventListener('activate', event => {
+  event.waitUntil(caches.keys()
+    .then(names => Promise.all(names.filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME).map(name => caches.delete(name))))
+    .then(() => self.clients.claim()));
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  // The page itself comes from the network when there is one, so a new build is picked up.
+  // Everything else has a content hash in its name and never changes.
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('./', { cacheName: CACHE_NAME }).then(response => response || Response.error())));
+    return;
+  }
+  event.respondWith(caches.match(request, { cacheName: CACHE_NAME }).then(response => response || fetch(request)));
+});
@@ -0,0 +1,21 @@
+import { FileChange, ProjectNode, ProposedChangeset } from '../types';
+import { findFile } from './fileTree';
+
+/**
+ * Captures the current content of every file a set of changes touches, dropping changes
+ * that would do nothing (rewriting a file with identical content, deleting a missing file).
+ */
+export const createChangeset = (nodes: ProjectNode[], summary: string, changes: FileChange[]): ProposedChangeset => {
+  const originals: Record<string, string | null> = {};
+  const effective = changes.filter(change => {
+    const original = findFile(nodes, change.path)?.content ?? null;
+    if (change.type === 'delete' ? original === null : original === change.content) return false;
+    originals[change.path] = original;
+    return true;
+  });
+  return { summary, changes: effective, originals };
+};
+
+/** True when the changeset only creates new files, so applying it cannot overwrite any work. */
+export const isAdditiveOnly = (changeset: ProposedChangeset): boolean =>
+  changeset.changes.every(change => change.type === 'upsert' && changeset.originals[change.path] === null);
@@ -0,0 +1,86 @@
+import { Language, Token } from './tokenizer';
+
+/** Columns `start` to `end` of one line. */
+export interface LineRange {
+  line: number;
+  start: number;
+  end: number;
+}
+
+/** A bracket and its partner, or an element's opening and closing tag names. */
+export interface StructurePair {
+  open: LineRange;
+  close: LineRange;
+}
+
+export interface CodeStructure {
+  pairs: StructurePair[];
+  // Foldable lines, mapped to the line their block closes on. Only blocks with lines between
+  // the two can fold.
+  folds: Map<number, number>;
+}
+
+const BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// HTML elements that never have a closing tag.
+export const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/**
+ * Pairs up brackets and tags from the tokenizer's output, so brackets inside strings and comments
+ * are ignored. Unmatched closers are skipped rather than throwing the rest of the file off.
+ */
+export const findStructure = (lines: Token[][], language: Language): CodeStructure => {
+  const pairs: StructurePair[] = [];
+  const brackets: { char: string; range: LineRange }[] = [];
+  const tags: { name: string; range: LineRange }[] = [];
+  // An opening tag whose `>` hasn't been reached yet; `/>` or a void element means it never needs closing.
+  let pendingTag: { name: string; range: LineRange } | null = null;
+
+  lines.forEach((tokens, line) => {
+    let column = 0;
+    tokens.forEach((token, index) => {
+      if (token.type === 'punctuation') {
+        for (let i = 0; i < token.text.length; i++) {
+          const char = token.text[i];
+          const range = { line, start: column + i, end: column + i + 1 };
+          if (char === '(' || char === '[' || char === '{') {
+            brackets.push({ char, range });
+          } else if (BRACKETS[char]) {
+            if (brackets[brackets.length - 1]?.char === BRACKETS[char]) pairs.push({ open: brackets.pop()!.range, close: range });
+          } else if (char === '>' && pendingTag) {
+            const isVoid = language === 'html' && VOID_ELEMENTS.has(pendingTag.name);
+            if (token.text[i - 1] !== '/' && !isVoid) tags.push(pendingTag);
+            pendingTag = null;
+          }
+        }
+      } else if (token.type === 'tag') {
+        const before = tokens[index - 1]?.text ?? '';
+        const name = language === 'html' ? token.text.toLowerCase() : token.text;
+        const range = { line, start: column, end: column + token.text.length };
+        if (before.endsWith('</')) {
+          // HTML tolerates unclosed children (`<li>` without `</li>`), so close everything up to the match.
+          const match = tags.map(tag => tag.name).lastIndexOf(name);
+          if (match !== -1) {
+            pairs.push({ open: tags[match].range, close: range });
+            tags.length = match;
+          }
+        } else if (before.endsWith('<')) {
+          pendingTag = { name, range };
+        }
+      }
+      column += token.text.length;
+    });
+  });
+
+  const folds = new Map<number, number>();
+  pairs.forEach(({ open, close }) => {
+    if (close.line - open.line >= 2 && close.line > (folds.get(open.line) ?? -1)) folds.set(open.line, close.line);
+  });
+  return { pairs, folds };
+};
+
+const touches = (range: LineRange, line: number, column: number) => range.line === line && column >= range.start && column <= range.end;
+
+/** The pair with a bracket or tag name right at (or around) the cursor, if any. */
+export const findMatchingPair = (structure: CodeStructure, line: number, column: number): StructurePair | null =>
+  structure.pairs.find(pair => touches(pair.open, line, column) || touches(pair.close, line, column)) ?? null;
@@ -1,38 +1,31 @@
-import { ACTIVEPIECES_WEBHOOK_URL } from '../constants';
-import { CodenixServiceResponse } from '../types';
+import { CodenixServiceResponse, ModelContext, ModelRequestOptions, ModelSettings } from '../types';
+import { buildPrompt } from './promptBuilder';
+import { MODEL_PROVIDERS, DEFAULT_MODEL_SETTINGS } from './providers';
 
-export const sendMessageToModel = async (prompt: string): Promise<CodenixServiceResponse> => {
-  // A simplified, direct prompt to encourage the model to return raw code.
-  const systemPrompt = `You are Nix 1.5, an expert AI web developer. Your single purpose is to generate code based on the user's request.
-User's request: "${prompt}"
-Respond ONLY with the raw code for the user's request. Do NOT add any conversational text, explanations, or markdown formatting.`;
+export const sendMessageToModel = async (prompt: string, context?: ModelContext, settings: ModelSettings = DEFAULT_MODEL_SETTINGS, options: ModelRequestOptions = {}): Promise<CodenixServiceResponse> => {
+  // The answer is parsed by parseModelResponse, so the format requested by buildPrompt must stay in sync with it.
+  const systemPrompt = buildPrompt(prompt, context);
+  const provider = MODEL_PROVIDERS[settings.provider];
+  let received = '';
 
   try {
-    const response = await fetch(ACTIVEPIECES_WEBHOOK_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    const answer = await provider.send({ prompt: systemPrompt, message: prompt }, settings.configs[settings.provider], {
+      signal: options.signal,
+      onProgress: textSoFar => {
+        received = textSoFar;
+        options.onProgress?.(textSoFar);
       },
-      body: JSON.stringify({ question: systemPrompt }),
     });
-
-    if (!response.ok) {
-      throw new Error(`Webhook failed with status: ${response.status}`);
-    }
-
-    const rawData = await response.json();
-
-    if (rawData && typeof rawData.answer === 'string') {
-        return { success: true, message: rawData.answer.trim() };
-    } else {
-        return { success: true, message: "Received an empty or unexpected response from the model." };
-    }
-
+    return { success: true, message: answer };
   } catch (error) {
+    if (options.signal?.aborted) {
+      return { success: false, error: 'Generation stopped.', aborted: true, partial: received };
+    }
     console.error('Error calling Codenix service:', error);
     return {
         success: false,
         error: error instanceof Error ? error.message : 'An unknown error occurred.',
+        partial: received || undefined,
     }
   }
-};
\ No newline at end of file
+};
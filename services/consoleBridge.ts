@@ -0,0 +1,169 @@
+import { ConsoleLog, ConsoleLogLevel, ConsoleValue } from '../types';
+
+export const CONSOLE_MESSAGE_SOURCE = 'codenix-console';
+export const MAX_CONSOLE_LOGS = 500;
+
+const LEVELS: ConsoleLogLevel[] = ['log', 'warn', 'error', 'info'];
+
+// Runs inside the preview frame before any project code. It wraps the console methods and
+// forwards every call, uncaught error and unhandled rejection to the IDE via postMessage.
+const BRIDGE_SCRIPT = `(function () {
+  if (window.__codenixConsoleBridge) return;
+  window.__codenixConsoleBridge = true;
+  var SOURCE = '${CONSOLE_MESSAGE_SOURCE}';
+  var MAX_DEPTH = 4;
+  var MAX_ENTRIES = 100;
+
+  function primitive(type, text) { return { kind: 'primitive', type: type, text: text }; }
+
+  function labelOf(value) {
+    if (Array.isArray(value)) return 'Array(' + value.length + ')';
+    if (value instanceof Map) return 'Map(' + value.size + ')';
+    if (value instanceof Set) return 'Set(' + value.size + ')';
+    var proto = Object.getPrototypeOf(value);
+    var ctor = proto && proto.constructor && proto.constructor.name;
+    return ctor || 'Object';
+  }
+
+  function serialize(value, depth, seen) {
+    if (value === null) return primitive('null', 'null');
+    var type = typeof value;
+    if (type === 'string') return primitive('string', value);
+    if (type === 'number' || type === 'boolean' || type === 'bigint' || type === 'undefined') return primitive(type, String(value));
+    if (type === 'symbol') return primitive('symbol', value.toString());
+    if (type === 'function') return primitive('function', 'ƒ ' + (value.name || 'anonymous') + '()');
+    if (value instanceof Error) return primitive('error', value.stack || (value.name + ': ' + value.message));
+    if (typeof Node !== 'undefined' && value instanceof Node) {
+      var html = value.outerHTML || value.textContent || value.nodeName;
+      return primitive('node', html.length > 200 ? html.slice(0, 200) + '…' : html);
+    }
+    if (seen.indexOf(value) !== -1) return primitive('circular', '[Circular]');
+    var label = labelOf(value);
+    if (depth >= MAX_DEPTH) return { kind: 'object', label: label, entries: [], truncated: true };
+    seen = seen.concat([value]);
+    var entries = [];
+    var truncated = false;
+    function push(key, item) {
+      if (entries.length >= MAX_ENTRIES) { truncated = true; return; }
+      entries.push({ key: key, value: serialize(item, depth + 1, seen) });
+    }
+    try {
+      if (value instanceof Map) {
+        value.forEach(function (item, key) { push(String(key), item); });
+      } else if (value instanceof Set) {
+        var index = 0;
+        value.forEach(function (item) { push(String(index++), item); });
+      } else {
+        Object.keys(value).forEach(function (key) { push(key, value[key]); });
+      }
+    } catch (e) {
+      truncated = true;
+    }
+    return { kind: 'object', label: label, entries: entries, truncated: truncated };
+  }
+
+  function post(level, args) {
+    try {
+      window.parent.postMessage({
+        source: SOURCE,
+        level: level,
+        args: Array.prototype.map.call(args, function (arg) { return serialize(arg, 0, []); }),
+        timestamp: Date.now()
+      }, '*');
+    } catch (e) {}
+  }
+
+  ['log', 'warn', 'error', 'info'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      post(level, arguments);
+      if (original) original.apply(console, arguments);
+    };
+  });
+
+  var originalClear = console.clear;
+  console.clear = function () {
+    try { window.parent.postMessage({ source: SOURCE, level: 'clear', args: [], timestamp: Date.now() }, '*'); } catch (e) {}
+    if (originalClear) originalClear.apply(console, arguments);
+  };
+
+  window.addEventListener('error', function (event) {
+    var location = event.lineno ? ' (line ' + event.lineno + ':' + event.colno + ')' : '';
+    post('error', ['Uncaught ' + (event.error && event.error.stack ? event.error.stack : event.message) + location]);
+  });
+
+  window.addEventListener('unhandledrejection', function (event) {
+    post('error', ['Uncaught (in promise)', event.reason]);
+  });
+})();`;
+
+/** Inserts `tags` at the very start of the document's head, so they run before anything the page itself loads. */
+export const prependToHead = (html: string, tags: string): string => {
+  const headMatch = html.match(/<head[^>]*>/i);
+  if (headMatch && headMatch.index !== undefined) {
+    const insertAt = headMatch.index + headMatch[0].length;
+    return html.slice(0, insertAt) + tags + html.slice(insertAt);
+  }
+  const htmlMatch = html.match(/<html[^>]*>/i);
+  if (htmlMatch && htmlMatch.index !== undefined) {
+    const insertAt = htmlMatch.index + htmlMatch[0].length;
+    return html.slice(0, insertAt) + tags + html.slice(insertAt);
+  }
+  return tags + html;
+};
+
+/**
+ * Injects the console bridge as the first script in the document so logs emitted
+ * during page load are captured too.
+ */
+export const injectConsoleBridge = (html: string): string => prependToHead(html, `<script>${BRIDGE_SCRIPT}</script>`);
+
+/** Renders a serialized value as a single-line preview, like the collapsed form in devtools. */
+export const formatConsoleValue = (value: ConsoleValue, nested = false): string => {
+  if (value.kind === 'primitive') {
+    return nested && value.type === 'string' ? JSON.stringify(value.text) : value.text;
+  }
+  if (nested) return value.label;
+  const isArray = value.label.startsWith('Array(');
+  const parts = value.entries.slice(0, 5).map(entry =>
+    isArray ? formatConsoleValue(entry.value, true) : `${entry.key}: ${formatConsoleValue(entry.value, true)}`
+  );
+  if (value.entries.length > 5 || value.truncated) parts.push('…');
+  const body = isArray ? `[${parts.join(', ')}]` : `{${parts.join(', ')}}`;
+  return value.label === 'Object' || isArray ? body : `${value.label} ${body}`;
+};
+
+const formatTimestamp = (time: number): string => {
+  const date = new Date(time);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+};
+
+/** A console entry raised by the IDE itself rather than by the page, like a problem found building the preview. */
+export const createConsoleLog = (level: ConsoleLogLevel, text: string): ConsoleLog => ({
+  type: level,
+  message: [text],
+  args: [{ kind: 'primitive', type: 'string', text }],
+  timestamp: formatTimestamp(Date.now()),
+});
+
+/**
+ * Converts a message posted by the bridge into a ConsoleLog. Returns 'clear' when the
+ * page called console.clear(), and null for anything that did not come from the bridge.
+ */
+export const parseConsoleMessage = (data: unknown): ConsoleLog | 'clear' | null => {
+  if (!data || typeof data !== 'object') return null;
+  const { source, level, args, timestamp } = data as Record<string, unknown>;
+  if (source !== CONSOLE_MESSAGE_SOURCE) return null;
+  if (level === 'clear') return 'clear';
+  if (!LEVELS.includes(level as ConsoleLogLevel) || !Array.isArray(args)) return null;
+  const values = args.map((arg): ConsoleValue =>
+    arg && typeof arg === 'object' && 'kind' in arg ? arg as ConsoleValue : { kind: 'primitive', type: 'string', text: String(arg) }
+  );
+  return {
+    type: level as ConsoleLogLevel,
+    message: values.map(value => formatConsoleValue(value)),
+    args: values,
+    timestamp: formatTimestamp(typeof timestamp === 'number' ? timestamp : Date.now()),
+  };
+};
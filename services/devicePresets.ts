@@ -0,0 +1,37 @@
+import { DeviceSettings, PreviewViewport } from '../types';
+
+export const DEVICE_PRESETS: PreviewViewport[] = [
+  { label: 'iPhone SE', width: 375, height: 667 },
+  { label: 'iPhone 15', width: 393, height: 852 },
+  { label: 'Pixel 8', width: 412, height: 915 },
+  { label: 'iPad Mini', width: 768, height: 1024 },
+  { label: 'iPad Pro', width: 1024, height: 1366 },
+  { label: 'Laptop', width: 1366, height: 768 },
+  { label: 'Desktop', width: 1920, height: 1080 },
+];
+
+export const CUSTOM_VIEWPORT_LABEL = 'Custom';
+export const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1];
+export const MIN_VIEWPORT_SIZE = 120;
+export const MAX_VIEWPORT_SIZE = 4096;
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = { viewports: [DEVICE_PRESETS[0]], selected: 0, zoom: 'fit' };
+
+/** The preset a viewport matches in either orientation, if any. */
+export const presetFor = (viewport: PreviewViewport): PreviewViewport | undefined =>
+  DEVICE_PRESETS.find(preset =>
+    (preset.width === viewport.width && preset.height === viewport.height) || (preset.width === viewport.height && preset.height === viewport.width));
+
+export const clampViewportSize = (size: number) => Math.round(Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, size)));
+
+/**
+ * The scale that fits every viewport, side by side with `gap` pixels between them, into the
+ * available space. Frames are never enlarged past their real size.
+ */
+export const fitScale = (viewports: PreviewViewport[], available: { width: number; height: number }, gap: number): number => {
+  if (viewports.length === 0 || available.width <= 0 || available.height <= 0) return 1;
+  const totalWidth = viewports.reduce((sum, viewport) => sum + viewport.width, 0);
+  const maxHeight = Math.max(...viewports.map(viewport => viewport.height));
+  const widthForFrames = available.width - gap * (viewports.length - 1);
+  return Math.max(0.1, Math.min(1, widthForFrames / totalWidth, available.height / maxHeight));
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { LineDiff, diffLines, mergeHunks } from './diff';
+import { createChangeset, isAdditiveOnly } from './changeset';
+
+// The diff as compact strings, e.g. ' a', '-b', '+c'.
+const render = (diff: LineDiff) => diff.ops.map(op => `${op.type === 'equal' ? ' ' : op.type === 'add' ? '+' : '-'}${op.line}`);
+
+const acceptAll = () => true;
+const rejectAll = () => false;
+
+// Accepting every hunk gives the new text and rejecting every hunk the old one.
+const expectRoundTrip = (oldText: string, newText: string) => {
+  const diff = diffLines(oldText, newText);
+  expect(mergeHunks(diff, acceptAll)).toBe(newText);
+  expect(mergeHunks(diff, rejectAll)).toBe(oldText);
+  return diff;
+};
+
+describe('diffLines', () => {
+  it('reports identical texts as a single run of unchanged lines', () => {
+    const diff = diffLines('a\nb', 'a\nb');
+    expect(diff.hunkCount).toBe(0);
+    expect(render(diff)).toEqual([' a', ' b']);
+  });
+
+  it('finds inserts and deletes at the start of a file', () => {
+    expect(render(expectRoundTrip('b\nc', 'a\nb\nc'))).toEqual(['+a', ' b', ' c']);
+    expect(render(expectRoundTrip('a\nb\nc', 'b\nc'))).toEqual(['-a', ' b', ' c']);
+  });
+
+  it('finds inserts and deletes at the end of a file', () => {
+    expect(render(expectRoundTrip('a\nb', 'a\nb\nc'))).toEqual([' a', ' b', '+c']);
+    expect(render(expectRoundTrip('a\nb\nc', 'a\nb'))).toEqual([' a', ' b', '-c']);
+  });
+
+  it('groups a replaced line into one hunk', () => {
+    const diff = expectRoundTrip('a\nb\nc', 'a\nB\nc');
+    expect(diff.hunkCount).toBe(1);
+    expect(diff.ops.filter(op => op.type !== 'equal').map(op => op.hunk)).toEqual([0, 0]);
+  });
+
+  it('keeps changes separated by an unchanged line in separate hunks', () => {
+    const diff = expectRoundTrip('a\nb\nc\nd\ne', 'A\nb\nC\nd\nE');
+    expect(diff.hunkCount).toBe(3);
+    expect(diff.ops.map(op => op.hunk)).toEqual([0, 0, undefined, 1, 1, undefined, 2, 2]);
+  });
+
+  it('treats a missing trailing newline as a change to the last line', () => {
+    const diff = expectRoundTrip('a\nb', 'a\nb\n');
+    expect(render(diff)).toEqual([' a', ' b', '+']);
+    expectRoundTrip('a\nb\n', 'a\nb');
+  });
+
+  it('falls back to one replaced block when the texts are too different', () => {
+    const oldText = Array.from({ length: 3000 }, (_, i) => `old ${i}`).join('\n');
+    const newText = Array.from({ length: 3000 }, (_, i) => `new ${i}`).join('\n');
+    const diff = expectRoundTrip(oldText, newText);
+    expect(diff.hunkCount).toBe(1);
+  });
+});
+
+describe('mergeHunks', () => {
+  const OLD = 'one\ntwo\nthree\nfour\nfive';
+  const NEW = 'ONE\ntwo\nthree\nFOUR\nfive\nsix';
+
+  it('applies only the accepted hunks and leaves the others as they were', () => {
+    const diff = diffLines(OLD, NEW);
+    expect(diff.hunkCount).toBe(3);
+    expect(mergeHunks(diff, hunk => hunk === 0)).toBe('ONE\ntwo\nthree\nfour\nfive');
+    expect(mergeHunks(diff, hunk => hunk === 1)).toBe('one\ntwo\nthree\nFOUR\nfive');
+    expect(mergeHunks(diff, hunk => hunk !== 1)).toBe('ONE\ntwo\nthree\nfour\nfive\nsix');
+  });
+
+  it('accepts adjacent additions and removals of one hunk together', () => {
+    const diff = diffLines('a\nb\nc\nd', 'a\nx\ny\nd');
+    expect(diff.hunkCount).toBe(1);
+    expect(mergeHunks(diff, acceptAll)).toBe('a\nx\ny\nd');
+    expect(mergeHunks(diff, rejectAll)).toBe('a\nb\nc\nd');
+  });
+});
+
+describe('new files', () => {
+  const changeset = createChangeset(
+    [{ type: 'file', name: 'index.html', content: '<p>old</p>\n' }],
+    'Adds a script',
+    [
+      { type: 'upsert', path: 'app.js', content: 'let a = 1;\nlet b = 2;\n' },
+      { type: 'upsert', path: 'index.html', content: '<p>old</p>\n' },
+    ],
+  );
+
+  it('records a created file with a null original and drops changes that do nothing', () => {
+    expect(changeset.changes.map(change => change.path)).toEqual(['app.js']);
+    expect(changeset.originals).toEqual({ 'app.js': null });
+    expect(isAdditiveOnly(changeset)).toBe(true);
+  });
+
+  it('diffs a created file against nothing as a single hunk', () => {
+    const change = changeset.changes[0];
+    const diff = diffLines(changeset.originals[change.path] ?? '', change.type === 'upsert' ? change.content : '');
+    expect(diff.hunkCount).toBe(1);
+    expect(diff.ops.every(op => op.type === 'add')).toBe(true);
+    expect(mergeHunks(diff, acceptAll)).toBe('let a = 1;\nlet b = 2;\n');
+    expect(mergeHunks(diff, rejectAll)).toBe('');
+  });
+});
@@ -0,0 +1,112 @@
+export interface DiffOp {
+  type: 'equal' | 'add' | 'remove';
+  line: string;
+  // Index of the change block this line belongs to; undefined for unchanged lines.
+  hunk?: number;
+}
+
+export interface LineDiff {
+  ops: DiffOp[];
+  hunkCount: number;
+}
+
+// Above this many edits the diff stops looking for a minimal script and reports the
+// differing middle as one replaced block, keeping memory bounded for unrelated files.
+const MAX_EDIT_DISTANCE = 2000;
+
+type RawOp = Omit<DiffOp, 'hunk'>;
+
+// Myers' O((N+M)D) algorithm. Only the diagonals reachable at each step are kept for
+// backtracking, so memory grows with D² rather than D·(N+M).
+const myersDiff = (a: string[], b: string[]): RawOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): RawOp[] => {
+  const ops: RawOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--; y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: 'add', line: b[y - 1] });
+      else ops.push({ type: 'remove', line: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+};
+
+/** Line-based diff of two texts, with consecutive changed lines grouped into hunks. */
+export const diffLines = (oldText: string, newText: string): LineDiff => {
+  const a = oldText === '' ? [] : oldText.split('\n');
+  const b = newText === '' ? [] : newText.split('\n');
+
+  // Trimming the common prefix and suffix first keeps the typical "small edit in a big file" cheap.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myersDiff(middleA, middleB) ?? [
+    ...middleA.map((line): RawOp => ({ type: 'remove', line })),
+    ...middleB.map((line): RawOp => ({ type: 'add', line })),
+  ];
+
+  const raw: RawOp[] = [
+    ...a.slice(0, prefix).map((line): RawOp => ({ type: 'equal', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): RawOp => ({ type: 'equal', line })),
+  ];
+
+  let hunkCount = 0;
+  let inHunk = false;
+  const ops = raw.map((op): DiffOp => {
+    if (op.type === 'equal') {
+      inHunk = false;
+      return op;
+    }
+    if (!inHunk) { hunkCount++; inHunk = true; }
+    return { ...op, hunk: hunkCount - 1 };
+  });
+  return { ops, hunkCount };
+};
+
+/**
+ * Rebuilds the new text keeping only the accepted hunks; rejected hunks keep their
+ * original lines.
+ */
+export const mergeHunks = (diff: LineDiff, isAccepted: (hunk: number) => boolean): string =>
+  diff.ops
+    .filter(op => op.type === 'equal' || (op.type === 'add') === isAccepted(op.hunk!))
+    .map(op => op.line)
+    .join('\n');
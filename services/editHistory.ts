@@ -0,0 +1,82 @@
+import { FileHistory, HistoryEntry, HistorySource, ProjectNode, ProjectSnapshot } from '../types';
+import { flattenFiles, isSameOrDescendant, remapPath } from './fileTree';
+
+export type EditHistories = Record<string, FileHistory>;
+
+const MAX_FILE_HISTORY = 200;
+export const MAX_PROJECT_SNAPSHOTS = 30;
+// Keystrokes closer together than this are undone as one step.
+const TYPING_GROUP_MS = 1000;
+
+const EMPTY_HISTORY: FileHistory = { past: [], future: [] };
+
+/**
+ * Records that `path` held `previous` before a change. Consecutive typing is merged into
+ * one step; anything else (an AI answer, an import, a restore) always gets its own step.
+ */
+export const recordEdit = (histories: EditHistories, path: string, previous: string, source: HistorySource, now = Date.now()): EditHistories => {
+  const history = histories[path] ?? EMPTY_HISTORY;
+  const last = history.past[history.past.length - 1];
+  if (source === 'edit' && last?.source === 'edit' && history.future.length === 0 && now - last.timestamp < TYPING_GROUP_MS) {
+    // Keep the content from before the burst, but extend the burst.
+    return { ...histories, [path]: { past: [...history.past.slice(0, -1), { ...last, timestamp: now }], future: [] } };
+  }
+  const entry: HistoryEntry = { content: previous, source, timestamp: now };
+  return { ...histories, [path]: { past: [...history.past, entry].slice(-MAX_FILE_HISTORY), future: [] } };
+};
+
+/** Records every file whose content differs between two versions of the project as one step each. */
+export const recordProjectChange = (histories: EditHistories, before: ProjectNode[], after: ProjectNode[], source: HistorySource): EditHistories => {
+  const previous = new Map(flattenFiles(before).map(file => [file.name, file.content]));
+  return flattenFiles(after).reduce((current, file) => {
+    const content = previous.get(file.name);
+    return content === undefined || content === file.content ? current : recordEdit(current, file.name, content, source);
+  }, histories);
+};
+
+const step = (histories: EditHistories, path: string, current: string, direction: 'undo' | 'redo'): { histories: EditHistories; content: string } | null => {
+  const history = histories[path];
+  const from = direction === 'undo' ? history?.past : history?.future;
+  if (!from || from.length === 0) return null;
+  const target = from[from.length - 1];
+  const moved: HistoryEntry = { content: current, source: target.source, timestamp: 0 };
+  const next: FileHistory = direction === 'undo'
+    ? { past: history.past.slice(0, -1), future: [...history.future, moved] }
+    : { past: [...history.past, moved], future: history.future.slice(0, -1) };
+  return { histories: { ...histories, [path]: next }, content: target.content };
+};
+
+/** Returns the content `path` had before its last change, or null if there is nothing to undo. */
+export const undoEdit = (histories: EditHistories, path: string, current: string) => step(histories, path, current, 'undo');
+
+export const redoEdit = (histories: EditHistories, path: string, current: string) => step(histories, path, current, 'redo');
+
+/** Follows a rename or move so history stays attached to the file. */
+export const remapHistories = (histories: EditHistories, from: string, to: string): EditHistories =>
+  Object.fromEntries(Object.entries(histories).map(([path, history]) => [remapPath(path, from, to), history]));
+
+export const dropHistories = (histories: EditHistories, path: string): EditHistories =>
+  Object.fromEntries(Object.entries(histories).filter(([file]) => !isSameOrDescendant(file, path)));
+
+/** Adds a snapshot to the front of the timeline, dropping the oldest ones past the limit. */
+export const addSnapshot = (snapshots: ProjectSnapshot[], label: string, files: ProjectNode[]): ProjectSnapshot[] => [
+  {
+    id: typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `snap-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    label,
+    timestamp: Date.now(),
+    files,
+  },
+  ...snapshots,
+].slice(0, MAX_PROJECT_SNAPSHOTS);
+
+/**
+ * Where to put the cursor after `before` became `after`: the end of the changed region,
+ * so an undo leaves the cursor where the undone edit was.
+ */
+export const changedOffset = (before: string, after: string): number => {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < before.length - prefix && suffix < after.length - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  return after.length - suffix;
+};
@@ -0,0 +1,95 @@
+import { Language } from './tokenizer';
+import { VOID_ELEMENTS } from './codeStructure';
+
+/** The editor's text and selection after a key was handled. */
+export interface EditorEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '"': '"', '\'': '\'', '`': '`' };
+const QUOTES = new Set(['"', '\'', '`']);
+// An opening tag that the `>` being typed would finish.
+const UNFINISHED_TAG = /(^|[^\w$.])<([A-Za-z][\w:.-]*)(\s[^<>]*)?$/;
+
+const isScript = (language: Language) => language === 'javascript' || language === 'jsx' || language === 'typescript' || language === 'tsx';
+
+/** The file's indentation step: a tab, four spaces or (by default) two. */
+export const indentUnitFor = (text: string): string => {
+  if (/^\t/m.test(text)) return '\t';
+  if (/^ {4}\S/m.test(text) && !/^ {2}\S/m.test(text)) return '    ';
+  return '  ';
+};
+
+const replace = (text: string, start: number, end: number, insert: string, caret = start + insert.length): EditorEdit => ({
+  text: text.slice(0, start) + insert + text.slice(end),
+  selectionStart: caret,
+  selectionEnd: caret,
+});
+
+/**
+ * Auto-indents on Enter and auto-closes brackets, quotes and tags. Returns null when the key should
+ * be left to the textarea.
+ */
+export const handleEditorKey = (key: string, text: string, start: number, end: number, language: Language): EditorEdit | null => {
+  if (language === 'unknown') return null;
+  const before = text[start - 1] ?? '';
+  const after = text[end] ?? '';
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const linePrefix = text.slice(lineStart, start);
+  const indent = /^[ \t]*/.exec(linePrefix)![0];
+  const unit = indentUnitFor(text);
+
+  if (key === 'Enter') {
+    const opensBlock = before in CLOSERS && !QUOTES.has(before);
+    const betweenTags = before === '>' && text.startsWith('</', end) && !linePrefix.endsWith('/>');
+    if ((opensBlock && after === CLOSERS[before]) || betweenTags) {
+      // `{|}` becomes three lines with the cursor on the indented middle one.
+      const inner = `\n${indent}${unit}`;
+      return replace(text, start, end, `${inner}\n${indent}`, start + inner.length);
+    }
+    return replace(text, start, end, `\n${indent}${opensBlock ? unit : ''}`);
+  }
+
+  if (key === 'Backspace' && start === end && before in CLOSERS && after === CLOSERS[before]) {
+    return replace(text, start - 1, end + 1, '');
+  }
+
+  const isQuote = QUOTES.has(key) && (key !== '`' || isScript(language));
+  const isCloser = key === ')' || key === ']' || key === '}';
+  // Typing the closer that was inserted automatically just steps over it.
+  if ((isCloser || isQuote) && start === end && after === key) {
+    return { text, selectionStart: start + 1, selectionEnd: start + 1 };
+  }
+
+  if (isCloser) {
+    // A closer on an otherwise empty line goes back one level.
+    if (start === end && linePrefix.trim() === '' && indent.endsWith(unit)) return replace(text, start - unit.length, end, key);
+    return null;
+  }
+
+  if (key === '(' || key === '[' || key === '{' || isQuote) {
+    if (start !== end) {
+      // Wrap the selection instead of replacing it.
+      return { text: text.slice(0, start) + key + text.slice(start, end) + CLOSERS[key] + text.slice(end), selectionStart: start + 1, selectionEnd: end + 1 };
+    }
+    // Only pair up where nothing would be swallowed: before whitespace, a closer or the end of the line,
+    // and for quotes not straight after a word (`don't`).
+    const closes = after === '' || /[\s)\]};,>]/.test(after);
+    if (!closes || (isQuote && /[\w$]/.test(before))) return null;
+    return replace(text, start, end, key + CLOSERS[key], start + 1);
+  }
+
+  if (key === '>' && start === end && (language === 'html' || language === 'jsx' || language === 'tsx')) {
+    const tag = UNFINISHED_TAG.exec(linePrefix);
+    if (!tag || before === '/' || before === '=' || (language === 'html' && VOID_ELEMENTS.has(tag[2].toLowerCase()))) return null;
+    // Still inside an attribute value or a `{...}` expression, where `>` doesn't end the tag.
+    const attributes = tag[3] ?? '';
+    const count = (pattern: RegExp) => attributes.match(pattern)?.length ?? 0;
+    if (count(/"/g) % 2 || count(/'/g) % 2 || count(/\{/g) !== count(/\}/g)) return null;
+    return replace(text, start, end, `></${tag[2]}>`, start + 1);
+  }
+
+  return null;
+};
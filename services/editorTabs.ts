@@ -0,0 +1,107 @@
+import { EditorGroup, EditorLayout } from '../types';
+import { isSameOrDescendant, remapPath } from './fileTree';
+
+export const MAX_EDITOR_GROUPS = 2;
+
+export const EMPTY_EDITOR_LAYOUT: EditorLayout = { groups: [{ tabs: [], activeTab: null }], focusedGroup: 0 };
+
+/** A single group with `path` as its only tab, or an empty editor. */
+export const layoutForFile = (path: string | null): EditorLayout =>
+  path ? { groups: [{ tabs: [path], activeTab: path }], focusedGroup: 0 } : EMPTY_EDITOR_LAYOUT;
+
+/** The file shown in the focused group. */
+export const activeFileOf = (layout: EditorLayout): string | null => layout.groups[layout.focusedGroup]?.activeTab ?? null;
+
+const updateGroup = (layout: EditorLayout, index: number, update: (group: EditorGroup) => EditorGroup): EditorLayout => ({
+  ...layout,
+  groups: layout.groups.map((group, i) => (i === index ? update(group) : group)),
+});
+
+// Drops a tab; when it was the active one, its right neighbour (or else the left one) takes over.
+const withoutTab = (group: EditorGroup, path: string): EditorGroup => {
+  const index = group.tabs.indexOf(path);
+  if (index === -1) return group;
+  const tabs = group.tabs.filter(tab => tab !== path);
+  const activeTab = group.activeTab === path ? tabs[Math.min(index, tabs.length - 1)] ?? null : group.activeTab;
+  return { tabs, activeTab };
+};
+
+// Empty groups disappear, except the last one.
+const pruneGroups = (layout: EditorLayout): EditorLayout => {
+  const focused = layout.groups[layout.focusedGroup];
+  const groups = layout.groups.filter(group => group.tabs.length > 0);
+  if (groups.length === 0) return EMPTY_EDITOR_LAYOUT;
+  if (groups.length === layout.groups.length) return layout;
+  const focusedGroup = groups.indexOf(focused);
+  return { groups, focusedGroup: focusedGroup === -1 ? Math.min(layout.focusedGroup, groups.length - 1) : focusedGroup };
+};
+
+/** Shows `path` in a group (the focused one by default), opening a tab next to the current one if needed. */
+export const openTab = (layout: EditorLayout, path: string, groupIndex = layout.focusedGroup): EditorLayout => ({
+  ...updateGroup(layout, groupIndex, group => {
+    if (group.tabs.includes(path)) return { ...group, activeTab: path };
+    const tabs = [...group.tabs];
+    const insertAt = group.activeTab ? tabs.indexOf(group.activeTab) + 1 : tabs.length;
+    tabs.splice(insertAt, 0, path);
+    return { tabs, activeTab: path };
+  }),
+  focusedGroup: groupIndex,
+});
+
+export const focusGroup = (layout: EditorLayout, groupIndex: number): EditorLayout =>
+  layout.focusedGroup === groupIndex ? layout : { ...layout, focusedGroup: groupIndex };
+
+export const closeTab = (layout: EditorLayout, groupIndex: number, path: string): EditorLayout =>
+  pruneGroups(updateGroup(layout, groupIndex, group => withoutTab(group, path)));
+
+export const closeOtherTabs = (layout: EditorLayout, groupIndex: number, path: string): EditorLayout =>
+  updateGroup(layout, groupIndex, () => ({ tabs: [path], activeTab: path }));
+
+export const closeAllTabs = (layout: EditorLayout, groupIndex: number): EditorLayout =>
+  pruneGroups(updateGroup(layout, groupIndex, () => ({ tabs: [], activeTab: null })));
+
+/**
+ * Moves a tab to position `toIndex` of `toGroup`, which may be the group it came from
+ * (reordering) or the other one. The moved tab becomes active in its new group.
+ */
+export const moveTab = (layout: EditorLayout, fromGroup: number, path: string, toGroup: number, toIndex: number): EditorLayout => {
+  const source = layout.groups[fromGroup];
+  if (!source?.tabs.includes(path) || !layout.groups[toGroup]) return layout;
+  let next = layout;
+  if (fromGroup !== toGroup) {
+    next = updateGroup(next, fromGroup, group => withoutTab(group, path));
+  }
+  next = updateGroup(next, toGroup, group => {
+    const position = group.tabs.indexOf(path);
+    const tabs = group.tabs.filter(tab => tab !== path);
+    // Removing the tab from before the drop point shifts the drop point left by one.
+    const insertAt = Math.min(position !== -1 && position < toIndex ? toIndex - 1 : toIndex, tabs.length);
+    tabs.splice(insertAt, 0, path);
+    return { tabs, activeTab: path };
+  });
+  return pruneGroups({ ...next, focusedGroup: toGroup });
+};
+
+/** Opens `path` in the other group, creating it if the editor isn't split yet. */
+export const splitTab = (layout: EditorLayout, groupIndex: number, path: string): EditorLayout => {
+  if (layout.groups.length < MAX_EDITOR_GROUPS) {
+    return { groups: [...layout.groups, { tabs: [path], activeTab: path }], focusedGroup: layout.groups.length };
+  }
+  return openTab(layout, path, groupIndex === 0 ? 1 : 0);
+};
+
+/** Closes every tab showing `path` or something inside it, e.g. after a delete. */
+export const removeTabs = (layout: EditorLayout, path: string): EditorLayout =>
+  pruneGroups({
+    ...layout,
+    groups: layout.groups.map(group => group.tabs.filter(tab => isSameOrDescendant(tab, path)).reduce(withoutTab, group)),
+  });
+
+/** Follows a rename or move of `from` to `to` in every group. */
+export const remapTabs = (layout: EditorLayout, from: string, to: string): EditorLayout => ({
+  ...layout,
+  groups: layout.groups.map(group => ({
+    tabs: group.tabs.map(tab => remapPath(tab, from, to)),
+    activeTab: group.activeTab && remapPath(group.activeTab, from, to),
+  })),
+});
@@ -0,0 +1,164 @@
+import { DirectoryNode, FileChange, FileNode, ProjectNode } from '../types';
+
+// --- Path helpers ---
+
+/** Collapses '.', '..' and duplicate slashes. Returns '' for the project root. */
+export const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  path.replace(/\\/g, '/').split('/').forEach(segment => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') { segments.pop(); return; }
+    segments.push(segment);
+  });
+  return segments.join('/');
+};
+
+export const dirname = (path: string): string => {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+};
+
+export const basename = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+export const joinPath = (...parts: string[]): string => normalizePath(parts.filter(Boolean).join('/'));
+
+/** True when `path` is `ancestor` itself or lives somewhere below it. */
+export const isSameOrDescendant = (path: string, ancestor: string): boolean =>
+  path === ancestor || path.startsWith(`${ancestor}/`);
+
+/** Rewrites `path` as if `from` had been moved to `to`; unrelated paths are returned unchanged. */
+export const remapPath = (path: string, from: string, to: string): string =>
+  isSameOrDescendant(path, from) ? to + path.slice(from.length) : path;
+
+/**
+ * Resolves a reference found inside `fromFile` (e.g. an href or import specifier) to a
+ * project path. Returns null for external URLs, data URIs and in-page anchors.
+ */
+export const resolveRelativePath = (fromFile: string, reference: string): string | null => {
+  const cleaned = reference.trim().split(/[?#]/)[0];
+  if (!cleaned || /^[a-z][a-z0-9+.-]*:/i.test(cleaned) || cleaned.startsWith('//')) return null;
+  if (cleaned.startsWith('/')) return normalizePath(cleaned);
+  return joinPath(dirname(fromFile), cleaned);
+};
+
+/** The reference from `fromFile` to the project path `toPath`, like "../img/logo.png". */
+export const relativePath = (fromFile: string, toPath: string): string => {
+  const from = dirname(fromFile).split('/').filter(Boolean);
+  const to = toPath.split('/');
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+  const rest = to.slice(common).join('/');
+  return common === from.length ? `./${rest}` : '../'.repeat(from.length - common) + rest;
+};
+
+// --- Tree queries ---
+
+export const flattenFiles = (nodes: ProjectNode[]): FileNode[] =>
+  nodes.flatMap(node => (node.type === 'file' ? [node] : flattenFiles(node.children)));
+
+export const collectDirectories = (nodes: ProjectNode[]): string[] =>
+  nodes.flatMap(node => (node.type === 'directory' ? [node.name, ...collectDirectories(node.children)] : []));
+
+export const findNode = (nodes: ProjectNode[], path: string): ProjectNode | undefined => {
+  for (const node of nodes) {
+    if (node.name === path) return node;
+    if (node.type === 'directory' && isSameOrDescendant(path, node.name)) return findNode(node.children, path);
+  }
+  return undefined;
+};
+
+export const findFile = (nodes: ProjectNode[], path: string): FileNode | undefined => {
+  const node = findNode(nodes, path);
+  return node?.type === 'file' ? node : undefined;
+};
+
+// --- Tree construction and updates (all immutable) ---
+
+const sortNodes = (nodes: ProjectNode[]): ProjectNode[] =>
+  nodes
+    .map(node => (node.type === 'directory' ? { ...node, children: sortNodes(node.children) } : node))
+    .sort((a, b) => {
+      if (a.type !== b.type) return a.type === 'directory' ? -1 : 1;
+      return basename(a.name).localeCompare(basename(b.name));
+    });
+
+/** Builds a sorted tree from flat file paths, creating intermediate directories as needed. */
+export const buildTree = (files: FileNode[], directories: string[] = []): ProjectNode[] => {
+  const root: DirectoryNode = { name: '', type: 'directory', children: [] };
+  const directoryMap = new Map<string, DirectoryNode>([['', root]]);
+
+  const ensureDirectory = (path: string): DirectoryNode => {
+    const existing = directoryMap.get(path);
+    if (existing) return existing;
+    const parent = ensureDirectory(dirname(path));
+    const directory: DirectoryNode = { name: path, type: 'directory', children: [] };
+    parent.children.push(directory);
+    directoryMap.set(path, directory);
+    return directory;
+  };
+
+  directories.map(normalizePath).filter(Boolean).forEach(ensureDirectory);
+  files.forEach(file => {
+    const path = normalizePath(file.name);
+    if (!path) return;
+    ensureDirectory(dirname(path)).children.push({ ...file, name: path });
+  });
+  return sortNodes(root.children);
+};
+
+/** Replaces the content of the file at `path` with text; a binary file stops being binary. */
+export const updateFileContent = (nodes: ProjectNode[], path: string, content: string): ProjectNode[] =>
+  nodes.map(node => {
+    if (node.type === 'file') return node.name === path ? { name: node.name, content, type: 'file' } : node;
+    return isSameOrDescendant(path, node.name) ? { ...node, children: updateFileContent(node.children, path, content) } : node;
+  });
+
+/** Updates the file at `path`, or creates it (and its parent directories) if it doesn't exist. */
+export const upsertFile = (nodes: ProjectNode[], path: string, content: string): ProjectNode[] => {
+  const normalized = normalizePath(path);
+  if (findFile(nodes, normalized)) return updateFileContent(nodes, normalized, content);
+  return buildTree([...flattenFiles(nodes), { name: normalized, content, type: 'file' }], collectDirectories(nodes));
+};
+
+export const createDirectory = (nodes: ProjectNode[], path: string): ProjectNode[] =>
+  buildTree(flattenFiles(nodes), [...collectDirectories(nodes), path]);
+
+/** Removes a file, or a directory together with everything inside it. */
+export const removeNode = (nodes: ProjectNode[], path: string): ProjectNode[] =>
+  buildTree(
+    flattenFiles(nodes).filter(file => !isSameOrDescendant(file.name, path)),
+    collectDirectories(nodes).filter(directory => !isSameOrDescendant(directory, path))
+  );
+
+/** Renames or moves a file or directory. Callers are expected to validate the destination first. */
+export const moveNode = (nodes: ProjectNode[], from: string, to: string): ProjectNode[] =>
+  buildTree(
+    flattenFiles(nodes).map(file => ({ ...file, name: remapPath(file.name, from, to) })),
+    collectDirectories(nodes).map(directory => remapPath(directory, from, to))
+  );
+
+const hasFileAncestor = (nodes: ProjectNode[], path: string): string | null => {
+  for (let parent = dirname(path); parent; parent = dirname(parent)) {
+    if (findFile(nodes, parent)) return parent;
+  }
+  return null;
+};
+
+/**
+ * Applies a batch of model-proposed changes in order. Deleting a missing path is a no-op,
+ * and writes that would collide with an existing folder are skipped.
+ */
+export const applyFileChanges = (nodes: ProjectNode[], changes: FileChange[]): ProjectNode[] =>
+  changes.reduce((current, change) => {
+    if (change.type === 'delete') return removeNode(current, change.path);
+    if (findNode(current, change.path)?.type === 'directory' || hasFileAncestor(current, change.path)) return current;
+    return upsertFile(current, change.path, change.content);
+  }, nodes);
+
+/** Explains why `path` can't be used as a new node name, or returns null if it can. */
+export const validateNewPath = (nodes: ProjectNode[], path: string): string | null => {
+  if (!path) return 'The name cannot be empty.';
+  if (findNode(nodes, path)) return `"${path}" already exists.`;
+  const fileAncestor = hasFileAncestor(nodes, path);
+  return fileAncestor ? `"${fileAncestor}" is a file, not a folder.` : null;
+};
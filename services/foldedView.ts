@@ -0,0 +1,122 @@
+/**
+ * The editor shows a file with folded blocks left out, so the textarea's text (the "view") and the
+ * file's content differ whenever something is folded. These helpers translate between the two.
+ */
+export interface FoldedView {
+  text: string;
+  // For each line of the view, the line of the file it shows.
+  lines: number[];
+  // Where each view line starts, in the view text and in the file's content.
+  viewStarts: number[];
+  realStarts: number[];
+}
+
+/** Leaves out the lines inside each folded block; the opening and closing lines stay visible. */
+export const buildFoldedView = (lines: string[], folds: Map<number, number>, folded: Set<number>): FoldedView => {
+  const view: FoldedView = { text: '', lines: [], viewStarts: [], realStarts: [] };
+  const shown: string[] = [];
+  let realOffset = 0;
+  let viewOffset = 0;
+  for (let line = 0; line < lines.length; line++) {
+    view.lines.push(line);
+    view.viewStarts.push(viewOffset);
+    view.realStarts.push(realOffset);
+    shown.push(lines[line]);
+    viewOffset += lines[line].length + 1;
+    realOffset += lines[line].length + 1;
+    const end = folded.has(line) ? folds.get(line) : undefined;
+    if (end !== undefined) {
+      for (let hidden = line + 1; hidden < end; hidden++) realOffset += lines[hidden].length + 1;
+      line = end - 1;
+    }
+  }
+  view.text = shown.join('\n');
+  return view;
+};
+
+// The last index whose start is at or before `offset`.
+const lineAt = (starts: number[], offset: number): number => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (starts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+/** The view line showing the cursor at `offset` in the view text. */
+export const viewLineAt = (view: FoldedView, offset: number) => lineAt(view.viewStarts, offset);
+
+export const viewToReal = (view: FoldedView, offset: number): number => {
+  const line = lineAt(view.viewStarts, offset);
+  return view.realStarts[line] + offset - view.viewStarts[line];
+};
+
+/** Maps a file offset into the view; offsets inside a folded block land at the end of its opening line. */
+export const realToView = (view: FoldedView, offset: number): number => {
+  const line = lineAt(view.realStarts, offset);
+  const lineEnd = line + 1 < view.viewStarts.length ? view.viewStarts[line + 1] - 1 : view.text.length;
+  return Math.min(view.viewStarts[line] + offset - view.realStarts[line], lineEnd);
+};
+
+/** The view line showing file line `line`, or -1 if it's folded away. */
+export const viewLineOf = (view: FoldedView, line: number): number => {
+  const index = lineAt(view.lines, line);
+  return view.lines[index] === line ? index : -1;
+};
+
+export interface ViewEdit {
+  content: string;
+  // The file lines the edit replaced, and how many lines it added (or removed, if negative).
+  startLine: number;
+  endLine: number;
+  lineDelta: number;
+  // Where the cursor ends up in the file.
+  caret: number;
+}
+
+const countLines = (text: string) => text.split('\n').length - 1;
+
+/**
+ * Applies a change the user made to the view text back to the file. `caret` is where the cursor ended
+ * up, which settles where ambiguous edits happened: Enter at the end of a folded line inserts before
+ * the hidden block, not after it.
+ */
+export const applyViewEdit = (content: string, view: FoldedView, newText: string, caret: number): ViewEdit => {
+  const oldText = view.text;
+  let suffix = 0;
+  const maxSuffix = Math.min(oldText.length, newText.length - caret);
+  while (suffix < maxSuffix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) suffix++;
+  let prefix = 0;
+  const maxPrefix = Math.min(oldText.length, newText.length) - suffix;
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) prefix++;
+
+  const start = viewToReal(view, prefix);
+  const end = viewToReal(view, oldText.length - suffix);
+  const inserted = newText.slice(prefix, newText.length - suffix);
+  return {
+    content: content.slice(0, start) + inserted + content.slice(end),
+    startLine: view.lines[viewLineAt(view, prefix)],
+    endLine: view.lines[viewLineAt(view, oldText.length - suffix)],
+    lineDelta: countLines(inserted) - countLines(content.slice(start, end)),
+    caret: start + caret - prefix,
+  };
+};
+
+/**
+ * Keeps folds attached to their blocks after an edit. Folds below the edit move with it; folds the
+ * edit touched open up, except when typing on a folded block's first or last line without adding
+ * or removing lines.
+ */
+export const remapFolds = (folded: Set<number>, folds: Map<number, number>, edit: ViewEdit): Set<number> => {
+  const next = new Set<number>();
+  folded.forEach(line => {
+    const end = folds.get(line) ?? line;
+    if (end < edit.startLine) next.add(line);
+    else if (line > edit.endLine) next.add(line + edit.lineDelta);
+    else if (edit.startLine === edit.endLine && edit.lineDelta === 0 && (line === edit.startLine || end === edit.startLine)) next.add(line);
+  });
+  return next;
+};
@@ -0,0 +1,64 @@
+export interface FuzzyMatch {
+  score: number;
+  // Indices in the text of the characters the query matched, for highlighting.
+  indices: number[];
+}
+
+const isWordStart = (text: string, index: number) => {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  if (/[\s\-_./\\:]/.test(previous)) return true;
+  // camelCase boundaries count too, so "sp" finds "SearchPanel".
+  return /[a-z0-9]/.test(previous) && /[A-Z]/.test(text[index]);
+};
+
+const isSubsequence = (needle: string, haystack: string, from: number) => {
+  for (const char of needle) {
+    from = haystack.indexOf(char, from) + 1;
+    if (from === 0) return false;
+  }
+  return true;
+};
+
+/**
+ * Matches `query` against `text` as a case-insensitive subsequence, so "tgcon" finds "Toggle Console".
+ * Characters that follow one another or start a word score higher. Returns null when it doesn't match.
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.replace(/\s+/g, '').toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (let q = 0; q < needle.length; q++) {
+    let index = haystack.indexOf(needle[q], from);
+    if (index === -1) return null;
+    // Prefer a word start further on, so "cp" in "Command Palette" takes the P, as long as the rest still fits.
+    if (!isWordStart(text, index)) {
+      for (let i = haystack.indexOf(needle[q], index + 1); i !== -1; i = haystack.indexOf(needle[q], i + 1)) {
+        if (isWordStart(text, i) && isSubsequence(needle.slice(q + 1), haystack, i + 1)) {
+          index = i;
+          break;
+        }
+      }
+    }
+    const previous = indices[indices.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (isWordStart(text, index)) score += 8;
+    if (index === 0) score += 4;
+    indices.push(index);
+    from = index + 1;
+  }
+  // Between equally good matches, shorter texts rank first.
+  return { score: score - text.length * 0.01, indices };
+};
+
+/** Matches a file path, favouring hits in the file's name over hits in its directories. */
+export const fuzzyMatchPath = (query: string, path: string): FuzzyMatch | null => {
+  const nameStart = path.lastIndexOf('/') + 1;
+  const inName = fuzzyMatch(query, path.slice(nameStart));
+  if (inName) return { score: inName.score + 10, indices: inName.indices.map(index => index + nameStart) };
+  return fuzzyMatch(query, path);
+};
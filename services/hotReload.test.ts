@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { parseScrollMessage, stylesheetUpdate } from './hotReload';
+import { buildPreviewDocument } from './previewBuilder';
+
+const PAGE = '<html><head><link rel="stylesheet" href="site.css"><style>p { margin: 0; }</style></head><body><p>Hi</p></body></html>';
+
+const build = (contents: Record<string, string>) =>
+  buildPreviewDocument(Object.entries(contents).map(([name, content]): FileNode => ({ type: 'file', name, content }))).html;
+
+describe('stylesheetUpdate', () => {
+  const before = build({ 'index.html': PAGE, 'site.css': 'body { color: red; }' });
+
+  it('returns every stylesheet by id when only CSS changed', () => {
+    const after = build({ 'index.html': PAGE, 'site.css': 'body { color: blue; }' });
+    expect(stylesheetUpdate(before, after)).toEqual({ 0: 'body { color: blue; }', 1: 'p { margin: 0; }' });
+  });
+
+  it('picks up edits to a <style> block in the page itself', () => {
+    const after = build({ 'index.html': PAGE.replace('margin: 0', 'margin: 1em'), 'site.css': 'body { color: red; }' });
+    expect(stylesheetUpdate(before, after)).toEqual({ 0: 'body { color: red; }', 1: 'p { margin: 1em; }' });
+  });
+
+  it('asks for a reload when the markup changed as well', () => {
+    const after = build({ 'index.html': PAGE.replace('Hi', 'Hello'), 'site.css': 'body { color: blue; }' });
+    expect(stylesheetUpdate(before, after)).toBeNull();
+  });
+
+  it('asks for a reload when a stylesheet is added or removed', () => {
+    const after = build({ 'index.html': PAGE.replace('<style>p { margin: 0; }</style>', ''), 'site.css': 'body { color: red; }' });
+    expect(stylesheetUpdate(before, after)).toBeNull();
+  });
+
+  it('does not see a change to a stylesheet the page does not use', () => {
+    const after = build({ 'index.html': PAGE, 'site.css': 'body { color: red; }', 'other.css': 'body { color: green; }' });
+    expect(after).toBe(before);
+    expect(stylesheetUpdate(before, after)).toEqual({ 0: 'body { color: red; }', 1: 'p { margin: 0; }' });
+  });
+});
+
+describe('parseScrollMessage', () => {
+  it('accepts only scroll reports from the bridge', () => {
+    expect(parseScrollMessage({ source: 'codenix-hot-reload', type: 'scroll', x: 0, y: 120 })).toEqual({ x: 0, y: 120 });
+    expect(parseScrollMessage({ source: 'codenix-hot-reload', type: 'scroll', x: '0', y: 120 })).toBeNull();
+    expect(parseScrollMessage({ source: 'other', type: 'scroll', x: 0, y: 120 })).toBeNull();
+    expect(parseScrollMessage(null)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { prependToHead } from './consoleBridge';
+
+export const HOT_RELOAD_MESSAGE_SOURCE = 'codenix-hot-reload';
+
+// Numbers every <style> the preview builder writes, so an edited stylesheet can be found again in the live page.
+export const STYLE_ID_ATTRIBUTE = 'data-codenix-style';
+
+export type HotReloadCommand =
+  | { type: 'styles'; styles: Record<string, string> }
+  | { type: 'scroll'; x: number; y: number };
+
+// Runs inside the preview frame. It swaps in stylesheets sent by the IDE without reloading the
+// page, reports where the page is scrolled to, and scrolls back there after a reload. Pages
+// that render with scripts may not be tall enough right away, so restoring retries for a moment
+// unless the user starts scrolling themselves.
+const BRIDGE_SCRIPT = `(function () {
+  var SOURCE = '${HOT_RELOAD_MESSAGE_SOURCE}';
+  var ATTRIBUTE = '${STYLE_ID_ATTRIBUTE}';
+  var restoring = false;
+
+  function reportScroll() {
+    window.parent.postMessage({ source: SOURCE, type: 'scroll', x: window.scrollX, y: window.scrollY }, '*');
+  }
+
+  function restoreScroll(x, y) {
+    var attempts = 0;
+    restoring = true;
+    function stop() { attempts = Infinity; }
+    ['wheel', 'touchstart', 'keydown', 'mousedown'].forEach(function (type) {
+      window.addEventListener(type, stop, { once: true, passive: true });
+    });
+    (function attempt() {
+      window.scrollTo(x, y);
+      var reached = Math.abs(window.scrollX - x) <= 1 && Math.abs(window.scrollY - y) <= 1;
+      if (!reached && ++attempts < 20) return setTimeout(attempt, 100);
+      restoring = false;
+      reportScroll();
+    })();
+  }
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== window.parent || !data || data.source !== SOURCE) return;
+    if (data.type === 'styles') {
+      Object.keys(data.styles).forEach(function (id) {
+        var style = document.querySelector('style[' + ATTRIBUTE + '="' + id + '"]');
+        if (style && style.textContent !== data.styles[id]) style.textContent = data.styles[id];
+      });
+    } else if (data.type === 'scroll') {
+      restoreScroll(data.x, data.y);
+    }
+  });
+
+  var queued = false;
+  window.addEventListener('scroll', function () {
+    if (queued || restoring) return;
+    queued = true;
+    requestAnimationFrame(function () {
+      queued = false;
+      reportScroll();
+    });
+  }, { passive: true });
+})();`;
+
+export const injectHotReloadBridge = (html: string): string => prependToHead(html, `<script>${BRIDGE_SCRIPT}</script>`);
+
+export const postHotReloadCommand = (frame: Window, command: HotReloadCommand) => {
+  frame.postMessage({ source: HOT_RELOAD_MESSAGE_SOURCE, ...command }, '*');
+};
+
+/** The scroll position reported by a preview frame, or null for any other message. */
+export const parseScrollMessage = (data: unknown): { x: number; y: number } | null => {
+  if (!data || typeof data !== 'object') return null;
+  const { source, type, x, y } = data as Record<string, unknown>;
+  if (source !== HOT_RELOAD_MESSAGE_SOURCE || type !== 'scroll' || typeof x !== 'number' || typeof y !== 'number') return null;
+  return { x, y };
+};
+
+const NUMBERED_STYLE_PATTERN = new RegExp(`(<style\\b[^>]*\\s${STYLE_ID_ATTRIBUTE}="(\\d+)"[^>]*>)([\\s\\S]*?)(<\\/style>)`, 'gi');
+
+/**
+ * When two builds of a page differ only in the content of their stylesheets, returns the
+ * stylesheets of `next` by id, so they can be swapped into the live page. Returns null when
+ * anything else changed and the page has to be reloaded.
+ */
+export const stylesheetUpdate = (previous: string, next: string): Record<string, string> | null => {
+  const styles: Record<string, string> = {};
+  const withoutStyles = (html: string, collect?: Record<string, string>) =>
+    html.replace(NUMBERED_STYLE_PATTERN, (_, open: string, id: string, css: string, close: string) => {
+      if (collect) collect[id] = css;
+      return open + close;
+    });
+  return withoutStyles(previous) === withoutStyles(next, styles) ? styles : null;
+};
@@ -0,0 +1,79 @@
+import { KeybindingOverrides } from '../types';
+
+const KEYBINDINGS_STORAGE_KEY = 'codenix.keybindings';
+
+// "Mod" is Cmd on macOS and Ctrl everywhere else, so one default works on both.
+export const DEFAULT_KEYBINDINGS: Record<string, string> = {
+  'palette.commands': 'Mod+Shift+P',
+  'palette.quickOpen': 'Mod+P',
+  'search.show': 'Mod+Shift+F',
+  'file.new': 'Alt+N',
+  'folder.new': 'Alt+Shift+N',
+  'project.download': 'Mod+Alt+S',
+  'project.history': 'Mod+Alt+H',
+  'console.toggle': 'Mod+`',
+  'preview.refresh': 'Mod+Alt+R',
+  'preview.fullscreen': 'Mod+Alt+F',
+  'preview.devices': 'Mod+Alt+D',
+  'editor.nextTab': 'Alt+PageDown',
+  'editor.previousTab': 'Alt+PageUp',
+  'editor.closeTab': 'Alt+W',
+  'editor.split': 'Mod+\\',
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Physical keys whose `key` changes with Shift or Alt (`!` for 1, `ß` for S on a Mac), so `code` is used instead.
+const KEY_FROM_CODE: Record<string, string> = {
+  Backquote: '`', Minus: '-', Equal: '=', BracketLeft: '[', BracketRight: ']', Backslash: '\\',
+  Semicolon: ';', Quote: '\'', Comma: ',', Period: '.', Slash: '/',
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta']);
+
+/** The key combination of a keydown, in the same "Mod+Shift+P" form as the bindings; null for a bare modifier. */
+export const keyCombination = (e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  let key = e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit\d$/.test(e.code)) key = e.code.slice(5);
+  else if (KEY_FROM_CODE[e.code]) key = KEY_FROM_CODE[e.code];
+  const parts: string[] = [];
+  if (isMac ? e.metaKey : e.ctrlKey) parts.push('Mod');
+  if (isMac && e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  return [...parts, key === ' ' ? 'Space' : key].join('+');
+};
+
+/** Whether a combination is safe to catch while typing in a text field, i.e. it can't produce text. */
+export const isCommandCombination = (combination: string) =>
+  /(^|\+)(Mod|Ctrl|Alt)\+/.test(combination) || /(^|\+)F\d{1,2}$/.test(combination);
+
+/** Shows a combination the way the platform writes shortcuts: ⌘⇧P on a Mac, Ctrl+Shift+P elsewhere. */
+export const formatKeybinding = (combination: string): string => {
+  const parts = combination.split('+');
+  if (!isMac) return parts.map(part => (part === 'Mod' ? 'Ctrl' : part)).join('+');
+  const symbols: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' };
+  return parts.map(part => symbols[part] ?? part).join('');
+};
+
+/** The binding each command ends up with: the user's choice if they made one, otherwise the default. */
+export const resolveKeybindings = (overrides: KeybindingOverrides): Record<string, string | null> => ({
+  ...DEFAULT_KEYBINDINGS,
+  ...overrides,
+});
+
+export const loadKeybindingOverrides = (): KeybindingOverrides => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(KEYBINDINGS_STORAGE_KEY) || '{}');
+    if (!stored || typeof stored !== 'object') return {};
+    return Object.fromEntries(Object.entries(stored).filter(([, value]) => value === null || typeof value === 'string')) as KeybindingOverrides;
+  } catch {
+    return {};
+  }
+};
+
+export const saveKeybindingOverrides = (overrides: KeybindingOverrides) => {
+  localStorage.setItem(KEYBINDINGS_STORAGE_KEY, JSON.stringify(overrides));
+};
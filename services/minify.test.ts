@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { hasModuleSyntax, minifyCss, minifyHtml } from './minify';
+
+describe('minifyCss', () => {
+  it('drops comments and the whitespace around separators', () => {
+    expect(minifyCss('/* header */\nbody {\n  color: red;\n  margin: 0 auto;\n}\n\na > b, c { top: 0; }')).toBe('body{color:red;margin:0 auto}a>b,c{top:0}');
+  });
+
+  it('keeps strings exactly as written', () => {
+    expect(minifyCss('a::before { content: "  /* not a comment */  ; }"; }')).toBe('a::before{content:"  /* not a comment */  ; }"}');
+    expect(minifyCss("q::after { content: 'it\\'s  } here'; }")).toBe("q::after{content:'it\\'s  } here'}");
+  });
+
+  it('keeps the spaces calc() needs around + and -', () => {
+    expect(minifyCss('div { width: calc( 100% - 2 * var(--gap) ); margin: -1px 0 }')).toBe('div{width:calc( 100% - 2 * var(--gap) );margin:-1px 0}');
+  });
+
+  it('keeps the descendant space before a pseudo-class', () => {
+    expect(minifyCss('a :hover { color: red }\na:hover { color: blue }')).toBe('a :hover{color:red}a:hover{color:blue}');
+  });
+
+  it('keeps a comment from joining the words around it', () => {
+    expect(minifyCss('.a/**/.b { margin: 1px/* x */2px }')).toBe('.a .b{margin:1px 2px}');
+  });
+
+  it('copes with an unterminated comment or string', () => {
+    expect(minifyCss('a { color: red } /* trailing')).toBe('a{color:red}');
+    expect(minifyCss('a { content: "open\n}')).toBe('a{content:"open\n}');
+  });
+});
+
+describe('minifyHtml', () => {
+  it('collapses runs of whitespace and trims the document', async () => {
+    expect(await minifyHtml('\n  <ul>\n    <li>One</li>\n\t\t<li>Two  words</li>\n  </ul>\n')).toBe('<ul> <li>One</li> <li>Two words</li> </ul>');
+  });
+
+  it('keeps the whitespace of <pre> and <textarea>', async () => {
+    const html = '<pre>\n  indented\n    more\n</pre>  <textarea>\n a  b\n</textarea>';
+    expect(await minifyHtml(html)).toBe(html.replace('</pre>  <textarea>', '</pre> <textarea>'));
+  });
+
+  it('drops comments but keeps conditional ones', async () => {
+    expect(await minifyHtml('<p>a</p> <!-- note --> <!--[if IE]><p>old</p><![endif]--> <p>b</p>')).toBe('<p>a</p> <!--[if IE]><p>old</p><![endif]--> <p>b</p>');
+  });
+
+  it('minifies inline styles and scripts, but not scripts it does not understand', async () => {
+    const html = [
+      '<style>\n  p { color: red; }\n</style>',
+      '<script>\n  var message = "</scr" + "ipt>";\n  console.log( message );\n</script>',
+      '<script type="importmap">\n{ "imports": { "a": "./a.js" } }\n</script>',
+      '<script type="text/template">\n  <p>  {{ name }} </p>\n</script>',
+      '<script src="app.js">\n</script>',
+    ].join('\n');
+    expect(await minifyHtml(html)).toBe([
+      '<style>p{color:red}</style>',
+      '<script>var message="<\\/script>";console.log(message);</script>',
+      '<script type="importmap">{"imports":{"a":"./a.js"}}</script>',
+      '<script type="text/template">\n  <p>  {{ name }} </p>\n</script>',
+      '<script src="app.js">\n</script>',
+    ].join(' '));
+  });
+});
+
+describe('hasModuleSyntax', () => {
+  it('looks for import and export statements', () => {
+    expect(hasModuleSyntax("import React from 'react';")).toBe(true);
+    expect(hasModuleSyntax("import './side-effect.js';")).toBe(true);
+    expect(hasModuleSyntax('export default 1;')).toBe(true);
+    expect(hasModuleSyntax("const lazy = import('./a.js');")).toBe(false);
+    expect(hasModuleSyntax('// importantThing()\nvar exported = 1;')).toBe(false);
+  });
+});
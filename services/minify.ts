@@ -0,0 +1,103 @@
+// Whitespace next to these can go in CSS without changing its meaning.
+const CSS_SEPARATORS = '{};,>';
+
+/** Drops comments and the whitespace CSS doesn't need. Strings are kept exactly as written. */
+export const minifyCss = (css: string): string => {
+  let output = '';
+  let pendingSpace = false;
+  let i = 0;
+  while (i < css.length) {
+    const char = css[i];
+    if (char === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      i = end === -1 ? css.length : end + 2;
+      pendingSpace = true;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      pendingSpace = true;
+      i++;
+      continue;
+    }
+    const previous = output[output.length - 1];
+    if (pendingSpace && output && !CSS_SEPARATORS.includes(previous) && previous !== ':' && !CSS_SEPARATORS.includes(char)) output += ' ';
+    pendingSpace = false;
+    if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < css.length && css[end] !== char && css[end] !== '\n') end += css[end] === '\\' ? 2 : 1;
+      output += css.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    // The last declaration of a block doesn't need its semicolon.
+    if (char === '}' && previous === ';') output = output.slice(0, -1);
+    output += char;
+    i++;
+  }
+  return output;
+};
+
+/**
+ * Minifies JavaScript with terser, which is loaded the first time it's needed. Top-level names are
+ * only renamed in modules, since a classic script's top-level names are globals other scripts use.
+ */
+export const minifyJavaScript = async (code: string, isModule: boolean): Promise<string> => {
+  const { minify } = await import('terser');
+  const result = await minify(code, { module: isModule, format: { comments: false } });
+  return result.code ?? code;
+};
+
+/** Whether code is an ES module rather than a classic script, going by its import and export statements. */
+export const hasModuleSyntax = (code: string) => /^\s*(import\s*[\w${*'"]|export\s)/m.test(code);
+
+// Elements whose content is kept as it is, or minified as code, rather than having its whitespace collapsed.
+const HTML_RAW_PATTERN = /<!--[\s\S]*?-->|<script\b([^>]*)>([\s\S]*?)<\/script\s*>|<style\b([^>]*)>([\s\S]*?)<\/style\s*>|<(pre|textarea)\b[\s\S]*?<\/\5\s*>/gi;
+
+const scriptType = (attributes: string) => (attributes.match(/\stype\s*=\s*["']?([^"'\s>]+)/i)?.[1] ?? '').toLowerCase();
+
+const minifyInlineScript = async (attributes: string, code: string): Promise<string> => {
+  const type = scriptType(attributes);
+  if (type === 'importmap' || type === 'application/json' || type === 'application/ld+json') {
+    try {
+      return JSON.stringify(JSON.parse(code));
+    } catch {
+      return code;
+    }
+  }
+  if (type && type !== 'module' && type !== 'text/javascript' && type !== 'application/javascript') return code;
+  // Closing-tag escapes are restored afterwards, since the minifier would turn them back into "</script".
+  const minified = await minifyJavaScript(code, type === 'module');
+  return minified.replace(/<\/(script)/gi, '<\\/$1');
+};
+
+/**
+ * Collapses runs of whitespace in HTML to single spaces and drops comments, except inside
+ * <pre> and <textarea>. Inline scripts and styles are minified as JavaScript and CSS.
+ */
+export const minifyHtml = async (html: string): Promise<string> => {
+  const parts: string[] = [];
+  // Text on both sides of a dropped comment would otherwise leave two spaces where it was.
+  const pushText = (text: string) => {
+    const collapsed = text.replace(/\s+/g, ' ');
+    parts.push(parts[parts.length - 1]?.endsWith(' ') ? collapsed.replace(/^ /, '') : collapsed);
+  };
+  let last = 0;
+  for (const match of html.matchAll(HTML_RAW_PATTERN)) {
+    pushText(html.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const [tag, scriptAttributes, scriptBody, styleAttributes, styleBody] = match;
+    if (tag.startsWith('<!--')) {
+      // Conditional comments still mean something to old browsers.
+      if (/^<!--\[if\b/i.test(tag)) parts.push(tag);
+    } else if (scriptAttributes !== undefined) {
+      const minified = /\ssrc\s*=/i.test(scriptAttributes) ? scriptBody : await minifyInlineScript(scriptAttributes, scriptBody);
+      parts.push(`<script${scriptAttributes}>${minified}</script>`);
+    } else if (styleAttributes !== undefined) {
+      parts.push(`<style${styleAttributes}>${minifyCss(styleBody)}</style>`);
+    } else {
+      parts.push(tag);
+    }
+  }
+  pushText(html.slice(last));
+  return parts.join('').trim();
+};
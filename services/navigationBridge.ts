@@ -0,0 +1,63 @@
+import { FileNode } from '../types';
+import { joinPath, resolveRelativePath } from './fileTree';
+import { prependToHead } from './consoleBridge';
+
+export const NAVIGATION_MESSAGE_SOURCE = 'codenix-navigation';
+
+// Runs inside the preview frame. A srcdoc page has no URL, so following a relative link would go
+// nowhere; clicks on them are handed to the IDE instead, which loads the project file they point at.
+const bridgeScript = (hash: string) => `(function () {
+  var SOURCE = '${NAVIGATION_MESSAGE_SOURCE}';
+  document.addEventListener('click', function (event) {
+    if (event.defaultPrevented || event.button !== 0) return;
+    var link = event.target instanceof Element ? event.target.closest('a[href], area[href]') : null;
+    if (!link || link.hasAttribute('download')) return;
+    var href = link.getAttribute('href');
+    if (!href || href.charAt(0) === '#' || href.indexOf('//') === 0 || /^[a-z][a-z0-9+.-]*:/i.test(href)) return;
+    event.preventDefault();
+    window.parent.postMessage({ source: SOURCE, href: href }, '*');
+  });
+  var hash = ${JSON.stringify(hash).replace(/</g, '\\u003c')};
+  if (hash) {
+    document.addEventListener('DOMContentLoaded', function () {
+      var id = hash;
+      // A hand-typed address can hold a stray "%"; look that up as written.
+      try { id = decodeURIComponent(hash); } catch (error) {}
+      var target = document.getElementById(id);
+      if (target) target.scrollIntoView();
+    });
+  }
+})();`;
+
+/** Injects the navigation bridge; `hash` is the fragment to scroll to once the page has loaded. */
+export const injectNavigationBridge = (html: string, hash = ''): string => prependToHead(html, `<script>${bridgeScript(hash)}</script>`);
+
+/** The href of a link the user followed in the preview, or null for any other message. */
+export const parseNavigationMessage = (data: unknown): string | null => {
+  if (!data || typeof data !== 'object') return null;
+  const { source, href } = data as Record<string, unknown>;
+  return source === NAVIGATION_MESSAGE_SOURCE && typeof href === 'string' ? href : null;
+};
+
+/** Splits a preview address like "blog/post.html#comments" into the page's path and the fragment. */
+export const splitPreviewAddress = (address: string): { path: string; hash: string } => {
+  const index = address.indexOf('#');
+  return index === -1 ? { path: address, hash: '' } : { path: address.slice(0, index), hash: address.slice(index + 1) };
+};
+
+/**
+ * Resolves a link followed from `fromPage` to the address of a project page, trying "about" as
+ * "about.html" and a folder as its index.html the way a static host would. Returns null for links
+ * that leave the project. Pages that don't exist still resolve, so the preview can say so.
+ */
+export const resolvePageLink = (files: FileNode[], fromPage: string, href: string): string | null => {
+  const path = resolveRelativePath(fromPage, href);
+  if (path === null) return null;
+  const hashIndex = href.indexOf('#');
+  const hash = hashIndex === -1 ? '' : href.slice(hashIndex);
+  const candidates = href.split(/[?#]/)[0].endsWith('/') || path === ''
+    ? [joinPath(path, 'index.html')]
+    : [path, `${path}.html`, joinPath(path, 'index.html')];
+  const page = candidates.find(candidate => files.some(file => file.name === candidate)) ?? candidates[0];
+  return page + hash;
+};
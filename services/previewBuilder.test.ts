@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { buildPreviewDocument, buildStandaloneDocument } from './previewBuilder';
+import { DEFAULT_PREVIEW_SETTINGS } from './previewSettings';
+
+const project = (contents: Record<string, string>): FileNode[] =>
+  Object.entries(contents).map(([name, content]) => ({ type: 'file', name, content }));
+
+const build = (files: FileNode[], page = 'index.html') => {
+  const result = buildStandaloneDocument(files, page);
+  if (!result) throw new Error(`${page} is not in the project`);
+  return result;
+};
+
+const decodeDataUrl = (url: string) => decodeURIComponent(url.slice(url.indexOf(',') + 1));
+
+const importMapOf = (html: string): Record<string, string> => {
+  const match = /<script type="importmap">([\s\S]*?)<\/script>/.exec(html);
+  return match ? JSON.parse(match[1]).imports : {};
+};
+
+describe('modules', () => {
+  const FILES = project({
+    'index.html': '<html><head></head><body><script type="module" src="js/main.js"></script></body></html>',
+    'js/main.js': "import { greet } from './lib/greet';\nimport React from 'react';\ngreet(React);",
+    'js/lib/greet.js': "import '../../shared/index';\nexport const greet = () => {};",
+    'shared/index.js': "import { greet } from '../js/lib/greet.js';\nexport default greet;",
+    'js/unused.js': 'export const unused = 1;',
+  });
+
+  it('maps every reachable project module and package in one import map', () => {
+    const imports = importMapOf(build(FILES).html);
+    expect(Object.keys(imports).sort()).toEqual([
+      '@codenix-project/js/lib/greet.js',
+      '@codenix-project/js/main.js',
+      '@codenix-project/shared/index.js',
+      'react',
+    ]);
+    expect(imports.react).toBe(`${DEFAULT_PREVIEW_SETTINGS.cdnUrl.replace(/\/*$/, '/')}react`);
+  });
+
+  it('resolves relative imports, with or without an extension, to project modules', () => {
+    const imports = importMapOf(build(FILES).html);
+    const main = decodeDataUrl(imports['@codenix-project/js/main.js']);
+    expect(main).toContain("from '@codenix-project/js/lib/greet.js'");
+    expect(main).toContain("from 'react'");
+    expect(decodeDataUrl(imports['@codenix-project/js/lib/greet.js'])).toContain("import '@codenix-project/shared/index.js'");
+    expect(decodeDataUrl(imports['@codenix-project/shared/index.js'])).toContain("from '@codenix-project/js/lib/greet.js'");
+  });
+
+  it('serves the page script from the same URL the import map gives it', () => {
+    const { html } = build(FILES);
+    const src = /<script type="module" src="([^"]+)"/.exec(html)![1];
+    expect(src).toBe(importMapOf(html)['@codenix-project/js/main.js']);
+  });
+
+  it('adds its entries to an import map the page already has', () => {
+    const files = project({
+      'index.html': '<head><script type="importmap">{"imports":{"react":"https://example.com/react.js"}}</script></head><script type="module">import "./app.js";</script>',
+      'app.js': "import 'react';",
+    });
+    const { html, problems } = build(files);
+    expect(html.match(/type="importmap"/g)).toHaveLength(1);
+    expect(importMapOf(html)).toMatchObject({ react: 'https://example.com/react.js', '@codenix-project/app.js': expect.any(String) });
+    expect(problems).toEqual([]);
+  });
+
+  it('reports imports that do not resolve and leaves them as they are', () => {
+    const files = project({
+      'index.html': '<script type="module">import "./missing.js";</script>',
+      'a.js': "import { b } from './b';",
+    });
+    expect(build(files).problems).toEqual(['Cannot resolve import "./missing.js" in index.html.']);
+    const nested = project({ 'index.html': '<script type="module" src="a.js"></script>', 'a.js': "import { b } from './b';" });
+    expect(build(nested).problems).toEqual(['Cannot resolve import "./b" in a.js.']);
+  });
+
+  it('reports an import map that is not valid JSON', () => {
+    const files = project({ 'index.html': '<script type="importmap">{oops}</script><script type="module">import "react";</script>' });
+    expect(build(files).problems).toEqual(['The import map in index.html is not valid JSON.']);
+  });
+});
+
+describe('stylesheets and scripts', () => {
+  it('inlines linked stylesheets with the files they refer to', () => {
+    const files: FileNode[] = [
+      ...project({
+        'pages/about.html': '<head><link rel="stylesheet" href="../css/site.css" media="print"></head>',
+        'css/site.css': "@import 'base.css';\nbody { background: url(../img/bg.png); }",
+        'css/base.css': 'html { margin: 0; }',
+      }),
+      { type: 'file', name: 'img/bg.png', content: 'data:image/png;base64,AA==', binary: true },
+    ];
+    const { html, problems } = build(files, 'pages/about.html');
+    expect(problems).toEqual([]);
+    expect(html).not.toContain('<link');
+    expect(html).toContain('<style data-codenix-style="0" data-href="css/site.css" media="print">');
+    expect(html).toContain('url("data:image/png;base64,AA==")');
+    const imported = /@import '([^']+)'/.exec(html)![1];
+    expect(decodeDataUrl(imported)).toBe('html { margin: 0; }');
+  });
+
+  it('inlines classic scripts and keeps their code from closing the tag', () => {
+    const files = project({
+      'index.html': '<body><script src="./app.js" defer></script></body>',
+      'app.js': 'document.body.innerHTML = "</script>";',
+    });
+    const { html } = build(files);
+    expect(html).toContain('<script defer>document.body.innerHTML = "<\\/script>";\n//# sourceURL=app.js</script>');
+  });
+
+  it('leaves remote references alone', () => {
+    const page = '<link rel="stylesheet" href="https://example.com/a.css"><script src="https://example.com/a.js"></script><img src="//example.com/a.png">';
+    expect(build(project({ 'index.html': page }))).toEqual({ html: page, problems: [] });
+  });
+
+  it('reports the files a page refers to that are missing', () => {
+    const files = project({
+      'index.html': '<link rel="stylesheet" href="missing.css"><script src="missing.js"></script><img src="missing.png"><a href="missing.html">x</a>',
+    });
+    expect(build(files).problems).toEqual([
+      'Stylesheet "missing.css" referenced by index.html was not found.',
+      'Script "missing.js" referenced by index.html was not found.',
+      '"missing.png" referenced by index.html was not found.',
+    ]);
+  });
+
+  it('stops at an @import cycle', () => {
+    const files = project({
+      'index.html': '<link rel="stylesheet" href="a.css">',
+      'a.css': "@import 'b.css';",
+      'b.css': "@import 'a.css';",
+    });
+    const { html } = build(files);
+    expect(decodeDataUrl(/@import '([^']+)'/.exec(html)![1])).toBe("@import 'a.css';");
+  });
+});
+
+describe('buildPreviewDocument', () => {
+  it('opens the entry page, or says when there is none', () => {
+    expect(buildPreviewDocument(project({ 'about.html': '<p>About</p>' })).html).toContain('<p>About</p>');
+    expect(buildPreviewDocument(project({ 'style.css': '' })).html).toContain('No HTML file found');
+  });
+
+  it('opens the page at an address, or shows that it is missing', () => {
+    const files = project({ 'index.html': '<p>Home</p>', 'about.html': '<p>About</p>' });
+    expect(buildPreviewDocument(files, { address: 'about.html#team' }).html).toContain('<p>About</p>');
+    expect(buildPreviewDocument(files, { address: 'contact.html' }).html).toContain('There is no <code>contact.html</code>');
+  });
+
+  it('adds the security policy that a standalone page leaves out', () => {
+    const files = project({ 'index.html': '<html><head></head><body></body></html>' });
+    expect(buildPreviewDocument(files).html).toContain('http-equiv="Content-Security-Policy"');
+    expect(build(files).html).toBe('<html><head></head><body></body></html>');
+  });
+
+  it('returns problems for the IDE console instead of writing them into the page', () => {
+    const files = project({ 'index.html': '<html><head><script src="missing.js"></script></head></html>' });
+    const { html, problems } = buildPreviewDocument(files);
+    expect(problems).toEqual(['Script "missing.js" referenced by index.html was not found.']);
+    expect(html).not.toContain('console.error("Script');
+  });
+});
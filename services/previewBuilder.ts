@@ -0,0 +1,363 @@
+import { FileNode, PreviewSettings } from '../types';
+import { resolveRelativePath } from './fileTree';
+import { injectConsoleBridge, prependToHead } from './consoleBridge';
+import { injectNavigationBridge, splitPreviewAddress } from './navigationBridge';
+import { mimeTypeFor } from './projectImport';
+import { FALLBACK_FILE_NAME } from './responseParser';
+import { CompiledModule, needsTranspiling } from './transpiler';
+import { DEFAULT_PREVIEW_SETTINGS, bareImportMap } from './previewSettings';
+import { STYLE_ID_ATTRIBUTE, injectHotReloadBridge } from './hotReload';
+import { contentSecurityPolicyTag, injectSecurityGuard } from './previewSecurity';
+
+/**
+ * Turns the project into a single document for the preview frame. A srcdoc frame has no URL that
+ * relative paths could resolve against, so the files the page references are inlined (stylesheets,
+ * classic scripts) or served as data: URLs (modules), with an import map tying each module's
+ * imports back to the right project file. Packages imported by name load from a CDN, and images,
+ * fonts and other assets are embedded as data: URLs. The frame runs on an opaque origin, under the
+ * Content-Security-Policy from the preview settings.
+ */
+
+// Import-map keys for project modules. Imports between project files are rewritten to these, so a
+// module can be served from any URL (and cycles between modules still work).
+const PROJECT_MODULE_PREFIX = '@codenix-project/';
+
+// Tried in order for imports without an extension, as bundlers do.
+const MODULE_EXTENSIONS = ['', '.js', '.mjs', '.ts', '.tsx', '.jsx', '/index.js', '/index.ts', '/index.tsx'];
+
+const NO_HTML_DOCUMENT = '<h1>No HTML file found to preview.</h1><p>Ask the AI to generate a complete webpage.</p>';
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const notFoundDocument = (path: string) =>
+  `<html><head></head><body style="font-family: sans-serif; padding: 2rem; color: #374151"><h1>Page not found</h1><p>There is no <code>${escapeHtml(path)}</code> in this project.</p></body></html>`;
+
+// `import x from '…'`, `import '…'`, `export … from '…'` and `import('…')`.
+const IMPORT_PATTERN = /(\bimport\s*(?:[\w$*{}\s,]+?\s*from\s*)?|\bexport\s*[\w$*{}\s,]+?\s*from\s*|\bimport\s*\(\s*)(['"])([^'"\n]+)\2/g;
+
+// Comments are matched too so that tags inside them are left alone.
+const HTML_RESOURCE_PATTERN = /<!--[\s\S]*?-->|<script\b([^>]*)>([\s\S]*?)<\/script\s*>|<style\b([^>]*)>([\s\S]*?)<\/style\s*>|<link\b([^>]*)>|<([a-z][\w:-]*)\b([^>]*)>/gi;
+
+// Attributes that load a file. `href` is left alone on links, which the navigation bridge follows instead.
+const URL_ATTRIBUTE_PATTERN = /(\s(?:src|href|poster|data|xlink:href)\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+const SRCSET_ATTRIBUTE_PATTERN = /(\s(?:srcset|imagesrcset)\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+const STYLE_ATTRIBUTE_PATTERN = /(\sstyle\s*=\s*)(?:"([^"]*)"|'([^']*)')/gi;
+const NAVIGATION_TAGS = new Set(['a', 'area', 'base']);
+
+// `url(…)` and `@import '…'` in CSS.
+const CSS_URL_PATTERN = /(url\(\s*)(['"]?)([^'")]+)\2(\s*\))|(@import\s+)(['"])([^'"]+)\6/gi;
+
+const IMPORT_MAP_PATTERN = /(<script\b[^>]*\btype\s*=\s*["']?importmap["']?[^>]*>)([\s\S]*?)(<\/script\s*>)/i;
+
+/** The page the preview opens: index.html, else the model's unstructured answer, else any HTML file. */
+export const findEntryDocument = (files: FileNode[]): FileNode | undefined =>
+  files.find(f => f.name === 'index.html') || files.find(f => f.name === FALLBACK_FILE_NAME) || files.find(f => f.name.endsWith('.html'));
+
+const attributePattern = (name: string) => new RegExp(`(^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i');
+
+export const getAttribute = (attributes: string, name: string): string | null => {
+  const match = attributes.match(attributePattern(name));
+  return match ? match[2] ?? match[3] ?? match[4] ?? '' : null;
+};
+
+export const removeAttribute = (attributes: string, name: string) => attributes.replace(attributePattern(name), '');
+
+// Inlined code must not end the element it's placed in early.
+export const escapeClosingTag = (code: string, tag: string) => code.replace(new RegExp(`</(${tag})`, 'gi'), '<\\/$1');
+
+const isRelativeReference = (reference: string) => resolveRelativePath('', reference) !== null;
+
+// Quotes and parentheses are escaped too, so the URL can sit inside url(…) or a quoted attribute.
+const textDataUrl = (mimeType: string, text: string) =>
+  `data:${mimeType};charset=utf-8,${encodeURIComponent(text).replace(/['()]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+
+// What one build has gathered so far.
+interface BuildContext {
+  files: Map<string, FileNode>;
+  // Data URLs of the modules reached so far, by project path.
+  modules: Map<string, string>;
+  // Compiled output of the TypeScript and JSX files, by path.
+  compiled: Map<string, CompiledModule>;
+  // Package imports like `react`, which the import map sends to the CDN.
+  bareImports: Set<string>;
+  settings: PreviewSettings;
+  // Stylesheets being embedded, so an @import cycle stops.
+  stylesheets: Set<string>;
+  // Why the compiler produced nothing, when it failed to run.
+  compileError?: string;
+  problems: string[];
+}
+
+const report = (context: BuildContext, problem: string) => {
+  if (!context.problems.includes(problem)) context.problems.push(problem);
+};
+
+const findReferencedFile = (context: BuildContext, fromFile: string, reference: string): FileNode | undefined => {
+  const path = resolveRelativePath(fromFile, reference);
+  return path === null ? undefined : context.files.get(path);
+};
+
+/** Replaces the specifier of every import and re-export in `code`; `replace` returns null to keep one. */
+export const replaceImportSpecifiers = (code: string, replace: (specifier: string) => string | null): string =>
+  code.replace(IMPORT_PATTERN, (statement, head: string, quote: string, specifier: string) => {
+    const replacement = replace(specifier);
+    return replacement === null ? statement : `${head}${quote}${replacement}${quote}`;
+  });
+
+/** Package imports like `react`, as opposed to paths and URLs. */
+export const isBareSpecifier = (specifier: string) => !/^[a-z][a-z0-9+.-]*:/i.test(specifier) && !/^\.{0,2}\//.test(specifier);
+
+/** The project file a relative import points at, trying the extensions bundlers do; null when there's none. */
+export const resolveModulePath = (files: Map<string, FileNode>, fromFile: string, specifier: string): string | null => {
+  const base = resolveRelativePath(fromFile, specifier);
+  return base === null ? null : MODULE_EXTENSIONS.map(extension => base + extension).find(candidate => files.has(candidate)) ?? null;
+};
+
+/** Points the imports in `code` at their project modules, loading each one the first time it's seen. */
+const rewriteImports = (context: BuildContext, code: string, fromFile: string): string =>
+  replaceImportSpecifiers(code, specifier => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(specifier)) return null;
+    if (isBareSpecifier(specifier)) {
+      context.bareImports.add(specifier);
+      return null;
+    }
+    const path = resolveModulePath(context.files, fromFile, specifier);
+    if (!path) {
+      report(context, `Cannot resolve import "${specifier}" in ${fromFile}.`);
+      return null;
+    }
+    addModule(context, path);
+    return PROJECT_MODULE_PREFIX + path;
+  });
+
+// The JavaScript for a project module, compiled first if it's TypeScript or JSX.
+const moduleSource = (context: BuildContext, path: string): string => {
+  const file = context.files.get(path)!;
+  if (!needsTranspiling(path)) return file.content;
+  const compiled = context.compiled.get(path);
+  if (!compiled) {
+    report(context, context.compileError
+      ? `${path} could not be compiled (${context.compileError}); it is loaded as it is.`
+      : `${path} could not be compiled; it is loaded as it is.`);
+    return file.content;
+  }
+  compiled.diagnostics.forEach(diagnostic => report(context, `${path}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`));
+  return compiled.code;
+};
+
+// The data: URL serving a project module. A path always gets the same URL, so it's one module instance.
+const addModule = (context: BuildContext, path: string): string => {
+  // Claimed before rewriting so an import cycle doesn't recurse forever.
+  if (context.modules.has(path)) return context.modules.get(path)!;
+  context.modules.set(path, '');
+  const code = `${rewriteImports(context, moduleSource(context, path), path)}\n//# sourceURL=${path}`;
+  const url = textDataUrl('text/javascript', code);
+  context.modules.set(path, url);
+  return url;
+};
+
+// A data: URL for the project file `reference` points at, or null to leave the reference as it is.
+const assetUrl = (context: BuildContext, fromFile: string, reference: string): string | null => {
+  if (!isRelativeReference(reference)) return null;
+  const file = findReferencedFile(context, fromFile, reference);
+  if (!file) {
+    report(context, `"${reference}" referenced by ${fromFile} was not found.`);
+    return null;
+  }
+  const hashIndex = reference.indexOf('#');
+  const hash = hashIndex === -1 ? '' : reference.slice(hashIndex);
+  if (file.binary) return file.content + hash;
+  if (file.name.endsWith('.css') && context.stylesheets.has(file.name)) return null;
+  const content = file.name.endsWith('.css') ? rewriteCssUrls(context, file.content, file.name) : file.content;
+  return textDataUrl(mimeTypeFor(file.name), content) + hash;
+};
+
+/** Replaces the reference of every url(…) and @import in `css`; `replace` returns null to keep one. */
+export const replaceCssReferences = (css: string, replace: (reference: string) => string | null): string =>
+  css.replace(CSS_URL_PATTERN, (match, urlOpen?: string, quote?: string, urlReference?: string, urlClose?: string, importOpen?: string, importQuote?: string, importReference?: string) => {
+    if (urlOpen !== undefined) {
+      const url = replace(urlReference!.trim());
+      return url === null ? match : `${urlOpen}"${url}"${urlClose}`;
+    }
+    const url = replace(importReference!);
+    return url === null ? match : `${importOpen}${importQuote}${url}${importQuote}`;
+  });
+
+/** Embeds the images, fonts and stylesheets a piece of CSS refers to; `fromFile` is where relative URLs start. */
+const rewriteCssUrls = (context: BuildContext, css: string, fromFile: string): string => {
+  context.stylesheets.add(fromFile);
+  const rewritten = replaceCssReferences(css, reference => assetUrl(context, fromFile, reference));
+  context.stylesheets.delete(fromFile);
+  return rewritten;
+};
+
+const rewriteSrcset = (context: BuildContext, srcset: string, fromFile: string) =>
+  srcset.split(/,\s+/).map(candidate => {
+    const [reference, ...descriptors] = candidate.trim().split(/\s+/);
+    const url = assetUrl(context, fromFile, reference);
+    return url ? [url, ...descriptors].join(' ') : candidate;
+  }).join(', ');
+
+// Points the file-loading attributes of a tag (img src, video poster, an inline style's url()…) at embedded copies.
+const rewriteTagUrls = (context: BuildContext, tagName: string, attributes: string, htmlFile: string): string => {
+  const valueOf = (double?: string, single?: string, bare?: string) => double ?? single ?? bare ?? '';
+  return attributes
+    .replace(URL_ATTRIBUTE_PATTERN, (match, name: string, double?: string, single?: string, bare?: string) => {
+      if (NAVIGATION_TAGS.has(tagName.toLowerCase()) && /href/i.test(name)) return match;
+      const url = assetUrl(context, htmlFile, valueOf(double, single, bare));
+      return url ? `${name}"${url}"` : match;
+    })
+    .replace(SRCSET_ATTRIBUTE_PATTERN, (_, name: string, double?: string, single?: string, bare?: string) =>
+      `${name}"${rewriteSrcset(context, valueOf(double, single, bare), htmlFile)}"`)
+    .replace(STYLE_ATTRIBUTE_PATTERN, (_, name: string, double?: string, single?: string) => {
+      // The url("…") quotes rewriteCssUrls adds must not close the attribute.
+      const quote = double !== undefined ? '"' : "'";
+      return `${name}${quote}${rewriteCssUrls(context, valueOf(double, single), htmlFile).replace(new RegExp(quote, 'g'), quote === '"' ? "'" : '"')}${quote}`;
+    });
+};
+
+// The replacement for a <script> tag, or null to keep it as it is.
+const inlineScript = (context: BuildContext, attributes: string, body: string, htmlFile: string): string | null => {
+  const isModule = getAttribute(attributes, 'type')?.toLowerCase() === 'module';
+  const src = getAttribute(attributes, 'src');
+  if (src === null) return isModule ? `<script${attributes}>${rewriteImports(context, body, htmlFile)}</script>` : null;
+  if (!isRelativeReference(src)) return null;
+  const file = findReferencedFile(context, htmlFile, src);
+  if (!file) {
+    report(context, `Script "${src}" referenced by ${htmlFile} was not found.`);
+    return null;
+  }
+  // Compiled TypeScript and JSX use import/export, so they always load as modules.
+  if (isModule || needsTranspiling(file.name)) {
+    return `<script type="module" src="${addModule(context, file.name)}"${removeAttribute(removeAttribute(attributes, 'src'), 'type')}></script>`;
+  }
+  return `<script${removeAttribute(attributes, 'src')}>${escapeClosingTag(`${file.content}\n//# sourceURL=${file.name}`, 'script')}</script>`;
+};
+
+// The replacement for a <link> tag, or null to keep it as it is.
+const isStylesheetLink = (attributes: string) => /(^|\s)stylesheet(\s|$)/i.test(getAttribute(attributes, 'rel') ?? '');
+
+const inlineStylesheet = (context: BuildContext, attributes: string, htmlFile: string, styleId: number): string | null => {
+  const href = getAttribute(attributes, 'href');
+  if (href === null || !isRelativeReference(href)) return null;
+  const file = findReferencedFile(context, htmlFile, href);
+  if (!file) {
+    report(context, `Stylesheet "${href}" referenced by ${htmlFile} was not found.`);
+    return null;
+  }
+  const media = getAttribute(attributes, 'media');
+  const css = rewriteCssUrls(context, file.content, file.name);
+  return `<style ${STYLE_ID_ATTRIBUTE}="${styleId}" data-href="${file.name}"${media ? ` media="${media}"` : ''}>${escapeClosingTag(css, 'style')}</style>`;
+};
+
+export interface ImportMapResult {
+  html: string;
+  // The import map to add to the head, or '' when the page's own was updated instead.
+  tag: string;
+  // Set when the page's own import map isn't valid JSON; its entries are ignored then.
+  invalid: boolean;
+}
+
+/**
+ * A page can only have one import map, so the entries for `bareImports` and `moduleImports` join the
+ * page's own if it has one. The page's entries win over the preview settings, which win over the CDN.
+ */
+export const mergeImportMap = (html: string, settings: PreviewSettings, bareImports: Iterable<string>, moduleImports: Record<string, string> = {}): ImportMapResult => {
+  const existing = html.match(IMPORT_MAP_PATTERN);
+  let pageMap: { imports?: Record<string, string> } = {};
+  let invalid = false;
+  if (existing) {
+    try {
+      pageMap = JSON.parse(existing[2]);
+    } catch {
+      invalid = true;
+    }
+  }
+  const imports = {
+    ...bareImportMap({ ...settings, imports: { ...settings.imports, ...pageMap.imports } }, bareImports),
+    ...moduleImports,
+  };
+  const map = escapeClosingTag(JSON.stringify({ ...pageMap, imports }), 'script');
+  if (!existing) return { html, tag: `<script type="importmap">${map}</script>`, invalid };
+  return { html: html.replace(IMPORT_MAP_PATTERN, (_, open: string, _body: string, close: string) => open + map + close), tag: '', invalid };
+};
+
+const addImportMap = (context: BuildContext, html: string, htmlFile: string): ImportMapResult => {
+  const moduleImports = Object.fromEntries([...context.modules].map(([path, url]) => [PROJECT_MODULE_PREFIX + path, url]));
+  const result = mergeImportMap(html, context.settings, context.bareImports, moduleImports);
+  if (result.invalid) report(context, `The import map in ${htmlFile} is not valid JSON.`);
+  return result;
+};
+
+export interface PreviewBuildOptions {
+  // Output of transpileFiles for the project's TypeScript and JSX files.
+  compiled?: Map<string, CompiledModule>;
+  // Why transpileFiles failed, if it did, so the preview's console shows the cause.
+  compileError?: string;
+  settings?: PreviewSettings;
+  // The page to show, like "about.html#team"; the entry page when left out.
+  address?: string;
+}
+
+export interface PreviewPage {
+  html: string;
+  // Missing files, unresolved imports and compile errors, for the IDE to show in the preview console.
+  problems: string[];
+}
+
+// One page with everything it links to embedded. A standalone page leaves out the security policy,
+// which only makes sense inside the IDE.
+const assemblePage = (
+  files: FileNode[],
+  htmlFile: FileNode,
+  { compiled = new Map(), compileError, settings = DEFAULT_PREVIEW_SETTINGS }: PreviewBuildOptions,
+  standalone: boolean,
+): PreviewPage => {
+  const context: BuildContext = {
+    files: new Map(files.map(file => [file.name, file])), modules: new Map(), compiled, bareImports: new Set(), settings, stylesheets: new Set(), compileError, problems: [],
+  };
+  let nextStyleId = 0;
+  let html = htmlFile.content.replace(HTML_RESOURCE_PATTERN, (tag, scriptAttributes?: string, scriptBody?: string, styleAttributes?: string, styleBody?: string, linkAttributes?: string, tagName?: string, tagAttributes?: string) => {
+    if (scriptAttributes !== undefined) return inlineScript(context, scriptAttributes, scriptBody ?? '', htmlFile.name) ?? tag;
+    if (styleAttributes !== undefined) return `<style ${STYLE_ID_ATTRIBUTE}="${nextStyleId++}"${styleAttributes}>${rewriteCssUrls(context, styleBody ?? '', htmlFile.name)}</style>`;
+    if (linkAttributes !== undefined) {
+      if (isStylesheetLink(linkAttributes)) return inlineStylesheet(context, linkAttributes, htmlFile.name, nextStyleId++) ?? tag;
+      return `<link${rewriteTagUrls(context, 'link', linkAttributes, htmlFile.name)}>`;
+    }
+    if (tagName !== undefined) return `<${tagName}${rewriteTagUrls(context, tagName, tagAttributes ?? '', htmlFile.name)}>`;
+    return tag;
+  });
+
+  // The IDE's scripts are injected ahead of the policy, so a strict one can't break them.
+  let headTags = standalone ? '' : contentSecurityPolicyTag(settings.contentSecurityPolicy);
+  if (context.modules.size > 0 || context.bareImports.size > 0) {
+    const withMap = addImportMap(context, html, htmlFile.name);
+    html = withMap.html;
+    headTags += withMap.tag;
+  }
+  if (headTags) html = prependToHead(html, headTags);
+  return { html, problems: context.problems };
+};
+
+/**
+ * Builds the preview document for one page of the project. Stylesheets, scripts and assets the page
+ * links to are taken from the project; anything the page doesn't reference is left out. References
+ * that point at missing files, and compile errors, come back as problems rather than being written
+ * into the page, where project code could tamper with them.
+ */
+export const buildPreviewDocument = (files: FileNode[], options: PreviewBuildOptions = {}): PreviewPage => {
+  const { path, hash } = splitPreviewAddress(options.address ?? '');
+  const htmlFile = options.address === undefined ? findEntryDocument(files) : files.find(file => file.name === path);
+  if (!htmlFile) return { html: options.address === undefined ? NO_HTML_DOCUMENT : injectNavigationBridge(notFoundDocument(path)), problems: [] };
+  const { html, problems } = assemblePage(files, htmlFile, options, false);
+  return { html: injectSecurityGuard(injectHotReloadBridge(injectConsoleBridge(injectNavigationBridge(html, hash)))), problems };
+};
+
+/**
+ * Builds `page` the way the preview does, but to be opened on its own: without the scripts that
+ * connect it to the IDE or the preview's security policy. Null when the project has no such page.
+ */
+export const buildStandaloneDocument = (files: FileNode[], page: string, options: PreviewBuildOptions = {}): PreviewPage | null => {
+  const htmlFile = files.find(file => file.name === page);
+  return htmlFile ? assemblePage(files, htmlFile, options, true) : null;
+};
@@ -0,0 +1,162 @@
+import { prependToHead } from './consoleBridge';
+
+// Without allow-same-origin the preview runs on an opaque origin: project code can't reach the
+// IDE's DOM, storage or cookies, and talks to it only through the postMessage bridges. Popups it
+// opens inherit the sandbox.
+export const PREVIEW_SANDBOX = 'allow-scripts allow-forms allow-modals allow-popups';
+
+// The origin messages from a sandboxed frame carry.
+export const OPAQUE_ORIGIN = 'null';
+
+// Lets pages use inline code, CDNs and embedded files, and nothing served over plain http.
+export const DEFAULT_CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline' 'unsafe-eval' https: data: blob:",
+  "style-src 'unsafe-inline' https: data:",
+  'img-src https: data: blob:',
+  'font-src https: data:',
+  'media-src https: data: blob:',
+  'connect-src https: wss: data: blob:',
+  'worker-src blob: data:',
+  'frame-src https: data: blob:',
+  "object-src 'none'",
+].join('; ');
+
+// Runs inside the preview frame before any project code. It warns in the preview console the
+// first time the page reaches the network or browser storage, and when the security policy
+// blocks something. Storage isn't available on an opaque origin, so localStorage,
+// sessionStorage and document.cookie are replaced with copies that live until the page reloads.
+const GUARD_SCRIPT = `(function () {
+  var warned = {};
+  function warn(key, message) {
+    if (warned[key]) return;
+    warned[key] = true;
+    console.warn('[Preview] ' + message);
+  }
+
+  function urlOf(input) {
+    return String(input && typeof input === 'object' && 'url' in input ? input.url : input);
+  }
+
+  function networkWarning(api, url) {
+    warn(api + ' ' + url, api + ' request to ' + url + '. Generated code is reaching the network; check that it only talks to servers you expect.');
+  }
+
+  if (window.fetch) {
+    var originalFetch = window.fetch;
+    window.fetch = function (input) {
+      networkWarning('fetch', urlOf(input));
+      return originalFetch.apply(this, arguments);
+    };
+  }
+
+  if (window.XMLHttpRequest) {
+    var originalOpen = XMLHttpRequest.prototype.open;
+    XMLHttpRequest.prototype.open = function (method, url) {
+      networkWarning('XMLHttpRequest', urlOf(url));
+      return originalOpen.apply(this, arguments);
+    };
+  }
+
+  if (navigator.sendBeacon) {
+    var originalSendBeacon = navigator.sendBeacon;
+    navigator.sendBeacon = function (url) {
+      networkWarning('sendBeacon', urlOf(url));
+      return originalSendBeacon.apply(navigator, arguments);
+    };
+  }
+
+  ['WebSocket', 'EventSource'].forEach(function (name) {
+    var Original = window[name];
+    if (!Original) return;
+    var Wrapped = function (url, options) {
+      networkWarning(name, urlOf(url));
+      return arguments.length > 1 ? new Original(url, options) : new Original(url);
+    };
+    Wrapped.prototype = Original.prototype;
+    ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'].forEach(function (key) {
+      if (key in Original) Wrapped[key] = Original[key];
+    });
+    window[name] = Wrapped;
+  });
+
+  function storageWarning(name) {
+    warn(name, 'The page uses ' + name + '. The preview is isolated from the IDE, so it gets a temporary ' + name + ' that is emptied when the page reloads.');
+  }
+
+  function memoryStorage(name) {
+    var items = {};
+    var storage = {
+      getItem: function (key) {
+        storageWarning(name);
+        return Object.prototype.hasOwnProperty.call(items, key) ? items[key] : null;
+      },
+      setItem: function (key, value) { storageWarning(name); items[key] = String(value); },
+      removeItem: function (key) { storageWarning(name); delete items[key]; },
+      clear: function () { storageWarning(name); items = {}; },
+      key: function (index) { storageWarning(name); var keys = Object.keys(items); return index < keys.length ? keys[index] : null; }
+    };
+    Object.defineProperty(storage, 'length', { get: function () { return Object.keys(items).length; } });
+    return storage;
+  }
+
+  ['localStorage', 'sessionStorage'].forEach(function (name) {
+    try { Object.defineProperty(window, name, { value: memoryStorage(name), configurable: true }); } catch (e) {}
+  });
+
+  var cookies = {};
+  try {
+    Object.defineProperty(document, 'cookie', {
+      configurable: true,
+      get: function () {
+        storageWarning('document.cookie');
+        return Object.keys(cookies).map(function (name) { return name + '=' + cookies[name]; }).join('; ');
+      },
+      set: function (value) {
+        storageWarning('document.cookie');
+        var parts = String(value).split(';');
+        var separator = parts[0].indexOf('=');
+        if (separator < 1) return;
+        var name = parts[0].slice(0, separator).trim();
+        var expired = parts.slice(1).some(function (part) {
+          var attribute = part.trim().toLowerCase();
+          if (attribute.indexOf('max-age=') === 0) return parseFloat(attribute.slice(8)) <= 0;
+          return attribute.indexOf('expires=') === 0 && Date.parse(part.trim().slice(8)) < Date.now();
+        });
+        if (expired) delete cookies[name];
+        else cookies[name] = parts[0].slice(separator + 1).trim();
+      }
+    });
+  } catch (e) {}
+
+  try {
+    var factory = window.indexedDB;
+    if (factory) {
+      var originalIdbOpen = factory.open;
+      factory.open = function () {
+        warn('indexedDB', 'The page uses IndexedDB, which isn\\'t available in the isolated preview.');
+        return originalIdbOpen.apply(factory, arguments);
+      };
+    }
+  } catch (e) {}
+
+  document.addEventListener('securitypolicyviolation', function (event) {
+    var blocked = event.blockedURI || 'inline code';
+    warn('csp ' + event.effectiveDirective + ' ' + blocked, 'The Content-Security-Policy (' + event.effectiveDirective + ') blocked ' + blocked + '. It can be changed in the preview settings.');
+  });
+})();`;
+
+/** Injects the guard script, which has to come before every other script in the page. */
+export const injectSecurityGuard = (html: string): string => prependToHead(html, `<script>${GUARD_SCRIPT}</script>`);
+
+/** The directives of a policy written with semicolons, one per line, or both. */
+export const policyDirectives = (policy: string): string[] => policy.split(/[;\n]/).map(directive => directive.trim()).filter(Boolean);
+
+/**
+ * A meta tag that applies `policy` to everything after it in the document, so the IDE's own
+ * scripts go before it. Empty when there's no policy.
+ */
+export const contentSecurityPolicyTag = (policy: string): string => {
+  const directives = policyDirectives(policy).join('; ');
+  return directives ? `<meta http-equiv="Content-Security-Policy" content="${directives.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}">` : '';
+};
@@ -0,0 +1,63 @@
+import { PreviewSettings } from '../types';
+import { PREVIEW_CDN_URL } from '../constants';
+import { DEFAULT_CONTENT_SECURITY_POLICY } from './previewSecurity';
+
+const PREVIEW_SETTINGS_STORAGE_KEY = 'codenix.previewSettings';
+
+export const DEFAULT_PREVIEW_SETTINGS: PreviewSettings = {
+  cdnUrl: PREVIEW_CDN_URL,
+  imports: {},
+  autoRefresh: true,
+  contentSecurityPolicy: DEFAULT_CONTENT_SECURITY_POLICY,
+};
+
+export type ImportsParseResult = { success: true; imports: Record<string, string> } | { success: false; error: string };
+
+/** Reads the "imports" section of an import map typed by the user: an object of specifier → URL strings. */
+export const parseImports = (text: string): ImportsParseResult => {
+  if (!text.trim()) return { success: true, imports: {} };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { success: false, error: error instanceof SyntaxError ? error.message : 'Invalid JSON.' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return { success: false, error: 'Expected an object like { "react": "https://…" }.' };
+  const invalid = Object.entries(parsed).find(([, url]) => typeof url !== 'string');
+  if (invalid) return { success: false, error: `The URL for "${invalid[0]}" must be a string.` };
+  return { success: true, imports: parsed as Record<string, string> };
+};
+
+/**
+ * Import-map entries for the bare imports a project uses: the user's own entries, plus the CDN for
+ * every package they don't cover. A user entry ending in "/" covers everything under it.
+ */
+export const bareImportMap = (settings: PreviewSettings, specifiers: Iterable<string>): Record<string, string> => {
+  const prefixes = Object.keys(settings.imports).filter(key => key.endsWith('/'));
+  const cdnUrl = settings.cdnUrl.replace(/\/*$/, '/');
+  const imports: Record<string, string> = {};
+  for (const specifier of specifiers) {
+    if (!(specifier in settings.imports) && !prefixes.some(prefix => specifier.startsWith(prefix))) imports[specifier] = cdnUrl + specifier;
+  }
+  return { ...imports, ...settings.imports };
+};
+
+export const loadPreviewSettings = (): PreviewSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREVIEW_SETTINGS_STORAGE_KEY) || 'null') as Partial<PreviewSettings> | null;
+    if (!stored) return DEFAULT_PREVIEW_SETTINGS;
+    const imports = parseImports(JSON.stringify(stored.imports ?? {}));
+    return {
+      cdnUrl: typeof stored.cdnUrl === 'string' && stored.cdnUrl ? stored.cdnUrl : DEFAULT_PREVIEW_SETTINGS.cdnUrl,
+      imports: imports.success ? imports.imports : {},
+      autoRefresh: typeof stored.autoRefresh === 'boolean' ? stored.autoRefresh : DEFAULT_PREVIEW_SETTINGS.autoRefresh,
+      contentSecurityPolicy: typeof stored.contentSecurityPolicy === 'string' ? stored.contentSecurityPolicy : DEFAULT_PREVIEW_SETTINGS.contentSecurityPolicy,
+    };
+  } catch {
+    return DEFAULT_PREVIEW_SETTINGS;
+  }
+};
+
+export const savePreviewSettings = (settings: PreviewSettings) => {
+  localStorage.setItem(PREVIEW_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { createExportManifest } from './projectExport';
+
+const SHA256_OF_ABC = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+const SHA256_OF_NOTHING = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+// "é" is two bytes in UTF-8.
+const SHA256_OF_E_ACUTE = '4a99557e4033c3539de2eb65472017cad5f9557f7a0625a09f1c3f6e2ba69c4c';
+
+describe('createExportManifest', () => {
+  const files: FileNode[] = [
+    { type: 'file', name: 'js/app.js', content: 'abc' },
+    { type: 'file', name: 'empty.txt', content: '' },
+    // "abc" as base64.
+    { type: 'file', name: 'img/logo.png', content: 'data:image/png;base64,YWJj', binary: true },
+    { type: 'file', name: 'README.md', content: 'é' },
+  ];
+
+  it('lists every file by path with the size and SHA-256 of its bytes', async () => {
+    const manifest = await createExportManifest('Site', 'production', files);
+    expect(manifest.project).toBe('Site');
+    expect(manifest.target).toBe('production');
+    expect(manifest.files).toEqual([
+      { path: 'empty.txt', size: 0, sha256: SHA256_OF_NOTHING },
+      { path: 'img/logo.png', size: 3, sha256: SHA256_OF_ABC },
+      { path: 'js/app.js', size: 3, sha256: SHA256_OF_ABC },
+      { path: 'README.md', size: 2, sha256: SHA256_OF_E_ACUTE },
+    ]);
+  });
+
+  it('records when it was made', async () => {
+    const before = Date.now();
+    const { createdAt } = await createExportManifest('Site', 'source', []);
+    expect(Date.parse(createdAt)).toBeGreaterThanOrEqual(before);
+    expect(new Date(createdAt).toISOString()).toBe(createdAt);
+  });
+
+  it('does not reorder the files it was given', async () => {
+    const copy = [...files];
+    await createExportManifest('Site', 'source', files);
+    expect(files).toEqual(copy);
+  });
+});
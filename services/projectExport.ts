@@ -0,0 +1,267 @@
+import { FileNode, PreviewSettings, ProjectNode } from '../types';
+import { collectDirectories, flattenFiles, relativePath, resolveRelativePath } from './fileTree';
+import { prependToHead } from './consoleBridge';
+import { buildStandaloneDocument, findEntryDocument, getAttribute, isBareSpecifier, mergeImportMap, removeAttribute, replaceCssReferences, replaceImportSpecifiers, resolveModulePath } from './previewBuilder';
+import { CompiledModule, needsTranspiling, transpileFiles } from './transpiler';
+import { hasModuleSyntax, minifyCss, minifyHtml, minifyJavaScript } from './minify';
+import { createZip } from './zip';
+
+/**
+ * The ways a project can leave the IDE: its files as they are, one page as a single HTML file
+ * built the way the preview builds it, or a production build that's ready to be served.
+ */
+export type ExportTarget = 'source' | 'single-html' | 'production';
+
+export const EXPORT_MANIFEST_NAME = 'export-manifest.json';
+
+export interface ExportManifestEntry {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+// Written next to the exported files so whoever receives them can check they are what was shipped.
+export interface ExportManifest {
+  project: string;
+  target: ExportTarget;
+  createdAt: string;
+  files: ExportManifestEntry[];
+}
+
+export interface ExportOptions {
+  target: ExportTarget;
+  // The page a single HTML file is made from; the entry page when left out.
+  page?: string;
+  // Adds export-manifest.json to a .zip export.
+  includeManifest: boolean;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  fileCount: number;
+  // The single HTML file's hash, since there's nowhere to put a manifest.
+  sha256?: string;
+  // Compile errors, imports that can't be resolved and code that couldn't be minified.
+  problems: string[];
+}
+
+const fileBytes = (file: FileNode): Uint8Array => {
+  if (!file.binary) return new TextEncoder().encode(file.content);
+  const binary = atob(file.content.slice(file.content.indexOf(',') + 1));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const sha256 = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const createExportManifest = async (project: string, target: ExportTarget, files: FileNode[]): Promise<ExportManifest> => ({
+  project,
+  target,
+  createdAt: new Date().toISOString(),
+  files: await Promise.all([...files].sort((a, b) => a.name.localeCompare(b.name)).map(async file => {
+    const bytes = fileBytes(file);
+    return { path: file.name, size: bytes.length, sha256: await sha256(bytes) };
+  })),
+});
+
+// --- Production build ---
+
+const DECLARATION_PATTERN = /\.d\.m?ts$/i;
+const JSON_PATTERN = /\.(json|webmanifest)$/i;
+
+// Tags are matched one by one; comments are matched too so that tags inside them are left alone.
+const HTML_TAG_PATTERN = /<!--[\s\S]*?-->|<script\b([^>]*)>([\s\S]*?)<\/script\s*>|<style\b([^>]*)>([\s\S]*?)<\/style\s*>|<([a-z][\w:-]*)\b([^>]*)>/gi;
+const URL_ATTRIBUTE_PATTERN = /(\s(?:src|href|poster)\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+// Compiled TypeScript and JSX files take the place of their sources, as .js files.
+const outputPathOf = (path: string) => (needsTranspiling(path) ? path.replace(/\.(tsx?|mts|jsx)$/i, '.js') : path);
+
+// What one production build has gathered so far.
+interface ProductionContext {
+  files: Map<string, FileNode>;
+  compiled: Map<string, CompiledModule>;
+  bareImports: Set<string>;
+  problems: string[];
+}
+
+const report = (context: ProductionContext, problem: string) => {
+  if (!context.problems.includes(problem)) context.problems.push(problem);
+};
+
+/**
+ * The reference to use in place of `reference` in the built `fromFile`. References to compiled
+ * files are pointed at their .js output, and root-absolute ones ("/img/logo.png") are made relative
+ * so the build works wherever it's served from. Returns null to keep the reference.
+ */
+const rewriteReference = (context: ProductionContext, fromFile: string, reference: string): string | null => {
+  const path = resolveRelativePath(fromFile, reference);
+  if (path === null || !context.files.has(path)) return null;
+  const outputPath = outputPathOf(path);
+  if (!reference.trim().startsWith('/') && outputPath === path) return null;
+  const suffix = reference.match(/[?#].*$/)?.[0] ?? '';
+  return relativePath(outputPathOf(fromFile), outputPath) + suffix;
+};
+
+// Imports get explicit paths, extensions included, since browsers don't guess them as bundlers do.
+const rewriteModuleImports = (context: ProductionContext, code: string, fromFile: string): string =>
+  replaceImportSpecifiers(code, specifier => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(specifier)) return null;
+    if (isBareSpecifier(specifier)) {
+      context.bareImports.add(specifier);
+      return null;
+    }
+    const path = resolveModulePath(context.files, fromFile, specifier);
+    if (!path) {
+      report(context, `Cannot resolve import "${specifier}" in ${fromFile}.`);
+      return null;
+    }
+    return relativePath(outputPathOf(fromFile), outputPathOf(path));
+  });
+
+const minifyOrKeep = async (context: ProductionContext, path: string, minify: () => Promise<string>, original: string): Promise<string> => {
+  try {
+    return await minify();
+  } catch (error) {
+    report(context, `${path} could not be minified (${error instanceof Error ? error.message : String(error)}); it is included as it is.`);
+    return original;
+  }
+};
+
+const buildScript = async (context: ProductionContext, file: FileNode): Promise<string | null> => {
+  let code = file.content;
+  if (needsTranspiling(file.name)) {
+    const compiled = context.compiled.get(file.name);
+    if (!compiled) {
+      report(context, `${file.name} could not be compiled and is left out.`);
+      return null;
+    }
+    compiled.diagnostics.forEach(diagnostic => report(context, `${file.name}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`));
+    code = compiled.code;
+  }
+  const isModule = needsTranspiling(file.name) || /\.mjs$/i.test(file.name) || hasModuleSyntax(code);
+  const rewritten = rewriteModuleImports(context, code, file.name);
+  return minifyOrKeep(context, file.name, () => minifyJavaScript(rewritten, isModule), rewritten);
+};
+
+const buildPage = async (context: ProductionContext, file: FileNode, settings: PreviewSettings): Promise<string> => {
+  let hasModules = false;
+  let html = file.content.replace(HTML_TAG_PATTERN, (tag, scriptAttributes?: string, scriptBody?: string, styleAttributes?: string, styleBody?: string, tagName?: string, tagAttributes?: string) => {
+    if (scriptAttributes !== undefined) {
+      const src = getAttribute(scriptAttributes, 'src');
+      const isModule = getAttribute(scriptAttributes, 'type')?.toLowerCase() === 'module';
+      if (src === null) {
+        hasModules ||= isModule;
+        return isModule ? `<script${scriptAttributes}>${rewriteModuleImports(context, scriptBody ?? '', file.name)}</script>` : tag;
+      }
+      const reference = rewriteReference(context, file.name, src);
+      if (reference === null) {
+        hasModules ||= isModule;
+        return tag;
+      }
+      // Compiled TypeScript and JSX use import/export, so they always load as modules.
+      const path = resolveRelativePath(file.name, src)!;
+      const typed = needsTranspiling(path) ? ` type="module"${removeAttribute(scriptAttributes, 'type')}` : scriptAttributes;
+      hasModules ||= isModule || needsTranspiling(path);
+      return `<script src="${reference}"${removeAttribute(typed, 'src')}>${scriptBody}</script>`;
+    }
+    if (styleAttributes !== undefined) {
+      return `<style${styleAttributes}>${replaceCssReferences(styleBody ?? '', reference => rewriteReference(context, file.name, reference))}</style>`;
+    }
+    if (tagName !== undefined) {
+      const attributes = (tagAttributes ?? '').replace(URL_ATTRIBUTE_PATTERN, (match, name: string, double?: string, single?: string, bare?: string) => {
+        const reference = rewriteReference(context, file.name, double ?? single ?? bare ?? '');
+        return reference === null ? match : `${name}"${reference}"`;
+      });
+      return `<${tagName}${attributes}>`;
+    }
+    return tag;
+  });
+  if (hasModules && context.bareImports.size > 0) {
+    const withMap = mergeImportMap(html, settings, context.bareImports);
+    if (withMap.invalid) report(context, `The import map in ${file.name} is not valid JSON.`);
+    html = withMap.tag ? prependToHead(withMap.html, withMap.tag) : withMap.html;
+  }
+  return minifyOrKeep(context, file.name, () => minifyHtml(html), html);
+};
+
+/**
+ * Builds the project for deployment: TypeScript and JSX are compiled to .js files, import and
+ * file paths are rewritten to work without a bundler, packages imported by name load from the
+ * preview's CDN through an import map, and HTML, CSS, JavaScript and JSON are minified. Other
+ * files, like images, are copied as they are.
+ */
+export const buildProductionFiles = async (files: FileNode[], compiled: Map<string, CompiledModule>, settings: PreviewSettings): Promise<{ files: FileNode[]; problems: string[] }> => {
+  const sources = files.filter(file => !DECLARATION_PATTERN.test(file.name));
+  const context: ProductionContext = { files: new Map(sources.map(file => [file.name, file])), compiled, bareImports: new Set(), problems: [] };
+  const compiledPaths = new Set(sources.filter(file => needsTranspiling(file.name)).map(file => outputPathOf(file.name)));
+  const output: FileNode[] = [];
+  // Scripts come first, so pages know every package the project imports.
+  const isPage = (file: FileNode) => /\.html?$/i.test(file.name);
+  for (const file of [...sources.filter(file => !isPage(file)), ...sources.filter(isPage)]) {
+    if (!needsTranspiling(file.name) && compiledPaths.has(file.name)) {
+      report(context, `${file.name} is replaced by the compiled output of a TypeScript or JSX file with the same name.`);
+      continue;
+    }
+    let content: string | null = file.content;
+    if (file.binary) {
+      // Copied as it is.
+    } else if (needsTranspiling(file.name) || /\.m?js$/i.test(file.name)) content = await buildScript(context, file);
+    else if (/\.css$/i.test(file.name)) content = minifyCss(replaceCssReferences(file.content, reference => rewriteReference(context, file.name, reference)));
+    else if (isPage(file)) content = await buildPage(context, file, settings);
+    else if (JSON_PATTERN.test(file.name)) content = await minifyOrKeep(context, file.name, async () => JSON.stringify(JSON.parse(file.content)), file.content);
+    if (content === null) continue;
+    output.push({ ...file, name: outputPathOf(file.name), content });
+  }
+  return { files: output, problems: context.problems };
+};
+
+// --- Export ---
+
+const fileNameFor = (project: string) =>
+  project.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'codenix-project';
+
+const zipWithManifest = async (project: string, target: ExportTarget, files: FileNode[], directories: string[], includeManifest: boolean): Promise<Blob> => {
+  if (!includeManifest) return createZip(files, directories);
+  const manifest = await createExportManifest(project, target, files);
+  const manifestFile: FileNode = { name: EXPORT_MANIFEST_NAME, type: 'file', content: `${JSON.stringify(manifest, null, 2)}\n` };
+  return createZip([...files, manifestFile], directories);
+};
+
+/** Exports the project as one of the export targets, ready to be downloaded. */
+export const exportProject = async (nodes: ProjectNode[], project: string, settings: PreviewSettings, options: ExportOptions): Promise<ExportResult> => {
+  const files = flattenFiles(nodes);
+  const name = fileNameFor(project);
+  if (options.target === 'source') {
+    const blob = await zipWithManifest(project, 'source', files, collectDirectories(nodes), options.includeManifest);
+    return { blob, fileName: `${name}.zip`, fileCount: files.length, problems: [] };
+  }
+  if (options.target === 'single-html') {
+    const path = options.page || findEntryDocument(files)?.name;
+    if (!path) throw new Error('The project has no HTML page to export.');
+    const build = buildStandaloneDocument(files, path, { compiled: await transpileFiles(files), settings });
+    if (!build) throw new Error(`The project has no page "${path}".`);
+    const page: FileNode = { name: `${name}.html`, type: 'file', content: build.html };
+    return { blob: new Blob([build.html], { type: 'text/html' }), fileName: page.name, fileCount: 1, sha256: await sha256(fileBytes(page)), problems: build.problems };
+  }
+  const compiled = await transpileFiles(files);
+  const build = await buildProductionFiles(files, compiled, settings);
+  const blob = await zipWithManifest(project, 'production', build.files, [], options.includeManifest);
+  return { blob, fileName: `${name}-dist.zip`, fileCount: build.files.length, problems: build.problems };
+};
+
+// How long the object URL for a download is kept; the browser reads it after click() returns.
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
@@ -0,0 +1,151 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { buildTree, flattenFiles } from './fileTree';
+import { ImportedFile, MAX_IMPORT_FILE_BYTES, findImportConflicts, isProbablyBinary, mergeImport, readFileList } from './projectImport';
+
+const MB = 1024 * 1024;
+
+const zipFile = async (name: string, entries: Record<string, string | Uint8Array>): Promise<File> => {
+  const zip = new JSZip();
+  Object.entries(entries).forEach(([path, content]) => zip.file(path, content));
+  const bytes = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  return new File([bytes], name);
+};
+
+// Rewrites the uncompressed size every header of a single-entry archive declares, the way a crafted zip bomb would.
+const withDeclaredSize = async (file: File, size: number): Promise<File> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  for (let offset = 0; offset < bytes.length - 4; offset++) {
+    const signature = view.getUint32(offset, true);
+    if (signature === 0x04034b50) view.setUint32(offset + 22, size, true);
+    if (signature === 0x02014b50) view.setUint32(offset + 24, size, true);
+  }
+  return new File([bytes], file.name);
+};
+
+const paths = (files: { path: string }[]) => files.map(file => file.path);
+
+describe('readFileList', () => {
+  it('imports loose files as text or binary', async () => {
+    const result = await readFileList([
+      new File(['<p>hi</p>'], 'index.html'),
+      new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0])], 'logo.png'),
+    ]);
+    expect(result.skipped).toEqual([]);
+    expect(result.files[0]).toEqual({ path: 'index.html', binary: false, content: '<p>hi</p>' });
+    expect(result.files[1]).toMatchObject({ path: 'logo.png', binary: true });
+    expect(result.files[1].content).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('skips loose files over the size limit', async () => {
+    const result = await readFileList([new File([new Uint8Array(MAX_IMPORT_FILE_BYTES + 1)], 'big.txt')]);
+    expect(result).toEqual({ files: [], skipped: [{ path: 'big.txt', reason: 'larger than 5 MB' }] });
+  });
+
+  it('expands a zip without its single top-level folder or OS clutter', async () => {
+    const file = await zipFile('site.zip', {
+      'site/index.html': '<p>hi</p>',
+      'site/css/main.css': 'p {}',
+      'site/.DS_Store': 'junk',
+      '__MACOSX/site/._index.html': 'junk',
+    });
+    const result = await readFileList([file]);
+    expect(paths(result.files).sort()).toEqual(['css/main.css', 'index.html']);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('reports an archive that is not a zip', async () => {
+    const result = await readFileList([new File(['not a zip'], 'broken.zip')]);
+    expect(result.skipped).toEqual([{ path: 'broken.zip', reason: 'not a valid zip archive' }]);
+  });
+
+  it('skips zip entries that declare more than the size limit', async () => {
+    const file = await zipFile('big.zip', { 'big.txt': new Uint8Array(MAX_IMPORT_FILE_BYTES + 1), 'small.txt': 'ok' });
+    const result = await readFileList([file]);
+    expect(paths(result.files)).toEqual(['small.txt']);
+    expect(result.skipped).toEqual([{ path: 'big.txt', reason: 'larger than 5 MB' }]);
+  });
+
+  it('stops decompressing an entry that is bigger than it declares', async () => {
+    const file = await withDeclaredSize(await zipFile('bomb.zip', { 'bomb.txt': new Uint8Array(6 * MB) }), 100);
+    const result = await readFileList([file]);
+    expect(result).toEqual({ files: [], skipped: [{ path: 'bomb.txt', reason: 'larger than 5 MB' }] });
+  });
+
+  it('stops once the archive expands past its total limit', async () => {
+    const entries = Object.fromEntries(Array.from({ length: 11 }, (_, i) => [`part${String(i).padStart(2, '0')}.txt`, new Uint8Array(5 * MB)]));
+    const result = await readFileList([await zipFile('many.zip', entries)]);
+    expect(result.files).toHaveLength(10);
+    expect(result.skipped).toEqual([{ path: 'part10.txt', reason: 'the archive expands to more than 50 MB' }]);
+  });
+});
+
+describe('isProbablyBinary', () => {
+  const bytes = (text: string) => new TextEncoder().encode(text);
+
+  it('goes by the extension when it is a known one', () => {
+    expect(isProbablyBinary('data.json', new Uint8Array([0, 1, 2]))).toBe(false);
+    expect(isProbablyBinary('photo.jpg', bytes('looks like text'))).toBe(true);
+  });
+
+  it('looks at the content of unknown extensions', () => {
+    expect(isProbablyBinary('LICENSE', bytes('MIT License — ünïcode'))).toBe(false);
+    expect(isProbablyBinary('blob.bin', new Uint8Array([104, 105, 0, 104]))).toBe(true);
+    expect(isProbablyBinary('latin1.dat', new Uint8Array([0x63, 0x61, 0x66, 0xe9]))).toBe(true);
+  });
+
+  it('allows a character cut off at the end of the sample', () => {
+    const text = bytes(`${'a'.repeat(7999)}é and more`);
+    expect(isProbablyBinary('notes', text)).toBe(false);
+  });
+});
+
+describe('mergeImport', () => {
+  const project = buildTree(
+    [
+      { type: 'file', name: 'index.html', content: 'old index' },
+      { type: 'file', name: 'logo.png', content: 'data:image/png;base64,AA==', binary: true },
+      { type: 'file', name: 'css/main.css', content: 'old css' },
+    ],
+    ['empty'],
+  );
+  const imported: ImportedFile[] = [
+    { path: 'index.html', content: 'new index', binary: false },
+    { path: 'logo.png', content: 'data:image/png;base64,AQ==', binary: true },
+    { path: 'app.js', content: 'new app', binary: false },
+  ];
+  const contents = (nodes: ReturnType<typeof mergeImport>) =>
+    Object.fromEntries(flattenFiles(nodes).map((file: FileNode) => [file.name, file.content]));
+
+  it('finds the imported paths that already exist', () => {
+    expect(findImportConflicts(project, imported, '')).toEqual(['index.html', 'logo.png']);
+    expect(findImportConflicts(project, imported, 'css')).toEqual([]);
+  });
+
+  it('overwrites, skips or keeps both on a conflict', () => {
+    expect(contents(mergeImport(project, imported, '', 'overwrite'))).toMatchObject({
+      'index.html': 'new index', 'logo.png': 'data:image/png;base64,AQ==', 'app.js': 'new app',
+    });
+    expect(contents(mergeImport(project, imported, '', 'skip'))).toMatchObject({ 'index.html': 'old index', 'app.js': 'new app' });
+    expect(contents(mergeImport(project, imported, '', 'keep-both'))).toMatchObject({
+      'index.html': 'old index', 'index (1).html': 'new index', 'logo (1).png': 'data:image/png;base64,AQ==',
+    });
+  });
+
+  it('keeps imported binary files binary', () => {
+    const merged = flattenFiles(mergeImport(project, imported, 'assets', 'overwrite'));
+    expect(merged.find(file => file.name === 'assets/logo.png')?.binary).toBe(true);
+    expect(merged.find(file => file.name === 'assets/app.js')?.binary).toBeUndefined();
+  });
+
+  it('renames a file that would replace a folder, and skips one under a file', () => {
+    const merged = mergeImport(project, [
+      { path: 'css', content: 'not a folder', binary: false },
+      { path: 'index.html/inner.js', content: 'x', binary: false },
+    ], '', 'overwrite');
+    expect(contents(merged)).toMatchObject({ 'css (1)': 'not a folder', 'css/main.css': 'old css' });
+    expect(flattenFiles(merged).some(file => file.name.startsWith('index.html/'))).toBe(false);
+  });
+});
@@ -0,0 +1,232 @@
+import { FileNode, ProjectNode } from '../types';
+import { basename, dirname, findNode, findFile, flattenFiles, collectDirectories, buildTree, joinPath, normalizePath } from './fileTree';
+import { ZipEntry, readZipEntries } from './zip';
+
+export interface ImportedFile {
+  path: string;
+  content: string;
+  binary: boolean;
+}
+
+export interface ImportResult {
+  files: ImportedFile[];
+  // Paths that were not imported, with the reason.
+  skipped: { path: string; reason: string }[];
+}
+
+export type ConflictStrategy = 'overwrite' | 'keep-both' | 'skip';
+
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+// What one archive may expand to in total, so a zip bomb can't fill the tab's memory.
+export const MAX_IMPORT_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+// OS and VCS clutter that should never end up in a project.
+const IGNORED_PATTERN = /(^|\/)(__MACOSX|\.git|\.DS_Store|Thumbs\.db|desktop\.ini)(\/|$)/i;
+
+const TEXT_EXTENSIONS = new Set([
+  'html', 'htm', 'css', 'js', 'mjs', 'cjs', 'jsx', 'ts', 'tsx', 'json', 'md', 'txt', 'svg', 'xml',
+  'csv', 'yml', 'yaml', 'toml', 'ini', 'map', 'vue', 'svelte', 'scss', 'sass', 'less', 'webmanifest',
+]);
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp',
+  avif: 'image/avif', ico: 'image/x-icon', bmp: 'image/bmp', woff: 'font/woff', woff2: 'font/woff2',
+  ttf: 'font/ttf', otf: 'font/otf', mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg',
+  mp4: 'video/mp4', webm: 'video/webm', pdf: 'application/pdf', wasm: 'application/wasm',
+  // Text formats, for serving project files to the preview.
+  svg: 'image/svg+xml', css: 'text/css', html: 'text/html', htm: 'text/html', js: 'text/javascript',
+  mjs: 'text/javascript', json: 'application/json', xml: 'application/xml', txt: 'text/plain',
+  webmanifest: 'application/manifest+json',
+};
+
+const extensionOf = (path: string) => basename(path).split('.').pop()?.toLowerCase() ?? '';
+
+export const mimeTypeFor = (path: string): string => MIME_TYPES[extensionOf(path)] ?? 'application/octet-stream';
+
+/**
+ * Known text extensions are always text. Anything else counts as binary if it contains
+ * a NUL byte or isn't valid UTF-8.
+ */
+export const isProbablyBinary = (path: string, bytes: Uint8Array): boolean => {
+  const extension = extensionOf(path);
+  if (TEXT_EXTENSIONS.has(extension)) return false;
+  if (extension in MIME_TYPES) return true;
+  const sample = bytes.subarray(0, 8000);
+  if (sample.includes(0)) return true;
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  // Allow for a multi-byte character cut off at the end of the sample.
+  const maxTrim = sample.length < bytes.length ? 3 : 0;
+  for (let trim = 0; trim <= maxTrim; trim++) {
+    try {
+      decoder.decode(sample.subarray(0, sample.length - trim));
+      return false;
+    } catch {
+      // Try again with a shorter sample.
+    }
+  }
+  return true;
+};
+
+const toDataUrl = (path: string, bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeTypeFor(path)};base64,${btoa(binary)}`;
+};
+
+const decodeEntry = (path: string, bytes: Uint8Array): ImportedFile => {
+  const binary = isProbablyBinary(path, bytes);
+  return { path, binary, content: binary ? toDataUrl(path, bytes) : new TextDecoder().decode(bytes) };
+};
+
+const readZip = async (file: File, result: ImportResult) => {
+  let zipEntries: ZipEntry[];
+  try {
+    zipEntries = await readZipEntries(await file.arrayBuffer());
+  } catch {
+    result.skipped.push({ path: file.name, reason: 'not a valid zip archive' });
+    return;
+  }
+  const entries = zipEntries.map(entry => ({ ...entry, path: normalizePath(entry.path) }));
+
+  // Archives made by zipping a folder have a single top-level directory; drop it so
+  // `my-site.zip` imports as the project itself rather than as `my-site/...`.
+  const visible = entries.filter(({ path }) => !IGNORED_PATTERN.test(path));
+  const roots = new Set(visible.map(({ path }) => path.split('/')[0]));
+  const stripRoot = roots.size === 1 && visible.every(({ path }) => path.includes('/'));
+
+  // Sizes are checked against what the archive declares before anything is decompressed, and
+  // decompression stops as soon as an entry turns out bigger than that.
+  const importPath = (path: string) => (stripRoot ? path.slice(path.indexOf('/') + 1) : path);
+  let remaining = MAX_IMPORT_ARCHIVE_BYTES;
+  for (const [index, { path, size, read }] of visible.entries()) {
+    const limit = Math.min(MAX_IMPORT_FILE_BYTES, remaining);
+    const bytes = size > limit ? null : await read(limit);
+    if (bytes) {
+      remaining -= bytes.length;
+      result.files.push(decodeEntry(importPath(path), bytes));
+    } else if (limit === MAX_IMPORT_FILE_BYTES) {
+      result.skipped.push({ path: importPath(path), reason: 'larger than 5 MB' });
+    } else {
+      visible.slice(index).forEach(entry => result.skipped.push({ path: importPath(entry.path), reason: 'the archive expands to more than 50 MB' }));
+      return;
+    }
+  }
+};
+
+const readSingleFile = async (file: File, path: string, result: ImportResult) => {
+  if (IGNORED_PATTERN.test(path)) return;
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    result.skipped.push({ path, reason: 'larger than 5 MB' });
+    return;
+  }
+  result.files.push(decodeEntry(path, new Uint8Array(await file.arrayBuffer())));
+};
+
+/**
+ * Reads files picked through an <input type="file">. Folder pickers provide
+ * webkitRelativePath, which is kept; .zip archives are expanded in place.
+ */
+export const readFileList = async (fileList: Iterable<File>): Promise<ImportResult> => {
+  const result: ImportResult = { files: [], skipped: [] };
+  for (const file of fileList) {
+    const path = normalizePath(file.webkitRelativePath || file.name);
+    if (extensionOf(path) === 'zip') await readZip(file, result);
+    else await readSingleFile(file, path, result);
+  }
+  return result;
+};
+
+const readEntryFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const all: FileSystemEntry[] = [];
+  // readEntries returns results in batches and an empty batch once it is done.
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return all;
+    all.push(...batch);
+  }
+};
+
+/**
+ * Reads files and folders dropped from the operating system. Must be called from the drop
+ * handler itself: the DataTransfer is emptied once the event returns.
+ */
+export const readDataTransfer = (dataTransfer: DataTransfer): Promise<ImportResult> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  const looseFiles = entries.length === 0 ? Array.from(dataTransfer.files) : [];
+
+  return (async () => {
+    if (looseFiles.length > 0) return readFileList(looseFiles);
+    const result: ImportResult = { files: [], skipped: [] };
+    const visit = async (entry: FileSystemEntry) => {
+      const path = normalizePath(entry.fullPath || entry.name);
+      if (IGNORED_PATTERN.test(path)) return;
+      if (entry.isDirectory) {
+        for (const child of await readDirectoryEntries(entry as FileSystemDirectoryEntry)) await visit(child);
+        return;
+      }
+      const file = await readEntryFile(entry as FileSystemFileEntry);
+      if (extensionOf(path) === 'zip') await readZip(file, result);
+      else await readSingleFile(file, path, result);
+    };
+    for (const entry of entries) await visit(entry);
+    return result;
+  })();
+};
+
+const isUnderFile = (nodes: ProjectNode[], path: string): boolean => {
+  for (let parent = dirname(path); parent; parent = dirname(parent)) {
+    if (findFile(nodes, parent)) return true;
+  }
+  return false;
+};
+
+/** Imported paths, relative to `targetDirectory`, that collide with something already in the project. */
+export const findImportConflicts = (nodes: ProjectNode[], imported: ImportedFile[], targetDirectory: string): string[] =>
+  imported
+    .map(file => joinPath(targetDirectory, file.path))
+    .filter(path => !!findNode(nodes, path) || isUnderFile(nodes, path));
+
+// "logo.png" -> "logo (1).png", "logo (2).png", …
+const uniquePath = (path: string, taken: Set<string>): string => {
+  const directory = dirname(path);
+  const name = basename(path);
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  for (let n = 1; ; n++) {
+    const candidate = joinPath(directory, `${stem} (${n})${extension}`);
+    if (!taken.has(candidate)) return candidate;
+  }
+};
+
+/** Merges imported files into the project under `targetDirectory`. */
+export const mergeImport = (nodes: ProjectNode[], imported: ImportedFile[], targetDirectory: string, strategy: ConflictStrategy): ProjectNode[] => {
+  const existing = flattenFiles(nodes);
+  const directories = collectDirectories(nodes);
+  const taken = new Set([...existing.map(file => file.name), ...directories]);
+  const byPath = new Map(existing.map(file => [file.name, file]));
+  const conflicts = new Set(findImportConflicts(nodes, imported, targetDirectory));
+
+  imported.forEach(file => {
+    let path = joinPath(targetDirectory, file.path);
+    if (conflicts.has(path)) {
+      if (strategy === 'skip' || isUnderFile(nodes, path)) return;
+      // A file can't replace a folder, so that case always gets a new name.
+      if (strategy === 'keep-both' || !byPath.has(path)) path = uniquePath(path, taken);
+    }
+    taken.add(path);
+    const node: FileNode = { name: path, content: file.content, type: 'file' };
+    if (file.binary) node.binary = true;
+    byPath.set(path, node);
+  });
+
+  return buildTree([...byPath.values()], directories);
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { MAX_SEARCH_MATCHES, SearchOptions, buildSearchPattern, previewReplacement, replaceMatches, searchFiles } from './projectSearch';
+
+const pattern = (query: string, options: Partial<Omit<SearchOptions, 'query'>> = {}): RegExp => {
+  const result = buildSearchPattern({ query, isRegex: false, matchCase: false, wholeWord: false, ...options });
+  if (result.success === false) throw new Error(result.error);
+  return result.pattern;
+};
+
+const file = (name: string, content: string, binary?: boolean): FileNode => ({ type: 'file', name, content, ...(binary ? { binary } : {}) });
+
+// The matched text of every match, per file.
+const matchedText = (files: FileNode[], search: RegExp) =>
+  searchFiles(files, search).results.map(({ fileName, matches }) => [fileName, matches.map(({ start, end }) => files.find(f => f.name === fileName)!.content.slice(start, end))]);
+
+describe('buildSearchPattern', () => {
+  const FILES = [file('a.js', 'Item item items.total\nlet item_count = ITEM;')];
+
+  it('searches for plain text literally and ignores case by default', () => {
+    expect(matchedText([file('a.js', 'a.b axb A.B')], pattern('a.b'))).toEqual([['a.js', ['a.b', 'A.B']]]);
+    expect(matchedText(FILES, pattern('item'))).toEqual([['a.js', ['Item', 'item', 'item', 'item', 'ITEM']]]);
+  });
+
+  it('matches case when asked', () => {
+    expect(matchedText(FILES, pattern('item', { matchCase: true }))).toEqual([['a.js', ['item', 'item', 'item']]]);
+  });
+
+  it('matches whole words only when asked, around a whole regex alternation', () => {
+    expect(matchedText(FILES, pattern('item', { wholeWord: true }))).toEqual([['a.js', ['Item', 'item', 'ITEM']]]);
+    expect(matchedText(FILES, pattern('item|total', { wholeWord: true, isRegex: true, matchCase: true }))).toEqual([['a.js', ['item', 'total']]]);
+  });
+
+  it('treats the query as a regex in regex mode, with ^ and $ per line', () => {
+    expect(matchedText(FILES, pattern('^\\w+', { isRegex: true }))).toEqual([['a.js', ['Item', 'let']]]);
+    expect(matchedText(FILES, pattern('\\w+;$', { isRegex: true }))).toEqual([['a.js', ['ITEM;']]]);
+  });
+
+  it('reports an invalid regex instead of throwing', () => {
+    const result = buildSearchPattern({ query: 'a(', isRegex: true, matchCase: false, wholeWord: false });
+    expect(result.success).toBe(false);
+    expect(buildSearchPattern({ query: 'a(', isRegex: false, matchCase: false, wholeWord: false }).success).toBe(true);
+  });
+});
+
+describe('searchFiles', () => {
+  it('skips zero-length matches without getting stuck', () => {
+    expect(matchedText([file('a.txt', 'baaab\nab')], pattern('a*', { isRegex: true }))).toEqual([['a.txt', ['aaa', 'a']]]);
+    expect(searchFiles([file('a.txt', 'abc')], pattern('^|$', { isRegex: true })).results).toEqual([]);
+  });
+
+  it('reports lines and a preview of the line around each match', () => {
+    const { results } = searchFiles([file('a.js', 'one\n  two three\nfour two')], pattern('two'));
+    expect(results[0].matches.map(({ line, preview }) => [line, preview])).toEqual([
+      [1, { before: '', text: 'two', after: ' three' }],
+      [2, { before: 'four ', text: 'two', after: '' }],
+    ]);
+  });
+
+  it('shows only the first line of a match that spans lines', () => {
+    const { results } = searchFiles([file('a.js', 'ab\ncd')], pattern('b\\nc', { isRegex: true }));
+    expect(results[0].matches[0].preview).toEqual({ before: 'a', text: 'b', after: '' });
+  });
+
+  it('skips binary files and stops at the match limit', () => {
+    const { results, truncated } = searchFiles([
+      file('logo.png', 'data:image/png;base64,eeee', true),
+      file('a.txt', 'e'.repeat(MAX_SEARCH_MATCHES - 1)),
+      file('b.txt', 'eee'),
+      file('c.txt', 'e'),
+    ], pattern('e'));
+    expect(results.map(({ fileName, matches }) => [fileName, matches.length])).toEqual([['a.txt', MAX_SEARCH_MATCHES - 1], ['b.txt', 1]]);
+    expect(truncated).toBe(true);
+  });
+});
+
+describe('replaceMatches', () => {
+  it('inserts the replacement literally outside regex mode', () => {
+    expect(replaceMatches('a.b a.b', pattern('a.b'), '$1 $&', false)).toBe('$1 $& $1 $&');
+  });
+
+  it('expands groups in regex mode', () => {
+    const search = pattern('(\\w+)@(?<host>\\w+)', { isRegex: true });
+    expect(replaceMatches('me@home you@work', search, '$2:$1 ($<host>) $& $$ $3', true)).toBe('home:me (home) me@home $ $3 work:you (work) you@work $ $3');
+  });
+
+  it('leaves text between zero-length matches alone', () => {
+    expect(replaceMatches('baaab', pattern('a*', { isRegex: true }), '[$&]', true)).toBe('b[aaa]b');
+  });
+
+  it('replaces only the first `limit` matches, as listed by a capped search', () => {
+    expect(replaceMatches('x x x x', pattern('x'), 'y', false, { limit: 2 })).toBe('y y x x');
+  });
+
+  it('replaces only the match at `onlyAt`, and nothing once that match has gone', () => {
+    const search = pattern('cat');
+    expect(replaceMatches('cat cat cat', search, 'dog', false, { onlyAt: 4 })).toBe('cat dog cat');
+    // The match list was built before an edit shifted the text.
+    expect(replaceMatches('a cat cat', search, 'dog', false, { onlyAt: 4 })).toBe('a cat cat');
+  });
+});
+
+describe('previewReplacement', () => {
+  it('shows what a single match becomes', () => {
+    const search = pattern('(\\w+)\\.js', { isRegex: true });
+    const [match] = searchFiles([file('index.html', '<script src="app.js">')], search).results[0].matches;
+    expect(previewReplacement(match, search, '$1.ts', true)).toBe('app.ts');
+    expect(previewReplacement(match, search, '$1.ts', false)).toBe('$1.ts');
+  });
+});
@@ -0,0 +1,138 @@
+import { FileNode } from '../types';
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean;
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  start: number;
+  end: number;
+  // 0-based line of the match's start.
+  line: number;
+  // The match with a little of its line on either side, for the results list.
+  preview: { before: string; text: string; after: string };
+}
+
+export interface FileSearchResult {
+  fileName: string;
+  matches: SearchMatch[];
+}
+
+export type SearchPatternResult = { success: true; pattern: RegExp } | { success: false; error: string };
+
+// Stop collecting past this many matches; a search for `e` shouldn't render a million rows.
+export const MAX_SEARCH_MATCHES = 2000;
+const PREVIEW_CONTEXT_CHARS = 40;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Turns the search box and its toggles into a global regex; a bad regex comes back as an error to show. */
+export const buildSearchPattern = ({ query, isRegex, matchCase, wholeWord }: SearchOptions): SearchPatternResult => {
+  const source = isRegex ? query : escapeRegExp(query);
+  try {
+    return { success: true, pattern: new RegExp(wholeWord ? `\\b(?:${source})\\b` : source, matchCase ? 'gm' : 'gim') };
+  } catch (error) {
+    return { success: false, error: error instanceof SyntaxError ? error.message : 'Invalid regular expression.' };
+  }
+};
+
+// Every non-empty match; empty ones (from patterns like `a*`) are skipped.
+const findMatches = (content: string, pattern: RegExp, limit: number): RegExpExecArray[] => {
+  const matches: RegExpExecArray[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (matches.length < limit && (match = pattern.exec(content))) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push(match);
+  }
+  return matches;
+};
+
+const toSearchMatch = (content: string, match: RegExpExecArray, line: number): SearchMatch => {
+  const start = match.index;
+  const end = start + match[0].length;
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const newline = content.indexOf('\n', start);
+  const lineEnd = newline === -1 ? content.length : newline;
+  const contextStart = Math.max(lineStart, start - PREVIEW_CONTEXT_CHARS);
+  return {
+    start,
+    end,
+    line,
+    preview: {
+      before: (contextStart > lineStart ? '…' : '') + content.slice(contextStart, start).trimStart(),
+      // Multi-line matches show only their first line.
+      text: content.slice(start, Math.min(end, lineEnd)),
+      after: end <= lineEnd ? content.slice(end, Math.min(lineEnd, end + PREVIEW_CONTEXT_CHARS)) : '',
+    },
+  };
+};
+
+/** Searches every text file, in the order given, up to MAX_SEARCH_MATCHES matches in total. */
+export const searchFiles = (files: FileNode[], pattern: RegExp): { results: FileSearchResult[]; truncated: boolean } => {
+  const results: FileSearchResult[] = [];
+  let remaining = MAX_SEARCH_MATCHES;
+  for (const file of files) {
+    if (file.binary) continue;
+    if (remaining === 0) return { results, truncated: true };
+    const found = findMatches(file.content, pattern, remaining);
+    if (found.length === 0) continue;
+    remaining -= found.length;
+    // Count lines incrementally rather than from the top for every match.
+    let line = 0;
+    let counted = 0;
+    const matches = found.map(match => {
+      for (let i = counted; i < match.index; i++) if (file.content[i] === '\n') line++;
+      counted = match.index;
+      return toSearchMatch(file.content, match, line);
+    });
+    results.push({ fileName: file.name, matches });
+  }
+  return { results, truncated: remaining === 0 };
+};
+
+// Expands `$&`, `$1`, `$<name>` and `$$` in a regex replacement, as String.prototype.replace would.
+const expandReplacement = (match: RegExpExecArray, replacement: string): string =>
+  replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, symbol: string, name?: string) => {
+    if (symbol === '$') return '$';
+    if (symbol === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const group = Number(symbol);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+
+/**
+ * Replaces matches in `content`: every one, the first `limit` (the ones a capped search listed), or
+ * only the match starting at `onlyAt`. In regex mode the replacement can refer to groups; otherwise
+ * it is inserted literally.
+ */
+export const replaceMatches = (
+  content: string,
+  pattern: RegExp,
+  replacement: string,
+  isRegex: boolean,
+  { onlyAt, limit = Infinity }: { onlyAt?: number; limit?: number } = {},
+): string => {
+  let result = '';
+  let last = 0;
+  findMatches(content, pattern, limit).forEach(match => {
+    if (onlyAt !== undefined && match.index !== onlyAt) return;
+    result += content.slice(last, match.index) + (isRegex ? expandReplacement(match, replacement) : replacement);
+    last = match.index + match[0].length;
+  });
+  return result + content.slice(last);
+};
+
+/** What a single match becomes, for previewing a replacement next to the original. */
+export const previewReplacement = (match: SearchMatch, pattern: RegExp, replacement: string, isRegex: boolean): string => {
+  if (!isRegex) return replacement;
+  const single = new RegExp(pattern.source, pattern.flags.replace('g', ''));
+  const found = single.exec(match.preview.text);
+  return found ? expandReplacement(found, replacement) : replacement;
+};
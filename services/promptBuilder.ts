@@ -0,0 +1,143 @@
+import { ChatMessage, FileNode, ModelContext } from '../types';
+
+export interface PromptBudget {
+  // Upper bound for the whole prompt, instructions included.
+  total: number;
+  // Share of the remaining budget reserved for earlier chat turns; the rest goes to files.
+  historyShare: number;
+  maxFileChars: number;
+  maxMessageChars: number;
+}
+
+export const DEFAULT_PROMPT_BUDGET: PromptBudget = {
+  total: 32000,
+  historyShare: 0.25,
+  maxFileChars: 12000,
+  maxMessageChars: 1500,
+};
+
+// Files that would get less room than this are listed by name only.
+const MIN_FILE_CHARS = 400;
+const MAX_SUMMARIZED_REQUESTS = 10;
+
+const LANGUAGES: Record<string, string> = {
+  html: 'html', htm: 'html', css: 'css', js: 'javascript', mjs: 'javascript', jsx: 'jsx',
+  ts: 'typescript', tsx: 'tsx', json: 'json', md: 'markdown', svg: 'svg',
+};
+
+const INSTRUCTIONS = `Respond with every file you create or change as a fenced code block whose opening fence names the file path, for example:
+\`\`\`html path=index.html
+<!DOCTYPE html>
+...
+\`\`\`
+Always write the complete contents of each file. Put styles and scripts in their own files (e.g. styles.css, app.js) and reference them from index.html.
+Only include files that change. Do not rewrite a file marked as truncated unless the request requires it.
+To delete a file, write a line of the form: DELETE path/to/file
+You may start with one or two sentences describing the change. Do NOT add any other text or markdown.`;
+
+/** Keeps the start and end of `text`, replacing the middle with a marker, so it fits in `limit`. */
+export const truncateMiddle = (text: string, limit: number): string => {
+  if (text.length <= limit) return text;
+  const marker = `\n[... ${text.length - limit} characters omitted ...]\n`;
+  const room = Math.max(0, limit - marker.length);
+  const head = Math.ceil(room * 0.6);
+  return text.slice(0, head) + marker + text.slice(text.length - (room - head));
+};
+
+const fenceFor = (content: string): string => {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  return '`'.repeat(longestRun + 1);
+};
+
+const formatFile = (file: FileNode, limit: number): string => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const content = truncateMiddle(file.content, limit);
+  const fence = fenceFor(content);
+  const note = content.length < file.content.length ? ' (truncated)' : '';
+  return `### ${file.name}${note}\n${fence}${LANGUAGES[extension] || ''}\n${content}\n${fence}`;
+};
+
+const buildFilesSection = (files: FileNode[], activeFile: string | null, budget: number, maxFileChars: number): string => {
+  if (files.length === 0) return 'The project is empty.';
+  // The active file goes first so it is the last thing to be squeezed out.
+  const ordered = [...files].sort((a, b) => Number(b.name === activeFile) - Number(a.name === activeFile));
+  const sections: string[] = [];
+  const omitted: string[] = [];
+  let remaining = budget;
+
+  ordered.forEach(file => {
+    if (file.binary) {
+      omitted.push(`${file.name} (binary)`);
+      return;
+    }
+    const limit = Math.min(maxFileChars, remaining - file.name.length - 40);
+    if (limit < Math.min(MIN_FILE_CHARS, file.content.length + 1)) {
+      omitted.push(`${file.name} (${file.content.length} characters)`);
+      return;
+    }
+    const section = formatFile(file, limit);
+    sections.push(section);
+    remaining -= section.length + 2;
+  });
+
+  if (activeFile) sections.unshift(`The user currently has \`${activeFile}\` open.`);
+  if (omitted.length > 0) sections.push(`Other files in the project (contents not shown): ${omitted.join(', ')}`);
+  return sections.join('\n\n');
+};
+
+const buildHistorySection = (history: ChatMessage[], budget: number, maxMessageChars: number): string => {
+  const turns = history.filter(message => !message.isError);
+  const included: string[] = [];
+  // Keep some room for the summary of whatever doesn't fit.
+  const summaryReserve = Math.floor(budget * 0.2);
+  let remaining = budget - summaryReserve;
+  let cutoff = turns.length;
+
+  // Walk backwards so the most recent turns are kept verbatim.
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const speaker = turns[i].sender === 'user' ? 'User' : 'Nix';
+    const line = `${speaker}: ${truncateMiddle(turns[i].content, maxMessageChars)}`;
+    if (line.length > remaining) break;
+    included.unshift(line);
+    remaining -= line.length + 1;
+    cutoff = i;
+  }
+
+  // Older turns are reduced to the user's requests, one line each.
+  const earlierRequests = turns
+    .slice(0, cutoff)
+    .filter(message => message.sender === 'user')
+    .slice(-MAX_SUMMARIZED_REQUESTS)
+    .map(message => `- ${message.content.replace(/\s+/g, ' ').slice(0, 100)}`);
+  let summary = '';
+  if (cutoff > 0) {
+    summary = `(${cutoff} earlier messages omitted.${earlierRequests.length > 0 ? ' Earlier the user asked for:' : ''})`;
+    if (earlierRequests.length > 0) summary += `\n${earlierRequests.join('\n')}`;
+    if (summary.length > remaining + summaryReserve) summary = `(${cutoff} earlier messages omitted.)`;
+  }
+
+  return [summary, ...included].filter(Boolean).join('\n');
+};
+
+/**
+ * Builds the full prompt for a request. Truncation is deterministic: the same request,
+ * files and history always produce the same prompt.
+ */
+export const buildPrompt = (request: string, context?: ModelContext, budget: PromptBudget = DEFAULT_PROMPT_BUDGET): string => {
+  const header = `You are Nix 1.5, an expert AI web developer. Your single purpose is to generate and edit code for the user's project.`;
+  const requestSection = `## User's request\n"${request}"`;
+  const fixedLength = header.length + requestSection.length + INSTRUCTIONS.length + 300;
+  const available = Math.max(0, budget.total - fixedLength);
+
+  const parts = [header];
+  if (context) {
+    const historyBudget = Math.floor(available * budget.historyShare);
+    const history = buildHistorySection(context.history, historyBudget, budget.maxMessageChars);
+    // Whatever the history doesn't use is handed on to the files.
+    const filesBudget = available - history.length;
+    parts.push(`## Current project files\n${buildFilesSection(context.files, context.activeFile, filesBudget, budget.maxFileChars)}`);
+    if (history) parts.push(`## Conversation so far\n${history}`);
+  }
+  parts.push(requestSection, INSTRUCTIONS);
+  return parts.join('\n\n');
+};
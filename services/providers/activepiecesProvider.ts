@@ -0,0 +1,32 @@
+import { ModelProvider } from '../../types';
+
+export const activepiecesProvider: ModelProvider = {
+  id: 'activepieces',
+  label: 'Activepieces webhook',
+  description: 'Posts the prompt as {question} to an Activepieces flow and reads {answer} back. Does not stream.',
+  fields: ['endpoint'],
+  send: async ({ prompt }, { endpoint }, { signal, onProgress } = {}) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ question: prompt }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook failed with status: ${response.status}`);
+    }
+
+    const rawData = await response.json();
+
+    if (rawData && typeof rawData.answer === 'string') {
+        const answer = rawData.answer.trim();
+        onProgress?.(answer);
+        return answer;
+    } else {
+        return "Received an empty or unexpected response from the model.";
+    }
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Reads a text/event-stream response body and calls `onData` with the data of each event.
+ * Rejects with an AbortError if the request's signal is aborted mid-stream.
+ */
+export const readEventStream = async (response: Response, onData: (data: string) => void) => {
+  if (!response.body) throw new Error('The response has no body to stream.');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (event: string) => {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data) onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? '';
+    events.forEach(dispatch);
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) dispatch(buffer);
+};
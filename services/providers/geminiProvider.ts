@@ -0,0 +1,37 @@
+import { ModelProvider } from '../../types';
+import { readEventStream } from './eventStream';
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Gemini API',
+  description: 'Calls generateContent on the Gemini API (or any endpoint that speaks the same protocol).',
+  fields: ['endpoint', 'model', 'apiKey'],
+  send: async ({ prompt }, { endpoint, model, apiKey }, { signal, onProgress } = {}) => {
+    if (!apiKey) throw new Error('The Gemini provider needs an API key. Add one in Settings.');
+    const url = `${endpoint.replace(/\/+$/, '')}/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`;
+    const response = await fetch(url, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: prompt }] }] }),
+    });
+
+    if (!response.ok) {
+      const details = await response.json().catch(() => null);
+      throw new Error(details?.error?.message || `Gemini request failed with status: ${response.status}`);
+    }
+
+    let text = '';
+    await readEventStream(response, data => {
+      const chunk = JSON.parse(data);
+      const parts: { text?: string }[] = chunk?.candidates?.[0]?.content?.parts || [];
+      text += parts.map(part => part.text || '').join('');
+      onProgress?.(text);
+    });
+    if (!text) throw new Error('Gemini returned an empty response.');
+    return text.trim();
+  },
+};
@@ -0,0 +1,44 @@
+import { ModelProvider, ModelProviderId, ModelSettings } from '../../types';
+import { ACTIVEPIECES_WEBHOOK_URL, GEMINI_API_BASE_URL, GEMINI_DEFAULT_MODEL, OPENAI_API_BASE_URL, OPENAI_DEFAULT_MODEL } from '../../constants';
+import { activepiecesProvider } from './activepiecesProvider';
+import { geminiProvider } from './geminiProvider';
+import { openaiProvider } from './openaiProvider';
+import { mockProvider } from './mockProvider';
+
+export const MODEL_PROVIDERS: Record<ModelProviderId, ModelProvider> = {
+  activepieces: activepiecesProvider,
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+const SETTINGS_STORAGE_KEY = 'codenix.modelSettings';
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  provider: 'activepieces',
+  configs: {
+    activepieces: { endpoint: ACTIVEPIECES_WEBHOOK_URL, apiKey: '', model: '' },
+    gemini: { endpoint: GEMINI_API_BASE_URL, apiKey: '', model: GEMINI_DEFAULT_MODEL },
+    openai: { endpoint: OPENAI_API_BASE_URL, apiKey: '', model: OPENAI_DEFAULT_MODEL },
+    mock: { endpoint: '', apiKey: '', model: '' },
+  },
+};
+
+export const loadModelSettings = (): ModelSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null') as Partial<ModelSettings> | null;
+    if (!stored) return DEFAULT_MODEL_SETTINGS;
+    const provider = stored.provider && stored.provider in MODEL_PROVIDERS ? stored.provider : DEFAULT_MODEL_SETTINGS.provider;
+    const configs = { ...DEFAULT_MODEL_SETTINGS.configs };
+    (Object.keys(configs) as ModelProviderId[]).forEach(id => {
+      configs[id] = { ...configs[id], ...stored.configs?.[id] };
+    });
+    return { provider, configs };
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+export const saveModelSettings = (settings: ModelSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
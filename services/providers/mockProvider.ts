@@ -0,0 +1,264 @@
+import { ModelProvider } from '../../types';
+
+interface CannedProject {
+  keywords: string[];
+  summary: string;
+  files: { path: string; language: string; content: string }[];
+}
+
+const LANDING_PAGE: CannedProject = {
+  keywords: [],
+  summary: 'Created a simple landing page with a hero section and a call-to-action button.',
+  files: [
+    {
+      path: 'index.html',
+      language: 'html',
+      content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Launchpad</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <header class="hero">
+    <h1>Launchpad</h1>
+    <p>Ship your next idea in minutes, not months.</p>
+    <button id="cta">Get started</button>
+  </header>
+  <script src="app.js"></script>
+</body>
+</html>`,
+    },
+    {
+      path: 'styles.css',
+      language: 'css',
+      content: `body {
+  margin: 0;
+  font-family: system-ui, sans-serif;
+  background: #0f172a;
+  color: #e2e8f0;
+}
+
+.hero {
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  text-align: center;
+}
+
+.hero h1 {
+  font-size: 3rem;
+  margin-bottom: 0.5rem;
+}
+
+#cta {
+  margin-top: 1.5rem;
+  padding: 0.75rem 1.5rem;
+  border: none;
+  border-radius: 0.5rem;
+  background: #3b82f6;
+  color: white;
+  font-size: 1rem;
+  cursor: pointer;
+}`,
+    },
+    {
+      path: 'app.js',
+      language: 'javascript',
+      content: `document.getElementById('cta').addEventListener('click', () => {
+  console.log('Call to action clicked');
+  alert('Thanks for your interest!');
+});`,
+    },
+  ],
+};
+
+const TODO_APP: CannedProject = {
+  keywords: ['todo', 'to-do', 'task', 'checklist'],
+  summary: 'Created a to-do list app that keeps items in memory.',
+  files: [
+    {
+      path: 'index.html',
+      language: 'html',
+      content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>To-do</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <main>
+    <h1>To-do</h1>
+    <form id="new-task">
+      <input id="task-input" placeholder="What needs doing?" autocomplete="off">
+      <button type="submit">Add</button>
+    </form>
+    <ul id="tasks"></ul>
+  </main>
+  <script src="app.js"></script>
+</body>
+</html>`,
+    },
+    {
+      path: 'styles.css',
+      language: 'css',
+      content: `body {
+  font-family: system-ui, sans-serif;
+  background: #f8fafc;
+  display: flex;
+  justify-content: center;
+  padding-top: 4rem;
+}
+
+main {
+  width: 24rem;
+}
+
+form {
+  display: flex;
+  gap: 0.5rem;
+}
+
+input {
+  flex: 1;
+  padding: 0.5rem;
+}
+
+li.done {
+  text-decoration: line-through;
+  color: #94a3b8;
+}`,
+    },
+    {
+      path: 'app.js',
+      language: 'javascript',
+      content: `const form = document.getElementById('new-task');
+const input = document.getElementById('task-input');
+const list = document.getElementById('tasks');
+
+form.addEventListener('submit', (event) => {
+  event.preventDefault();
+  const text = input.value.trim();
+  if (!text) return;
+  const item = document.createElement('li');
+  item.textContent = text;
+  item.addEventListener('click', () => item.classList.toggle('done'));
+  list.appendChild(item);
+  input.value = '';
+  console.info('Added task:', text);
+});`,
+    },
+  ],
+};
+
+const PORTFOLIO: CannedProject = {
+  keywords: ['portfolio', 'resume', 'about me', 'personal'],
+  summary: 'Created a one-page portfolio with a project grid.',
+  files: [
+    {
+      path: 'index.html',
+      language: 'html',
+      content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Portfolio</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <header>
+    <h1>Alex Doe</h1>
+    <p>Front-end developer</p>
+  </header>
+  <section class="projects">
+    <article><h2>Project One</h2><p>A weather dashboard.</p></article>
+    <article><h2>Project Two</h2><p>A recipe finder.</p></article>
+    <article><h2>Project Three</h2><p>A budgeting tool.</p></article>
+  </section>
+</body>
+</html>`,
+    },
+    {
+      path: 'styles.css',
+      language: 'css',
+      content: `body {
+  margin: 0;
+  font-family: Georgia, serif;
+  color: #1f2937;
+}
+
+header {
+  padding: 4rem 2rem;
+  background: #fde68a;
+  text-align: center;
+}
+
+.projects {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(14rem, 1fr));
+  gap: 1.5rem;
+  padding: 2rem;
+}
+
+article {
+  padding: 1.5rem;
+  border: 1px solid #e5e7eb;
+  border-radius: 0.75rem;
+}`,
+    },
+  ],
+};
+
+const PROJECTS = [TODO_APP, PORTFOLIO];
+const RESPONSE_DELAY_MS = 400;
+const CHUNK_SIZE = 48;
+const CHUNK_DELAY_MS = 15;
+
+const pickCannedProject = (message: string): CannedProject => {
+  const lower = message.toLowerCase();
+  return PROJECTS.find(project => project.keywords.some(keyword => lower.includes(keyword))) || LANDING_PAGE;
+};
+
+const formatCannedProject = (project: CannedProject): string =>
+  [project.summary, ...project.files.map(file => `\`\`\`${file.language} path=${file.path}\n${file.content}\n\`\`\``)].join('\n\n');
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  description: 'Returns canned projects without any network access. Mention "todo" or "portfolio" to switch templates, or "simulate error" to test failures.',
+  fields: [],
+  send: async ({ message }, _config, { signal, onProgress } = {}) => {
+    const wait = (ms: number) => new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(new DOMException('The request was aborted.', 'AbortError'));
+      const handleAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The request was aborted.', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+
+    await wait(RESPONSE_DELAY_MS);
+    if (message.toLowerCase().includes('simulate error')) {
+      throw new Error('Simulated failure from the offline mock provider.');
+    }
+    // Streams the answer in fixed-size chunks so the streaming UI can be exercised offline.
+    const answer = formatCannedProject(pickCannedProject(message));
+    for (let end = CHUNK_SIZE; end < answer.length; end += CHUNK_SIZE) {
+      onProgress?.(answer.slice(0, end));
+      await wait(CHUNK_DELAY_MS);
+    }
+    onProgress?.(answer);
+    return answer;
+  },
+};
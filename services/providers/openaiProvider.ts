@@ -0,0 +1,36 @@
+import { ModelProvider } from '../../types';
+import { readEventStream } from './eventStream';
+
+export const openaiProvider: ModelProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  description: 'Calls /chat/completions on OpenAI or a compatible server (LM Studio, Ollama, vLLM, OpenRouter…).',
+  fields: ['endpoint', 'model', 'apiKey'],
+  send: async ({ prompt }, { endpoint, model, apiKey }, { signal, onProgress } = {}) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually don't need a key, so it is optional here.
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers,
+      body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }], stream: true }),
+    });
+
+    if (!response.ok) {
+      const details = await response.json().catch(() => null);
+      throw new Error(details?.error?.message || `Chat completion failed with status: ${response.status}`);
+    }
+
+    let text = '';
+    await readEventStream(response, data => {
+      if (data === '[DONE]') return;
+      const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (typeof delta !== 'string') return;
+      text += delta;
+      onProgress?.(text);
+    });
+    if (!text) throw new Error('The model returned an empty response.');
+    return text.trim();
+  },
+};
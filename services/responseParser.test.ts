@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { FALLBACK_FILE_NAME, describeChanges, parseModelResponse } from './responseParser';
+
+describe('parseModelResponse', () => {
+  describe('fenced blocks', () => {
+    it('takes the path from the fence, the heading above it or a comment on its first line', () => {
+      const parsed = parseModelResponse([
+        'Here is the page.',
+        '```html path=index.html',
+        '<h1>Hi</h1>',
+        '```',
+        '### File: `css/site.css`',
+        '```css',
+        'h1 { color: red; }',
+        '```',
+        '```js',
+        '// js/app.js',
+        'console.log(1);',
+        '```',
+      ].join('\n'));
+      expect(parsed.isStructured).toBe(true);
+      expect(parsed.changes).toEqual([
+        { type: 'upsert', path: 'index.html', content: '<h1>Hi</h1>\n' },
+        { type: 'upsert', path: 'css/site.css', content: 'h1 { color: red; }\n' },
+        { type: 'upsert', path: 'js/app.js', content: 'console.log(1);\n' },
+      ]);
+      expect(parsed.summary).toBe('Here is the page.');
+    });
+
+    it('keeps shorter fences inside a longer one', () => {
+      const parsed = parseModelResponse('````md path=README.md\n```js\nx();\n```\n````');
+      expect(parsed.changes).toEqual([{ type: 'upsert', path: 'README.md', content: '```js\nx();\n```\n' }]);
+    });
+
+    it('lets the last block for a path win, in the position of the first', () => {
+      const parsed = parseModelResponse('```js path=a.js\n1\n```\n```js path=b.js\n2\n```\n```js path=a.js\n3\n```');
+      expect(parsed.changes.map(change => change.type === 'upsert' && [change.path, change.content])).toEqual([['a.js', '3\n'], ['b.js', '2\n']]);
+    });
+  });
+
+  describe('deletions', () => {
+    it('reads DELETE lines next to file blocks', () => {
+      const parsed = parseModelResponse('DELETE old.js\n- DELETE: `styles/legacy.css`\n```js path=new.js\nx\n```');
+      expect(parsed.changes).toEqual([
+        { type: 'delete', path: 'old.js' },
+        { type: 'delete', path: 'styles/legacy.css' },
+        { type: 'upsert', path: 'new.js', content: 'x\n' },
+      ]);
+    });
+
+    it('ignores a DELETE line without a usable path', () => {
+      const parsed = parseModelResponse('DELETE everything\n```js path=a.js\nx\n```');
+      expect(parsed.changes).toEqual([{ type: 'upsert', path: 'a.js', content: 'x\n' }]);
+    });
+  });
+
+  describe('JSON manifest', () => {
+    it('reads files, deletions and the summary, fenced or not', () => {
+      const manifest = JSON.stringify({
+        files: [{ path: 'index.html', content: '<p>hi</p>' }, { path: 'gone.js', action: 'delete' }],
+        delete: ['old.css'],
+        summary: ' Added a page. ',
+      });
+      for (const text of [manifest, `\`\`\`json\n${manifest}\n\`\`\``]) {
+        expect(parseModelResponse(text)).toEqual({
+          changes: [
+            { type: 'upsert', path: 'index.html', content: '<p>hi</p>' },
+            { type: 'delete', path: 'gone.js' },
+            { type: 'delete', path: 'old.css' },
+          ],
+          summary: 'Added a page.',
+          isStructured: true,
+        });
+      }
+    });
+
+    it('skips entries without a path or content', () => {
+      const parsed = parseModelResponse(JSON.stringify({ files: [{ content: 'x' }, { path: 'a.js' }, { path: 'b.js', content: 'y' }] }));
+      expect(parsed.changes).toEqual([{ type: 'upsert', path: 'b.js', content: 'y' }]);
+    });
+
+    it('falls back to the whole answer when the manifest is broken', () => {
+      const text = '{"files": [{"path": "a.js", "content": "x"}';
+      expect(parseModelResponse(text)).toEqual({
+        changes: [{ type: 'upsert', path: FALLBACK_FILE_NAME, content: text }],
+        summary: '',
+        isStructured: false,
+      });
+    });
+  });
+
+  describe('truncated answers', () => {
+    const TRUNCATED = '```html path=a.html\n<p>hi</p>\n```\nDELETE old.js\n```js path=b.js\nconst x = 1;\nconst y';
+
+    it('runs an unterminated block to the end of the text', () => {
+      expect(parseModelResponse(TRUNCATED).changes).toContainEqual({ type: 'upsert', path: 'b.js', content: 'const x = 1;\nconst y\n' });
+    });
+
+    it('leaves the unterminated block out of a partial answer', () => {
+      expect(parseModelResponse(TRUNCATED, true).changes).toEqual([
+        { type: 'upsert', path: 'a.html', content: '<p>hi</p>\n' },
+        { type: 'delete', path: 'old.js' },
+      ]);
+    });
+
+    it('leaves an unfinished last line of a partial answer out', () => {
+      expect(parseModelResponse('Done.\nDELETE old.j', true).isStructured).toBe(false);
+      expect(parseModelResponse('Done.\nDELETE old.js\n', true).changes).toEqual([{ type: 'delete', path: 'old.js' }]);
+    });
+  });
+
+  describe('fallback', () => {
+    it('uses the only unnamed code block as the single file', () => {
+      expect(parseModelResponse('Sure:\n```html\n<h1>Hi</h1>\n```\nEnjoy!')).toEqual({
+        changes: [{ type: 'upsert', path: FALLBACK_FILE_NAME, content: '<h1>Hi</h1>' }],
+        summary: '',
+        isStructured: false,
+      });
+    });
+
+    it('uses the whole answer for plain code or several unnamed blocks', () => {
+      expect(parseModelResponse('  <h1>Hi</h1>\n').changes).toEqual([{ type: 'upsert', path: FALLBACK_FILE_NAME, content: '<h1>Hi</h1>' }]);
+      const text = '```\na\n```\n```\nb\n```';
+      expect(parseModelResponse(text).changes).toEqual([{ type: 'upsert', path: FALLBACK_FILE_NAME, content: text }]);
+    });
+  });
+});
+
+describe('describeChanges', () => {
+  it('lists updated and deleted paths', () => {
+    expect(describeChanges([
+      { type: 'upsert', path: 'a.js', content: '' },
+      { type: 'delete', path: 'b.js' },
+      { type: 'upsert', path: 'c.js', content: '' },
+    ])).toBe('Updated: a.js, c.js\nDeleted: b.js');
+  });
+});
@@ -0,0 +1,189 @@
+import { FileChange } from '../types';
+import { normalizePath } from './fileTree';
+
+// The file that receives the whole answer when the model ignores the multi-file format.
+export const FALLBACK_FILE_NAME = 'content';
+
+export interface ParsedModelResponse {
+  changes: FileChange[];
+  // Any prose the model wrote outside of file blocks, shown in the chat.
+  summary: string;
+  // False when nothing in the answer matched the format and the fallback was used.
+  isStructured: boolean;
+}
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*(.*)$/;
+const PATH_ATTRIBUTE_PATTERN = /\b(?:path|file|filename|name)\s*[=:]\s*["']?([^"'\s]+)["']?/i;
+const DELETE_PATTERN = /^\s*(?:[-*]\s*)?DELETE\s*:?\s+`?([^\s`]+)`?\s*$/i;
+const LOOKS_LIKE_PATH = /^[\w@()[\]\-./]+\.[A-Za-z0-9]+$/;
+const COMMENT_HEADER_PATTERNS = [
+  /^\s*<!--\s*(\S+)\s*-->\s*$/,
+  /^\s*\/\*\s*(\S+)\s*\*\/\s*$/,
+  /^\s*\/\/\s*(\S+)\s*$/,
+  /^\s*#\s*(\S+)\s*$/,
+];
+
+const cleanPath = (candidate: string | undefined): string | null => {
+  if (!candidate) return null;
+  const path = normalizePath(candidate.replace(/^["'`]|["'`:]$/g, ''));
+  return path && LOOKS_LIKE_PATH.test(path) ? path : null;
+};
+
+// e.g. "```html path=index.html", "```index.html", "```css:styles/main.css"
+const pathFromFenceInfo = (info: string): string | null => {
+  const attribute = info.match(PATH_ATTRIBUTE_PATTERN);
+  if (attribute) return cleanPath(attribute[1]);
+  const tokens = info.split(/[\s:]+/).filter(Boolean);
+  for (const token of tokens) {
+    const path = cleanPath(token);
+    if (path) return path;
+  }
+  return null;
+};
+
+// e.g. "**index.html**", "### File: `js/app.js`", "styles.css:"
+const pathFromHeading = (line: string): string | null => {
+  const stripped = line.replace(/^[\s#>*_-]*(?:\d+\.\s*)?(?:file(?:name)?\s*:\s*)?/i, '').replace(/[\s*_:]*$/, '');
+  return cleanPath(stripped.replace(/^`|`$/g, ''));
+};
+
+const parseManifest = (text: string): ParsedModelResponse | null => {
+  const jsonSource = text.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i, '$1');
+  if (!jsonSource.startsWith('{')) return null;
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(jsonSource);
+  } catch {
+    return null;
+  }
+  if (!manifest || typeof manifest !== 'object' || !Array.isArray((manifest as { files?: unknown }).files)) return null;
+  const { files, delete: deleted, summary } = manifest as { files: unknown[]; delete?: unknown; summary?: unknown };
+
+  const changes: FileChange[] = [];
+  files.forEach(entry => {
+    if (!entry || typeof entry !== 'object') return;
+    const { path, name, content, action } = entry as Record<string, unknown>;
+    const cleaned = cleanPath(typeof path === 'string' ? path : typeof name === 'string' ? name : undefined);
+    if (!cleaned) return;
+    if (action === 'delete') changes.push({ type: 'delete', path: cleaned });
+    else if (typeof content === 'string') changes.push({ type: 'upsert', path: cleaned, content });
+  });
+  if (Array.isArray(deleted)) {
+    deleted.forEach(path => {
+      const cleaned = typeof path === 'string' ? cleanPath(path) : null;
+      if (cleaned) changes.push({ type: 'delete', path: cleaned });
+    });
+  }
+  if (changes.length === 0) return null;
+  return { changes: dedupeChanges(changes), summary: typeof summary === 'string' ? summary.trim() : '', isStructured: true };
+};
+
+// The last instruction for a path wins, but it keeps the position of the first one.
+const dedupeChanges = (changes: FileChange[]): FileChange[] => {
+  const byPath = new Map<string, FileChange>();
+  changes.forEach(change => byPath.set(change.path, change));
+  return [...byPath.values()];
+};
+
+/**
+ * Extracts file changes from a model answer. Understands fenced code blocks labelled with
+ * a path (on the fence, on the heading line above it, or in a comment on its first line),
+ * `DELETE <path>` lines and a JSON manifest of the form
+ * `{ "files": [{ "path", "content" }], "delete": [paths], "summary" }`.
+ *
+ * Anything it cannot make sense of falls back to the old behavior of writing the whole
+ * answer (or the contents of its only code block) to a single `content` file.
+ *
+ * With `partial`, the text is an answer that was cut off: its unfinished last line and any
+ * file block that never got its closing fence are left out rather than taken as complete.
+ */
+export const parseModelResponse = (text: string, partial = false): ParsedModelResponse => {
+  const manifest = parseManifest(text);
+  if (manifest) return manifest;
+
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (partial) lines.pop();
+  const changes: FileChange[] = [];
+  const summaryLines: string[] = [];
+  const unnamedBlocks: string[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    const fence = line.match(FENCE_PATTERN);
+
+    if (!fence) {
+      const deletion = line.match(DELETE_PATTERN);
+      const deletedPath = deletion && cleanPath(deletion[1]);
+      if (deletedPath) changes.push({ type: 'delete', path: deletedPath });
+      else summaryLines.push(line);
+      index++;
+      continue;
+    }
+
+    const [, marker, info] = fence;
+    const body: string[] = [];
+    let isClosed = false;
+    index++;
+    // An unterminated block (e.g. a truncated answer) runs to the end of the text.
+    while (index < lines.length) {
+      const closing = lines[index].match(/^\s*(`{3,}|~{3,})\s*$/);
+      if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) {
+        isClosed = true;
+        break;
+      }
+      body.push(lines[index]);
+      index++;
+    }
+    index++;
+    if (partial && !isClosed) break;
+
+    let path = pathFromFenceInfo(info);
+    if (!path) {
+      let headingIndex = summaryLines.length - 1;
+      while (headingIndex >= 0 && !summaryLines[headingIndex].trim()) headingIndex--;
+      const heading = headingIndex >= 0 ? pathFromHeading(summaryLines[headingIndex]) : null;
+      if (heading) {
+        path = heading;
+        summaryLines.splice(headingIndex, 1);
+      }
+    }
+    if (!path && body.length > 0) {
+      for (const pattern of COMMENT_HEADER_PATTERNS) {
+        const comment = body[0].match(pattern);
+        const commentPath = comment && cleanPath(comment[1]);
+        if (commentPath) {
+          path = commentPath;
+          body.shift();
+          break;
+        }
+      }
+    }
+
+    const content = body.join('\n');
+    if (path) changes.push({ type: 'upsert', path, content: content.endsWith('\n') ? content : `${content}\n` });
+    else unnamedBlocks.push(content);
+  }
+
+  const summary = summaryLines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (changes.length > 0) {
+    return { changes: dedupeChanges(changes), summary, isStructured: true };
+  }
+
+  const fallbackContent = unnamedBlocks.length === 1 ? unnamedBlocks[0] : text.trim();
+  return {
+    changes: [{ type: 'upsert', path: FALLBACK_FILE_NAME, content: fallbackContent }],
+    summary: '',
+    isStructured: false,
+  };
+};
+
+/** Short human-readable list of what a response changed, for the chat transcript. */
+export const describeChanges = (changes: FileChange[]): string => {
+  const updated = changes.filter(change => change.type === 'upsert').map(change => change.path);
+  const deleted = changes.filter(change => change.type === 'delete').map(change => change.path);
+  const lines: string[] = [];
+  if (updated.length > 0) lines.push(`Updated: ${updated.join(', ')}`);
+  if (deleted.length > 0) lines.push(`Deleted: ${deleted.join(', ')}`);
+  return lines.join('\n');
+};
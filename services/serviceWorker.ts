@@ -0,0 +1,9 @@
+/** Registers the worker that caches the IDE for offline use. Builds have one; the dev server doesn't. */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(error => {
+      console.warn('The IDE will not be available offline:', error);
+    });
+  });
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { SharedProject } from '../types';
+import { MAX_SHARE_LINK_LENGTH, createShareLink, isShareHash, readShareHash } from './shareLink';
+
+const BASE_URL = 'https://codenix.example/app';
+
+const project: SharedProject = {
+  name: 'Landing page',
+  files: [
+    { type: 'file', name: 'index.html', content: '<h1>Héllo</h1>' },
+    { type: 'file', name: 'img/dot.png', content: 'data:image/png;base64,AA==', binary: true },
+  ],
+  directories: ['img', 'empty'],
+  activeFile: 'index.html',
+  chatHistory: [{ sender: 'user', content: 'Make a page' }],
+};
+
+const shareHash = async (shared: SharedProject = project) => {
+  const result = await createShareLink(shared, `${BASE_URL}#old`);
+  if (result.success === false) throw new Error(result.error);
+  return new URL(result.url).hash;
+};
+
+// A version 1 hash whose declared length matches `data`.
+const hashFor = (data: string) => `#share=1.${data.length}.${data}`;
+
+describe('share links', () => {
+  it('round-trips a project through the link', async () => {
+    const hash = await shareHash();
+    expect(hash.startsWith('#share=1.')).toBe(true);
+    expect(isShareHash(hash)).toBe(true);
+    expect(await readShareHash(hash)).toEqual({ success: true, project });
+  });
+
+  it('tells a cut-off link apart from a corrupt one', async () => {
+    const hash = await shareHash();
+    const truncated = await readShareHash(hash.slice(0, -5));
+    expect(truncated.success === false && truncated.error).toMatch(/incomplete/);
+    const padded = await readShareHash(`${hash}AAAA`);
+    expect(padded.success === false && padded.error).toMatch(/damaged/);
+  });
+
+  it('rejects data that is not a compressed project', async () => {
+    for (const hash of ['#share=garbage', hashFor('A'), hashFor('bm90IGRlZmxhdGU'), '#share=1.4.!!!!']) {
+      const result = await readShareHash(hash);
+      expect(result.success === false && result.error).toMatch(/damaged/);
+    }
+  });
+
+  it('rejects a payload that does not describe a project', async () => {
+    const hash = await shareHash({ ...project, files: [{ type: 'file', name: 'a.js' } as never] });
+    const result = await readShareHash(hash);
+    expect(result.success === false && result.error).toMatch(/damaged/);
+  });
+
+  it('asks for a reload when the link is from a newer version', async () => {
+    const result = await readShareHash((await shareHash()).replace('#share=1.', '#share=2.'));
+    expect(result.success === false && result.error).toMatch(/newer version/);
+  });
+
+  it('refuses to make a link longer than the limit', async () => {
+    // Random text barely compresses, so this ends up well past the limit.
+    const noise = Array.from({ length: MAX_SHARE_LINK_LENGTH }, () => String.fromCharCode(33 + Math.floor(Math.random() * 90))).join('');
+    const result = await createShareLink({ ...project, files: [{ type: 'file', name: 'noise.txt', content: noise }] }, BASE_URL);
+    expect(result.success === false && result.error).toMatch(/too large to share/);
+  });
+
+  it('refuses a link that inflates past the decoded size limit', async () => {
+    // Highly repetitive content compresses to a short link but expands to more than 20 MB.
+    const hash = await shareHash({ ...project, files: [{ type: 'file', name: 'big.txt', content: 'a'.repeat(21 * 1024 * 1024) }] });
+    const result = await readShareHash(hash);
+    expect(result.success === false && result.error).toMatch(/more data than can be opened/);
+  });
+});
@@ -0,0 +1,119 @@
+import { ChatMessage, FileNode, SharedProject } from '../types';
+
+const SHARE_HASH_PREFIX = '#share=';
+const SHARE_FORMAT_VERSION = 1;
+
+// Longer links tend to get cut off by chat apps and mail clients.
+export const MAX_SHARE_LINK_LENGTH = 64000;
+// Refuse links that would inflate into something unreasonably large.
+const MAX_DECODED_BYTES = 20 * 1024 * 1024;
+
+export type ShareLinkResult = { success: true; url: string } | { success: false; error: string };
+export type SharedProjectResult = { success: true; project: SharedProject } | { success: false; error: string };
+
+const CORRUPT_LINK_ERROR = 'This share link is damaged and could not be opened.';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Runs bytes through a (de)compression stream, giving up once the output passes `limit`.
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream, limit = Infinity): Promise<Uint8Array> => {
+  const reader = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      throw new RangeError('Decoded share payload is too large.');
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isSharedFile = (value: unknown): value is FileNode => {
+  if (!isRecord(value)) return false;
+  const { type, name, content, binary } = value;
+  return type === 'file' && typeof name === 'string' && typeof content === 'string' && (binary === undefined || typeof binary === 'boolean');
+};
+
+const isSharedChatMessage = (value: unknown): value is ChatMessage => {
+  if (!isRecord(value)) return false;
+  const { sender, content, isError } = value;
+  return (sender === 'user' || sender === 'ai') && typeof content === 'string' && (isError === undefined || typeof isError === 'boolean');
+};
+
+const isSharedProject = (value: unknown): value is SharedProject => {
+  if (!isRecord(value)) return false;
+  const { name, files, directories, activeFile, chatHistory } = value;
+  return typeof name === 'string'
+    && Array.isArray(files) && files.every(isSharedFile)
+    && Array.isArray(directories) && directories.every(directory => typeof directory === 'string')
+    && (activeFile === null || typeof activeFile === 'string')
+    && (chatHistory === undefined || (Array.isArray(chatHistory) && chatHistory.every(isSharedChatMessage)));
+};
+
+/** True when `hash` (e.g. `window.location.hash`) carries a shared project. */
+export const isShareHash = (hash: string): boolean => hash.startsWith(SHARE_HASH_PREFIX);
+
+/**
+ * Builds a link that opens `project` on this page. The hash reads `#share=<version>.<length>.<data>`:
+ * the length lets a truncated link be told apart from a corrupt one.
+ */
+export const createShareLink = async (project: SharedProject, baseUrl: string): Promise<ShareLinkResult> => {
+  const json = JSON.stringify({ v: SHARE_FORMAT_VERSION, ...project });
+  const data = toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+  const url = `${baseUrl.split('#')[0]}${SHARE_HASH_PREFIX}${SHARE_FORMAT_VERSION}.${data.length}.${data}`;
+  if (url.length > MAX_SHARE_LINK_LENGTH) {
+    return {
+      success: false,
+      error: `This project is too large to share as a link (${Math.ceil(url.length / 1000)}k characters, the limit is ${MAX_SHARE_LINK_LENGTH / 1000}k). Download it as a zip instead.`,
+    };
+  }
+  return { success: true, url };
+};
+
+/** Decodes the project carried by a `#share=` hash. */
+export const readShareHash = async (hash: string): Promise<SharedProjectResult> => {
+  const match = /^(\d+)\.(\d+)\.([A-Za-z0-9_-]*)$/.exec(hash.slice(SHARE_HASH_PREFIX.length));
+  if (!match) return { success: false, error: CORRUPT_LINK_ERROR };
+  const [, version, length, data] = match;
+  if (Number(version) > SHARE_FORMAT_VERSION) {
+    return { success: false, error: 'This share link was made by a newer version of Codenix. Reload the page and try again.' };
+  }
+  if (data.length < Number(length)) {
+    return { success: false, error: 'This share link is incomplete. It was probably cut off when it was copied; ask for the full link.' };
+  }
+  if (data.length > Number(length)) return { success: false, error: CORRUPT_LINK_ERROR };
+
+  try {
+    const bytes = await transform(fromBase64Url(data), new DecompressionStream('deflate-raw'), MAX_DECODED_BYTES);
+    const { v: _version, ...project } = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+    if (!isSharedProject(project)) return { success: false, error: CORRUPT_LINK_ERROR };
+    return { success: true, project };
+  } catch (error) {
+    if (error instanceof RangeError) return { success: false, error: 'This share link holds more data than can be opened.' };
+    return { success: false, error: CORRUPT_LINK_ERROR };
+  }
+};
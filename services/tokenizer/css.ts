@@ -0,0 +1,142 @@
+import { LineContext, ModeHandler, emit, emitQuoted, emitUntil, peek, pop, push, skipWhitespace, startsWith } from './scanner';
+
+// At-rules whose block holds more rules rather than declarations.
+const NESTED_AT_RULES = new Set(['@media', '@supports', '@layer', '@container', '@document']);
+
+// Shared by every CSS mode: comments open here may span lines.
+const comment = (ctx: LineContext): boolean => {
+  if (!startsWith(ctx, '/*')) return false;
+  emit(ctx, 'comment', 2);
+  if (!emitUntil(ctx, '*/', 'comment')) push(ctx, 'css-comment');
+  return true;
+};
+
+// Top level, or inside @media and friends: selectors and at-rules.
+const rules: ModeHandler = (ctx, frame) => {
+  if (skipWhitespace(ctx) || comment(ctx)) return;
+  const char = ctx.text[ctx.pos];
+  if (char === '@') {
+    const name = peek(ctx, /@[\w-]+/y) ?? '@';
+    emit(ctx, 'keyword', name.length);
+    // The prelude (`screen and (...)`) is plain text up to the block or the semicolon.
+    const prelude = peek(ctx, /[^{;]*/y) ?? '';
+    emit(ctx, null, prelude.length);
+    if (ctx.text[ctx.pos] === '{') {
+      emit(ctx, 'punctuation', 1);
+      push(ctx, NESTED_AT_RULES.has(name.toLowerCase()) ? 'css-nested' : 'css-block');
+    } else if (ctx.text[ctx.pos] === ';') {
+      emit(ctx, 'punctuation', 1);
+    }
+    return;
+  }
+  if (char === '{') {
+    emit(ctx, 'punctuation', 1);
+    push(ctx, 'css-block');
+    return;
+  }
+  if (char === '}') {
+    emit(ctx, 'punctuation', 1);
+    if (frame === 'css-nested') pop(ctx);
+    return;
+  }
+  if (char === '"' || char === '\'') {
+    emitQuoted(ctx, 'string');
+    return;
+  }
+  if (char === ',') {
+    emit(ctx, 'punctuation', 1);
+    return;
+  }
+  const selector = peek(ctx, /[^\s{},/"']+|\//y);
+  emit(ctx, 'selector', selector ? selector.length : 1);
+};
+
+// Inside a rule's braces: declarations, plus nested rules as in native CSS nesting.
+const block: ModeHandler = (ctx) => {
+  if (skipWhitespace(ctx) || comment(ctx)) return;
+  const char = ctx.text[ctx.pos];
+  if (char === '}') {
+    emit(ctx, 'punctuation', 1);
+    pop(ctx);
+    return;
+  }
+  if (char === '{') {
+    emit(ctx, 'punctuation', 1);
+    push(ctx, 'css-block');
+    return;
+  }
+  if (char === ';') {
+    emit(ctx, 'punctuation', 1);
+    return;
+  }
+  // `a:hover {` is a nested selector, not a declaration.
+  const property = peek(ctx, /-{0,2}[a-zA-Z][\w-]*(?=\s*:(?![^;{}]*\{))/y);
+  if (property) {
+    emit(ctx, 'property', property.length);
+    skipWhitespace(ctx);
+    emit(ctx, 'punctuation', 1);
+    push(ctx, 'css-value');
+    return;
+  }
+  if (char === '@') {
+    const name = peek(ctx, /@[\w-]+/y) ?? '@';
+    emit(ctx, 'keyword', name.length);
+    return;
+  }
+  // Anything else is a nested selector such as `&:hover` or `.child`.
+  const selector = peek(ctx, /[^\s{};/]+|\//y);
+  emit(ctx, 'selector', selector ? selector.length : 1);
+};
+
+// After `property:`, up to `;` or the end of the block.
+const value: ModeHandler = (ctx) => {
+  if (skipWhitespace(ctx) || comment(ctx)) return;
+  const char = ctx.text[ctx.pos];
+  if (char === ';') {
+    emit(ctx, 'punctuation', 1);
+    pop(ctx);
+    return;
+  }
+  if (char === '}') {
+    // Leave the brace for the block to close.
+    pop(ctx);
+    return;
+  }
+  if (char === '"' || char === '\'') {
+    emitQuoted(ctx, 'string');
+    return;
+  }
+  const token = peek(ctx, /#[\da-fA-F]{3,8}\b/y) ?? peek(ctx, /[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?(?:%|[a-zA-Z]+)?/y);
+  if (token) {
+    emit(ctx, 'number', token.length);
+    return;
+  }
+  const important = peek(ctx, /!\s*important\b/iy);
+  if (important) {
+    emit(ctx, 'keyword', important.length);
+    return;
+  }
+  const fn = peek(ctx, /[\w-]+(?=\()/y);
+  if (fn) {
+    emit(ctx, 'function', fn.length);
+    return;
+  }
+  if (/[(),/:]/.test(char)) {
+    emit(ctx, 'punctuation', 1);
+    return;
+  }
+  const word = peek(ctx, /[\w-]+/y);
+  emit(ctx, null, word ? word.length : 1);
+};
+
+const commentBody: ModeHandler = (ctx) => {
+  if (emitUntil(ctx, '*/', 'comment')) pop(ctx);
+};
+
+export const cssModes: Record<string, ModeHandler> = {
+  'css': rules,
+  'css-nested': rules,
+  'css-block': block,
+  'css-value': value,
+  'css-comment': commentBody,
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { HighlightedDocument, Language, highlightDocument } from './index';
+
+describe('highlightDocument', () => {
+  const SOURCE = [
+    'import { a } from "./a";',
+    '',
+    'const total = items.reduce((sum, item) => sum + item.price, 0);',
+    'const label = `Total: ${total}`;',
+    'function render() {',
+    '  return total / 2;',
+    '}',
+    'export default render;',
+  ].join('\n');
+
+  const expectSameAsFullPass = (document: HighlightedDocument, content: string, language: Language) => {
+    const full = highlightDocument(null, content, language);
+    expect(document.tokens).toEqual(full.tokens);
+    expect(document.html).toEqual(full.html);
+    expect(document.states).toEqual(full.states);
+  };
+
+  const edit = (content: string, line: number, text: string) => {
+    const lines = content.split('\n');
+    lines[line] = text;
+    return lines.join('\n');
+  };
+
+  it('reuses the lines an edit did not reach', () => {
+    const before = highlightDocument(null, SOURCE, 'javascript');
+    const content = edit(SOURCE, 3, 'const label = `Sum: ${total}`;');
+    const after = highlightDocument(before, content, 'javascript');
+    expectSameAsFullPass(after, content, 'javascript');
+    after.tokens.forEach((line, index) => {
+      if (index === 3) expect(line).not.toBe(before.tokens[3]);
+      else expect(line).toBe(before.tokens[index]);
+    });
+  });
+
+  it('re-tokenizes the lines that follow when an edit opens a comment', () => {
+    const before = highlightDocument(null, SOURCE, 'javascript');
+    const opened = edit(SOURCE, 1, '/*');
+    const commented = highlightDocument(before, opened, 'javascript');
+    expectSameAsFullPass(commented, opened, 'javascript');
+    expect(commented.tokens[5].every(token => token.type === 'comment' || !token.text.trim())).toBe(true);
+
+    const closed = edit(opened, 4, '*/ function render() {');
+    const reopened = highlightDocument(commented, closed, 'javascript');
+    expectSameAsFullPass(reopened, closed, 'javascript');
+    expect(reopened.tokens[0]).toBe(commented.tokens[0]);
+    expect(reopened.tokens[5]).toContainEqual({ type: 'keyword', text: 'return' });
+  });
+
+  it('re-highlights from the edited line only until the state is back to what it was', () => {
+    const content = [
+      'const a = 1;',
+      '/* one */ const b = 2;',
+      'const c = 3; // */',
+      'const d = 4;',
+      'const e = 5;',
+    ].join('\n');
+    const before = highlightDocument(null, content, 'javascript');
+    const opened = edit(content, 1, '/* one const b = 2;');
+    const after = highlightDocument(before, opened, 'javascript');
+    expectSameAsFullPass(after, opened, 'javascript');
+    expect(after.tokens[2]).toContainEqual({ type: 'comment', text: 'const c = 3; // */' });
+    expect(after.tokens.map((line, index) => line === before.tokens[index])).toEqual([true, false, false, true, true]);
+  });
+
+  it('keeps re-highlighting to the end while the state differs', () => {
+    const before = highlightDocument(null, SOURCE, 'javascript');
+    const opened = edit(SOURCE, 4, 'function render() { /*');
+    const after = highlightDocument(before, opened, 'javascript');
+    expectSameAsFullPass(after, opened, 'javascript');
+    expect(after.tokens.map((line, index) => line === before.tokens[index])).toEqual([true, true, true, true, false, false, false, false]);
+  });
+
+  it('matches a full pass after inserting and deleting lines', () => {
+    let content = SOURCE;
+    let document = highlightDocument(null, content, 'javascript');
+    const edits = [
+      (text: string) => text.replace('function render() {', 'function render() {\n  const s = "x";\n  // note'),
+      (text: string) => text.replace('const label', 'let label'),
+      (text: string) => text.split('\n').slice(2).join('\n'),
+      (text: string) => `${text}\nconst re = /a\\/b/g;`,
+      (text: string) => text.replace('`Total: ${total}`', '`Total:\n${total}`'),
+      () => '',
+      () => SOURCE,
+    ];
+    edits.forEach(apply => {
+      content = apply(content);
+      document = highlightDocument(document, content, 'javascript');
+      expectSameAsFullPass(document, content, 'javascript');
+    });
+  });
+
+  it('starts over when the language changes', () => {
+    const html = '<script>\nlet a = 1;\n</script>';
+    const asJavaScript = highlightDocument(null, html, 'javascript');
+    const asHtml = highlightDocument(asJavaScript, html, 'html');
+    expectSameAsFullPass(asHtml, html, 'html');
+    expect(asHtml.tokens[0]).not.toBe(asJavaScript.tokens[0]);
+  });
+});
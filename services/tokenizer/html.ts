@@ -0,0 +1,89 @@
+import { ModeHandler, emit, emitRest, emitUntil, peek, pop, push, skipWhitespace, startsWith } from './scanner';
+
+// Elements whose content is another language, and the mode it starts in.
+const EMBEDDED_LANGUAGES: Record<string, string> = { script: 'js', style: 'css' };
+
+// Text between tags: markup, comments and the doctype.
+const content: ModeHandler = (ctx) => {
+  if (startsWith(ctx, '<!--')) {
+    emit(ctx, 'comment', 4);
+    if (!emitUntil(ctx, '-->', 'comment')) push(ctx, 'html-comment');
+    return;
+  }
+  const doctype = peek(ctx, /<!doctype\b/iy);
+  if (doctype) {
+    emit(ctx, 'punctuation', 2);
+    emit(ctx, 'keyword', doctype.length - 2);
+    push(ctx, 'html-tag::open');
+    return;
+  }
+  const tag = peek(ctx, /<\/?[a-zA-Z][\w:-]*/y);
+  if (tag) {
+    const isClose = tag[1] === '/';
+    emit(ctx, 'punctuation', isClose ? 2 : 1);
+    emit(ctx, 'tag', tag.length - (isClose ? 2 : 1));
+    push(ctx, `html-tag:${tag.slice(isClose ? 2 : 1).toLowerCase()}:${isClose ? 'close' : 'open'}`);
+    return;
+  }
+  const text = peek(ctx, /[^<]+|</y);
+  emit(ctx, null, text!.length);
+};
+
+// Inside `<name ...`, frame `html-tag:<name>:<open|close>`.
+const tag: ModeHandler = (ctx, frame) => {
+  if (skipWhitespace(ctx)) return;
+  if (startsWith(ctx, '/>')) {
+    emit(ctx, 'punctuation', 2);
+    pop(ctx);
+    return;
+  }
+  const char = ctx.text[ctx.pos];
+  if (char === '>') {
+    emit(ctx, 'punctuation', 1);
+    pop(ctx);
+    const [, name, kind] = frame.split(':');
+    const embedded = EMBEDDED_LANGUAGES[name];
+    if (embedded && kind === 'open') {
+      push(ctx, `embed:${name}`);
+      push(ctx, embedded);
+    }
+    return;
+  }
+  if (char === '=') {
+    emit(ctx, 'punctuation', 1);
+    skipWhitespace(ctx);
+    const quote = ctx.text[ctx.pos];
+    if (quote === '"' || quote === '\'') {
+      emit(ctx, 'attr-value', 1);
+      push(ctx, quote === '"' ? 'html-attr-dq' : 'html-attr-sq');
+    } else {
+      const value = peek(ctx, /[^\s>]+/y);
+      if (value) emit(ctx, 'attr-value', value.length);
+    }
+    return;
+  }
+  const name = peek(ctx, /[^\s/>=]+/y);
+  emit(ctx, 'attr-name', name ? name.length : 1);
+};
+
+// A quoted attribute value, which may run over several lines.
+const attributeValue = (quote: string): ModeHandler => (ctx) => {
+  if (emitUntil(ctx, quote, 'attr-value')) pop(ctx);
+};
+
+const comment: ModeHandler = (ctx) => {
+  if (emitUntil(ctx, '-->', 'comment')) pop(ctx);
+};
+
+// Marks where an embedded language started. Only reached if the inner modes popped past their
+// own root, which shouldn't happen; treat the rest as plain text until the closing tag.
+const embed: ModeHandler = (ctx) => emitRest(ctx, null);
+
+export const htmlModes: Record<string, ModeHandler> = {
+  'html': content,
+  'html-tag': tag,
+  'html-attr-dq': attributeValue('"'),
+  'html-attr-sq': attributeValue('\''),
+  'html-comment': comment,
+  'embed': embed,
+};
@@ -0,0 +1,147 @@
+import { LineContext, ModeHandler, Token, TokenizerState, emit, emitRest } from './scanner';
+import { htmlModes } from './html';
+import { cssModes } from './css';
+import { javascriptModes } from './javascript';
+
+export type { Token, TokenType, TokenizerState } from './scanner';
+
+export type Language = 'html' | 'css' | 'javascript' | 'jsx' | 'typescript' | 'tsx' | 'unknown';
+
+const LANGUAGES_BY_EXTENSION: Record<string, Language> = {
+  html: 'html', htm: 'html',
+  css: 'css',
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  jsx: 'jsx',
+  ts: 'typescript', mts: 'typescript', cts: 'typescript',
+  tsx: 'tsx',
+};
+
+const ROOT_MODES: Record<Language, string | null> = {
+  html: 'html',
+  css: 'css',
+  javascript: 'js',
+  jsx: 'js',
+  typescript: 'js',
+  tsx: 'js',
+  unknown: null,
+};
+
+// Frames are named `<mode>` or `<mode>:<details>`, e.g. `html-tag:div:open`.
+const MODES: Record<string, ModeHandler> = { ...htmlModes, ...cssModes, ...javascriptModes };
+
+export const languageForFile = (fileName: string | null): Language =>
+  LANGUAGES_BY_EXTENSION[fileName?.split('.').pop()?.toLowerCase() ?? ''] ?? 'unknown';
+
+export const initialState = (language: Language): TokenizerState => {
+  const root = ROOT_MODES[language];
+  return { stack: root ? [root] : [], expressionStart: true };
+};
+
+export const statesEqual = (a: TokenizerState, b: TokenizerState) =>
+  a.expressionStart === b.expressionStart && a.stack.length === b.stack.length && a.stack.every((frame, i) => frame === b.stack[i]);
+
+// Innermost `embed:<tag>` frame, i.e. the <script> or <style> element we're inside of, if any.
+const innermostEmbed = (stack: string[]): number => {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i].startsWith('embed:')) return i;
+  }
+  return -1;
+};
+
+/**
+ * Tokenizes one line (without its newline), starting from the state the previous line ended in.
+ * The returned state is what the next line starts from, so re-highlighting after an edit can stop
+ * as soon as a line ends in the same state it did before.
+ */
+export const tokenizeLine = (line: string, language: Language, state: TokenizerState): { tokens: Token[]; state: TokenizerState } => {
+  const ctx: LineContext = {
+    text: line,
+    pos: 0,
+    stack: [...state.stack],
+    expressionStart: state.expressionStart,
+    tokens: [],
+    jsx: language === 'jsx' || language === 'tsx',
+    typescript: language === 'typescript' || language === 'tsx',
+  };
+  while (ctx.pos < line.length) {
+    const frame = ctx.stack[ctx.stack.length - 1];
+    const handler = frame && MODES[frame.split(':')[0]];
+    if (!handler) {
+      emitRest(ctx, null);
+      break;
+    }
+    // Embedded scripts and styles end at their closing tag, whatever the inner language was in
+    // the middle of - a `</script>` inside a JS string still closes the element.
+    ctx.text = line;
+    const embed = innermostEmbed(ctx.stack);
+    if (embed !== -1) {
+      const closingTag = new RegExp(`</${ctx.stack[embed].slice('embed:'.length)}`, 'ig');
+      closingTag.lastIndex = ctx.pos;
+      const end = closingTag.exec(line)?.index ?? -1;
+      if (end === ctx.pos) {
+        ctx.stack.length = embed;
+        ctx.expressionStart = true;
+        continue;
+      }
+      if (end !== -1) ctx.text = line.slice(0, end);
+    }
+    const { pos, stack: { length: depth } } = ctx;
+    handler(ctx, frame);
+    // Every step must consume text or change mode; anything a mode can't place is plain text.
+    if (ctx.pos === pos && ctx.stack.length === depth && ctx.stack[depth - 1] === frame) emit(ctx, null, 1);
+  }
+  return { tokens: ctx.tokens, state: { stack: ctx.stack, expressionStart: ctx.expressionStart } };
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Turns tokens into markup for the highlight layer; styles live in index.css as `.token-<type>`. */
+export const renderTokens = (tokens: Token[]): string =>
+  tokens.map(token => (token.type ? `<span class="token-${token.type}">${escapeHtml(token.text)}</span>` : escapeHtml(token.text))).join('');
+
+/** A file split into highlighted lines, kept around so the next edit only re-tokenizes what changed. */
+export interface HighlightedDocument {
+  language: Language;
+  lines: string[];
+  tokens: Token[][];
+  // Rendered markup for each line.
+  html: string[];
+  // The state each line starts in, plus the state after the last line.
+  states: TokenizerState[];
+}
+
+/**
+ * Highlights `content`, reusing lines from `previous` where possible: lines before the first change
+ * are kept as they are, and lines after the last change are reused as soon as tokenizing reaches one
+ * in the same state it started in last time (so closing a comment still re-highlights what follows).
+ */
+export const highlightDocument = (previous: HighlightedDocument | null, content: string, language: Language): HighlightedDocument => {
+  const old = previous?.language === language ? previous : { lines: [], tokens: [], html: [], states: [initialState(language)] };
+  const lines = content.split('\n');
+  let start = 0;
+  while (start < lines.length && start < old.lines.length && lines[start] === old.lines[start]) start++;
+  let suffix = 0;
+  while (
+    suffix < lines.length - start && suffix < old.lines.length - start &&
+    lines[lines.length - 1 - suffix] === old.lines[old.lines.length - 1 - suffix]
+  ) suffix++;
+
+  let tokens = old.tokens.slice(0, start);
+  let html = old.html.slice(0, start);
+  let states = old.states.slice(0, start + 1);
+  const shift = old.lines.length - lines.length;
+  for (let i = start; i < lines.length; i++) {
+    const state = states[i];
+    if (i >= lines.length - suffix && statesEqual(state, old.states[i + shift])) {
+      tokens = tokens.concat(old.tokens.slice(i + shift));
+      html = html.concat(old.html.slice(i + shift));
+      states = states.concat(old.states.slice(i + shift + 1));
+      break;
+    }
+    const result = tokenizeLine(lines[i], language, state);
+    tokens.push(result.tokens);
+    html.push(renderTokens(result.tokens));
+    states.push(result.state);
+  }
+  return { language, lines, tokens, html, states };
+};
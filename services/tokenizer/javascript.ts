@@ -0,0 +1,250 @@
+import { LineContext, ModeHandler, emit, emitQuoted, emitRest, emitUntil, peek, pop, push, replaceTop, skipWhitespace, startsWith } from './scanner';
+
+const KEYWORDS = new Set([
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof',
+  'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'undefined', 'var', 'void', 'while', 'with', 'yield', 'as',
+]);
+
+const TYPESCRIPT_KEYWORDS = new Set([
+  'abstract', 'any', 'boolean', 'declare', 'enum', 'implements', 'infer', 'interface', 'is', 'keyof', 'namespace',
+  'never', 'number', 'private', 'protected', 'public', 'readonly', 'satisfies', 'string', 'type', 'unknown',
+]);
+
+// Keywords after which an expression starts, so `/` opens a regex and `<` a JSX element.
+const EXPRESSION_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await', 'extends',
+]);
+
+const IDENTIFIER = /#?[A-Za-z_$\u00C0-\uFFFF][\w$\u00C0-\uFFFF]*/y;
+const CALL = /\s*\(/y;
+const PROPERTY_KEY = /\??\s*:/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][-+]?\d+)?)n?/y;
+const OPERATOR = /=>|\.\.\.|\?\.(?!\d)|[-+*%=<>!&|^~?]+/y;
+// A tag name right after `<`, but not a comparison (`a < b`) or a TSX generic arrow (`<T,>`).
+const JSX_TAG_START = /<(?:[A-Za-z][\w.:-]*(?=[\s/>{]|$)|(?=>))/y;
+
+// Scans a regex literal from the opening `/`; returns its length, or 0 if it doesn't end on this line.
+const regexLength = (ctx: LineContext): number => {
+  let inClass = false;
+  for (let i = ctx.pos + 1; i < ctx.text.length; i++) {
+    const char = ctx.text[i];
+    if (char === '\\') i++;
+    else if (char === '[') inClass = true;
+    else if (char === ']') inClass = false;
+    else if (char === '/' && !inClass) {
+      const flags = /[a-z]*/y;
+      flags.lastIndex = i + 1;
+      return i + 1 + flags.exec(ctx.text)![0].length - ctx.pos;
+    }
+  }
+  return 0;
+};
+
+// Emits `<name` or `<>` and enters the element.
+const openJsxElement = (ctx: LineContext, tag: string) => {
+  emit(ctx, 'punctuation', 1);
+  if (tag.length > 1) {
+    emit(ctx, 'tag', tag.length - 1);
+    push(ctx, 'jsx-attrs');
+  } else {
+    emit(ctx, 'punctuation', 1);
+    push(ctx, 'jsx-children');
+  }
+};
+
+// Ordinary code: the top level, `{ ... }` blocks, `${ ... }` in templates and `{ ... }` in JSX.
+const code: ModeHandler = (ctx, frame) => {
+  if (skipWhitespace(ctx)) return;
+  if (startsWith(ctx, '//')) {
+    emitRest(ctx, 'comment');
+    return;
+  }
+  if (startsWith(ctx, '/*')) {
+    emit(ctx, 'comment', 2);
+    if (!emitUntil(ctx, '*/', 'comment')) push(ctx, 'js-comment');
+    return;
+  }
+  const char = ctx.text[ctx.pos];
+  if (char === '"' || char === '\'') {
+    emitQuoted(ctx, 'string');
+    ctx.expressionStart = false;
+    return;
+  }
+  if (char === '`') {
+    emit(ctx, 'string', 1);
+    push(ctx, 'js-template');
+    return;
+  }
+  if (char === '/' && ctx.expressionStart) {
+    const length = regexLength(ctx);
+    if (length > 0) {
+      emit(ctx, 'regex', length);
+      ctx.expressionStart = false;
+      return;
+    }
+  }
+  if (char === '<' && ctx.jsx && ctx.expressionStart) {
+    const tag = peek(ctx, JSX_TAG_START);
+    if (tag) {
+      openJsxElement(ctx, tag);
+      return;
+    }
+  }
+  if (char === '{') {
+    emit(ctx, 'punctuation', 1);
+    push(ctx, 'js-brace');
+    ctx.expressionStart = true;
+    return;
+  }
+  if (char === '}') {
+    emit(ctx, 'punctuation', 1);
+    // The top level has no brace of its own to close; a stray one is just punctuation.
+    if (frame !== 'js') pop(ctx);
+    ctx.expressionStart = true;
+    return;
+  }
+  const number = /[\d.]/.test(char) ? peek(ctx, NUMBER) : null;
+  if (number) {
+    emit(ctx, 'number', number.length);
+    ctx.expressionStart = false;
+    return;
+  }
+  const word = peek(ctx, IDENTIFIER);
+  if (word) {
+    // Property names (`event.type`) are never keywords, nor are TypeScript's contextual ones in `{ type: string }`.
+    const isProperty = ctx.text[ctx.pos - 1] === '.' && ctx.text[ctx.pos - 2] !== '.';
+    PROPERTY_KEY.lastIndex = ctx.pos + word.length;
+    const isTypeScriptKeyword = ctx.typescript && TYPESCRIPT_KEYWORDS.has(word) && !PROPERTY_KEY.test(ctx.text);
+    if (!isProperty && (KEYWORDS.has(word) || isTypeScriptKeyword)) {
+      emit(ctx, 'keyword', word.length);
+      ctx.expressionStart = EXPRESSION_KEYWORDS.has(word);
+      return;
+    }
+    CALL.lastIndex = ctx.pos + word.length;
+    emit(ctx, CALL.test(ctx.text) ? 'function' : null, word.length);
+    ctx.expressionStart = false;
+    return;
+  }
+  const operator = peek(ctx, OPERATOR) ?? (char === '/' ? (startsWith(ctx, '/=') ? '/=' : '/') : null);
+  if (operator) {
+    emit(ctx, 'operator', operator.length);
+    // `a++ / 2` divides; every other operator is followed by an operand.
+    ctx.expressionStart = operator !== '++' && operator !== '--';
+    return;
+  }
+  emit(ctx, 'punctuation', 1);
+  ctx.expressionStart = char !== ')' && char !== ']';
+};
+
+const blockComment: ModeHandler = (ctx) => {
+  if (emitUntil(ctx, '*/', 'comment')) pop(ctx);
+};
+
+// Inside a template literal, up to the closing backtick or the next `${`.
+const template: ModeHandler = (ctx) => {
+  let end = ctx.pos;
+  while (end < ctx.text.length) {
+    const char = ctx.text[end];
+    if (char === '\\') {
+      end += 2;
+    } else if (char === '`') {
+      emit(ctx, 'string', end + 1 - ctx.pos);
+      pop(ctx);
+      ctx.expressionStart = false;
+      return;
+    } else if (char === '$' && ctx.text[end + 1] === '{') {
+      emit(ctx, 'string', end - ctx.pos);
+      emit(ctx, 'punctuation', 2);
+      push(ctx, 'js-template-expr');
+      ctx.expressionStart = true;
+      return;
+    } else {
+      end++;
+    }
+  }
+  emitRest(ctx, 'string');
+};
+
+// After `<Name` until `>` or `/>`.
+const jsxAttributes: ModeHandler = (ctx) => {
+  if (skipWhitespace(ctx)) return;
+  if (startsWith(ctx, '/>')) {
+    emit(ctx, 'punctuation', 2);
+    pop(ctx);
+    // A finished element is an operand, so a `/` after it divides.
+    ctx.expressionStart = false;
+    return;
+  }
+  const char = ctx.text[ctx.pos];
+  if (char === '>') {
+    emit(ctx, 'punctuation', 1);
+    replaceTop(ctx, 'jsx-children');
+    return;
+  }
+  if (char === '{') {
+    emit(ctx, 'punctuation', 1);
+    push(ctx, 'jsx-expr');
+    ctx.expressionStart = true;
+    return;
+  }
+  if (char === '=') {
+    emit(ctx, 'punctuation', 1);
+    return;
+  }
+  if (char === '"' || char === '\'') {
+    emitQuoted(ctx, 'attr-value');
+    return;
+  }
+  const name = peek(ctx, /[^\s/>={"']+/y);
+  emit(ctx, 'attr-name', name ? name.length : 1);
+};
+
+// Between `<Name>` and `</Name>`: text, `{expressions}` and nested elements.
+const jsxChildren: ModeHandler = (ctx) => {
+  const char = ctx.text[ctx.pos];
+  if (char === '{') {
+    emit(ctx, 'punctuation', 1);
+    push(ctx, 'jsx-expr');
+    ctx.expressionStart = true;
+    return;
+  }
+  if (startsWith(ctx, '</')) {
+    emit(ctx, 'punctuation', 2);
+    replaceTop(ctx, 'jsx-close');
+    return;
+  }
+  const tag = char === '<' ? peek(ctx, JSX_TAG_START) : null;
+  if (tag) {
+    openJsxElement(ctx, tag);
+    return;
+  }
+  const text = peek(ctx, /[^{<]+/y);
+  emit(ctx, null, text ? text.length : 1);
+};
+
+// After `</` until `>`.
+const jsxClose: ModeHandler = (ctx) => {
+  if (skipWhitespace(ctx)) return;
+  if (ctx.text[ctx.pos] === '>') {
+    emit(ctx, 'punctuation', 1);
+    pop(ctx);
+    ctx.expressionStart = false;
+    return;
+  }
+  const name = peek(ctx, /[^\s>]+/y);
+  emit(ctx, 'tag', name ? name.length : 1);
+};
+
+export const javascriptModes: Record<string, ModeHandler> = {
+  'js': code,
+  'js-brace': code,
+  'js-template-expr': code,
+  'jsx-expr': code,
+  'js-comment': blockComment,
+  'js-template': template,
+  'jsx-attrs': jsxAttributes,
+  'jsx-children': jsxChildren,
+  'jsx-close': jsxClose,
+};
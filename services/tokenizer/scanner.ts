@@ -0,0 +1,94 @@
+export type TokenType =
+  | 'comment' | 'string' | 'regex' | 'number' | 'keyword' | 'function' | 'operator' | 'punctuation'
+  | 'tag' | 'attr-name' | 'attr-value' | 'selector' | 'property';
+
+export interface Token {
+  // null for plain text and whitespace.
+  type: TokenType | null;
+  text: string;
+}
+
+/**
+ * Everything the tokenizer needs to carry from the end of one line to the start of the next.
+ * `stack` holds the nested modes (innermost last), e.g. ['html', 'embed:script', 'js', 'js-template'].
+ */
+export interface TokenizerState {
+  stack: readonly string[];
+  // Whether a `/` here would start a regex literal (or a `<` a JSX element) rather than be an operator.
+  expressionStart: boolean;
+}
+
+export interface LineContext {
+  // The line, cut short where an embedded <script>/<style> ends so inner modes can't run past it.
+  text: string;
+  pos: number;
+  stack: string[];
+  expressionStart: boolean;
+  tokens: Token[];
+  jsx: boolean;
+  typescript: boolean;
+}
+
+export type ModeHandler = (ctx: LineContext, frame: string) => void;
+
+export const top = (ctx: LineContext): string => ctx.stack[ctx.stack.length - 1];
+
+export const push = (ctx: LineContext, frame: string) => { ctx.stack.push(frame); };
+
+export const pop = (ctx: LineContext) => { ctx.stack.pop(); };
+
+export const replaceTop = (ctx: LineContext, frame: string) => { ctx.stack[ctx.stack.length - 1] = frame; };
+
+/** Emits the next `length` characters as one token, merging with the previous token of the same type. */
+export const emit = (ctx: LineContext, type: TokenType | null, length: number) => {
+  if (length <= 0) return;
+  const text = ctx.text.slice(ctx.pos, ctx.pos + length);
+  ctx.pos += text.length;
+  const last = ctx.tokens[ctx.tokens.length - 1];
+  if (last && last.type === type) last.text += text;
+  else ctx.tokens.push({ type, text });
+};
+
+/** Emits everything up to the end of the line. */
+export const emitRest = (ctx: LineContext, type: TokenType | null) => emit(ctx, type, ctx.text.length - ctx.pos);
+
+/** Matches a sticky regex at the current position and returns the matched text, without consuming it. */
+export const peek = (ctx: LineContext, pattern: RegExp): string | null => {
+  pattern.lastIndex = ctx.pos;
+  const match = pattern.exec(ctx.text);
+  return match ? match[0] : null;
+};
+
+export const startsWith = (ctx: LineContext, text: string) => ctx.text.startsWith(text, ctx.pos);
+
+/** Emits whitespace at the current position; returns whether there was any. */
+export const skipWhitespace = (ctx: LineContext): boolean => {
+  const space = peek(ctx, /\s+/y);
+  if (!space) return false;
+  emit(ctx, null, space.length);
+  return true;
+};
+
+/**
+ * Emits text up to and including `terminator` as `type`, or the rest of the line if the
+ * terminator isn't on it. Returns whether the terminator was found.
+ */
+export const emitUntil = (ctx: LineContext, terminator: string, type: TokenType | null): boolean => {
+  const end = ctx.text.indexOf(terminator, ctx.pos);
+  if (end === -1) {
+    emitRest(ctx, type);
+    return false;
+  }
+  emit(ctx, type, end + terminator.length - ctx.pos);
+  return true;
+};
+
+/** Emits a quoted string starting at the current position; backslash escapes are honoured. */
+export const emitQuoted = (ctx: LineContext, type: TokenType): boolean => {
+  const quote = ctx.text[ctx.pos];
+  let end = ctx.pos + 1;
+  while (end < ctx.text.length && ctx.text[end] !== quote) end += ctx.text[end] === '\\' ? 2 : 1;
+  const closed = end < ctx.text.length;
+  emit(ctx, type, Math.min(end + 1, ctx.text.length) - ctx.pos);
+  return closed;
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Language, Token, TokenType, highlightDocument } from './index';
+
+// The typed tokens of each line, as [type, text] pairs. Plain text is left out.
+const typedTokens = (content: string, language: Language): [TokenType, string][][] =>
+  highlightDocument(null, content, language).tokens.map(line =>
+    line.filter((token): token is Token & { type: TokenType } => token.type !== null).map(token => [token.type, token.text]));
+
+const tokensOfType = (content: string, language: Language, type: TokenType): string[] =>
+  typedTokens(content, language).flat().filter(([tokenType]) => tokenType === type).map(([, text]) => text);
+
+describe('javascript', () => {
+  it('follows template literals nested inside substitutions', () => {
+    const [line] = typedTokens('const s = `a ${ `b ${c}` } d`;', 'javascript');
+    expect(line).toEqual([
+      ['keyword', 'const'], ['operator', '='],
+      ['string', '`a '], ['punctuation', '${'],
+      ['string', '`b '], ['punctuation', '${'], ['punctuation', '}'], ['string', '`'],
+      ['punctuation', '}'], ['string', ' d`'], ['punctuation', ';'],
+    ]);
+  });
+
+  it('carries a template literal across lines', () => {
+    const lines = typedTokens('const s = `one\ntwo ${x}\nthree`;\nlet y;', 'javascript');
+    expect(lines[1][0]).toEqual(['string', 'two ']);
+    expect(lines[2][0]).toEqual(['string', 'three`']);
+    expect(lines[3][0]).toEqual(['keyword', 'let']);
+  });
+
+  it('tells a regex from division', () => {
+    expect(tokensOfType('let x = a / b / c;', 'javascript', 'regex')).toEqual([]);
+    expect(tokensOfType('let x = (a) / 2 + [1] / 2;', 'javascript', 'regex')).toEqual([]);
+    expect(tokensOfType('let r = /ab+c/g.test(s);', 'javascript', 'regex')).toEqual(['/ab+c/g']);
+    expect(tokensOfType('f(/[/]/, x => /\\//.test(x));', 'javascript', 'regex')).toEqual(['/[/]/', '/\\//']);
+  });
+
+  it('keeps a block comment open across lines until it is closed', () => {
+    const lines = typedTokens('/* start\nconst hidden = 1;\nend */ const a = 1;', 'javascript');
+    expect(lines[0]).toEqual([['comment', '/* start']]);
+    expect(lines[1]).toEqual([['comment', 'const hidden = 1;']]);
+    expect(lines[2][0]).toEqual(['comment', 'end */']);
+    expect(lines[2][1]).toEqual(['keyword', 'const']);
+  });
+
+  it('treats everything after an unterminated comment as comment', () => {
+    const document = highlightDocument(null, '/* never closed\nconst a = 1;\nlet b;', 'javascript');
+    expect(document.tokens.slice(1).flat().every(token => token.type === 'comment')).toBe(true);
+    expect(document.states[document.states.length - 1].stack).toEqual(['js', 'js-comment']);
+  });
+
+  it('does not end a line comment or string early', () => {
+    expect(typedTokens('x = "a // b"; // c /* d', 'javascript')[0]).toEqual([
+      ['operator', '='], ['string', '"a // b"'], ['punctuation', ';'], ['comment', '// c /* d'],
+    ]);
+  });
+});
+
+describe('jsx and typescript', () => {
+  it('highlights elements and leaves JSX text alone', () => {
+    const [line] = typedTokens('const el = <div className="a">text if ok</div>;', 'jsx');
+    expect(line).toContainEqual(['tag', 'div']);
+    expect(line).toContainEqual(['attr-value', '"a"']);
+    // "if" in JSX text is text, not a keyword.
+    expect(line.filter(([type]) => type === 'keyword')).toEqual([['keyword', 'const']]);
+  });
+
+  it('reads type arguments as generics rather than JSX', () => {
+    const [call] = typedTokens('const n = f<number>(1);', 'tsx');
+    expect(call).toContainEqual(['keyword', 'number']);
+    expect(call.some(([type]) => type === 'tag')).toBe(false);
+    const [declaration] = typedTokens('function id<T>(x: T): T { return x; }', 'typescript');
+    expect(declaration.some(([type]) => type === 'tag')).toBe(false);
+  });
+});
+
+describe('html', () => {
+  it('switches to CSS and JavaScript inside <style> and <script>', () => {
+    const lines = typedTokens('<style>\nbody { color: red; }\n</style>\n<script type="module">\nlet a = 1 < 2;\n</script>', 'html');
+    expect(lines[1]).toContainEqual(['selector', 'body']);
+    expect(lines[1]).toContainEqual(['property', 'color']);
+    expect(lines[3]).toContainEqual(['attr-value', '"module"']);
+    expect(lines[4]).toEqual([['keyword', 'let'], ['operator', '='], ['number', '1'], ['operator', '<'], ['number', '2'], ['punctuation', ';']]);
+    expect(lines[5]).toEqual([['punctuation', '</'], ['tag', 'script'], ['punctuation', '>']]);
+  });
+
+  it('ends a script at </script> even inside a string, as browsers do', () => {
+    const document = highlightDocument(null, '<script>\nconst s = "</script>";\n<p>after</p>', 'html');
+    expect(document.states[2].stack).toEqual(['html']);
+    expect(document.tokens[1].filter(token => token.type === 'tag').map(token => token.text)).toEqual(['script']);
+    expect(document.tokens[2].filter(token => token.type === 'tag').map(token => token.text)).toEqual(['p', 'p']);
+  });
+
+  it('keeps comments open across lines', () => {
+    const lines = typedTokens('<!-- a\n<div>\n-->\n<div>', 'html');
+    expect(lines[1]).toEqual([['comment', '<div>']]);
+    expect(lines[3]).toContainEqual(['tag', 'div']);
+  });
+});
+
+describe('css', () => {
+  it('keeps a comment inside a block open across lines', () => {
+    const lines = typedTokens('a { color: red; /* x\ny */ }', 'css');
+    expect(lines[0][lines[0].length - 1]).toEqual(['comment', '/* x']);
+    expect(lines[1]).toEqual([['comment', 'y */'], ['punctuation', '}']]);
+  });
+});
+
+describe('tokens', () => {
+  it('cover every character of every line', () => {
+    const content = '<div class="a">\n<script>let s = `${1 / 2}`; // </div>\n</script>\n<style>a{b:c}</style>';
+    const document = highlightDocument(null, content, 'html');
+    expect(document.tokens.map(line => line.map(token => token.text).join(''))).toEqual(content.split('\n'));
+  });
+});
@@ -0,0 +1,80 @@
+import { FileNode } from '../types';
+
+export interface CompileDiagnostic {
+  // 1-based, as editors show them.
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface CompiledModule {
+  path: string;
+  // The file content this was compiled from, so stale output is never served.
+  source: string;
+  code: string;
+  diagnostics: CompileDiagnostic[];
+}
+
+export interface TranspileRequest {
+  id: number;
+  files: { path: string; source: string }[];
+}
+
+export interface TranspileResponse {
+  id: number;
+  modules: CompiledModule[];
+}
+
+/** TypeScript and JSX files, which the browser can't run until they're compiled. Declaration files are skipped. */
+export const needsTranspiling = (path: string) => /\.(tsx?|mts|jsx)$/i.test(path) && !/\.d\.m?ts$/i.test(path);
+
+// Compiled output of files that haven't changed since, by path.
+const cache = new Map<string, CompiledModule>();
+const pending = new Map<number, { resolve: (modules: CompiledModule[]) => void; reject: (error: Error) => void }>();
+let worker: Worker | null = null;
+let nextRequestId = 1;
+
+// The compiler is a few megabytes, so the worker only starts once a project actually needs it.
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./transpiler.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<TranspileResponse>) => {
+    pending.get(event.data.id)?.resolve(event.data.modules);
+    pending.delete(event.data.id);
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const error = new Error(event.message || 'The TypeScript compiler failed to load.');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    // A fresh worker is started for the next request.
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * Compiles every TypeScript and JSX file in the project to JavaScript in a Web Worker, so typing
+ * stays smooth. Files whose content hasn't changed come from a cache. Resolves to the compiled
+ * modules by path.
+ */
+export const transpileFiles = async (files: FileNode[]): Promise<Map<string, CompiledModule>> => {
+  const sources = files.filter(file => !file.binary && needsTranspiling(file.name));
+  const stale = sources.filter(file => cache.get(file.name)?.source !== file.content);
+  if (stale.length > 0) {
+    const id = nextRequestId++;
+    const compiled = await new Promise<CompiledModule[]>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      getWorker().postMessage({ id, files: stale.map(file => ({ path: file.name, source: file.content })) } satisfies TranspileRequest);
+    });
+    compiled.forEach(module => cache.set(module.path, module));
+  }
+  // Forget files that were deleted or renamed.
+  const paths = new Set(sources.map(file => file.name));
+  for (const path of cache.keys()) if (!paths.has(path)) cache.delete(path);
+  return new Map(sources.flatMap(file => {
+    const module = cache.get(file.name);
+    return module && module.source === file.content ? [[file.name, module] as const] : [];
+  }));
+};
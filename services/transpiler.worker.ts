@@ -0,0 +1,32 @@
+import ts from 'typescript';
+import type { TranspileRequest, TranspileResponse } from './transpiler';
+
+// Each file is compiled on its own, without type checking: the preview only needs runnable
+// JavaScript, and a type error shouldn't stop the page from loading.
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  jsx: ts.JsxEmit.ReactJSX,
+};
+
+self.onmessage = (event: MessageEvent<TranspileRequest>) => {
+  const { id, files } = event.data;
+  const response: TranspileResponse = {
+    id,
+    modules: files.map(({ path, source }) => {
+      const result = ts.transpileModule(source, { fileName: path, reportDiagnostics: true, compilerOptions: COMPILER_OPTIONS });
+      return {
+        path,
+        source,
+        code: result.outputText,
+        diagnostics: (result.diagnostics ?? []).map(diagnostic => {
+          const position = diagnostic.file && diagnostic.start !== undefined
+            ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+            : { line: 0, character: 0 };
+          return { line: position.line + 1, column: position.character + 1, message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n') };
+        }),
+      };
+    }),
+  };
+  self.postMessage(response);
+};
@@ -0,0 +1,109 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { ProjectSnapshot, Workspace } from '../types';
+import { EMPTY_EDITOR_LAYOUT } from './editorTabs';
+import { deleteWorkspace, listWorkspaces, loadWorkspace, normalizeWorkspace, saveWorkspace } from './workspaceStore';
+
+const workspace = (id: string, overrides: Partial<Workspace> = {}): Workspace => ({
+  id,
+  name: `Workspace ${id}`,
+  createdAt: 1,
+  updatedAt: 1,
+  files: [{ type: 'file', name: 'index.html', content: '<p>hi</p>' }],
+  activeFile: 'index.html',
+  chatHistory: [{ sender: 'user', content: 'Make a page' }],
+  layout: { explorerWidth: 256, rightPanelWidth: 400, consoleHeight: 0 },
+  editor: { groups: [{ tabs: ['index.html'], activeTab: 'index.html' }], focusedGroup: 0 },
+  snapshots: [],
+  ...overrides,
+});
+
+const snapshot = (id: string): ProjectSnapshot => ({ id, label: `Snapshot ${id}`, timestamp: 1, files: [] });
+
+// Writes a record straight into the database, the way an older version of the app saved it.
+const putRawRecord = async (record: object) => {
+  await listWorkspaces();
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('codenix');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction('workspaces', 'readwrite');
+    transaction.objectStore('workspaces').put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  db.close();
+};
+
+describe('normalizeWorkspace', () => {
+  it('opens the active file of a record from before tabs existed in a single tab', () => {
+    const { editor, snapshots } = normalizeWorkspace(workspace('old', { editor: undefined, snapshots: undefined }));
+    expect(editor).toEqual({ groups: [{ tabs: ['index.html'], activeTab: 'index.html' }], focusedGroup: 0 });
+    expect(snapshots).toEqual([]);
+  });
+
+  it('gives a record without an active file no tabs', () => {
+    expect(normalizeWorkspace(workspace('empty', { activeFile: null, editor: undefined })).editor).toEqual(EMPTY_EDITOR_LAYOUT);
+  });
+
+  it('keeps the layout and snapshots a record has', () => {
+    const saved = workspace('new', { snapshots: [snapshot('s1')] });
+    const normalized = normalizeWorkspace(saved);
+    expect(normalized.editor).toBe(saved.editor);
+    expect(normalized.snapshots).toBe(saved.snapshots);
+  });
+});
+
+describe('workspace store', () => {
+  it('saves and loads a workspace with its snapshots', async () => {
+    const saved = workspace('a', { snapshots: [snapshot('s1')] });
+    await saveWorkspace(saved);
+    expect(await loadWorkspace('a')).toEqual(saved);
+  });
+
+  it('keeps the saved snapshots when a save leaves them out', async () => {
+    await saveWorkspace(workspace('b', { snapshots: [snapshot('s1')] }));
+    await saveWorkspace(workspace('b', { name: 'Renamed', snapshots: undefined }));
+    const loaded = await loadWorkspace('b');
+    expect(loaded?.name).toBe('Renamed');
+    expect(loaded?.snapshots).toEqual([snapshot('s1')]);
+  });
+
+  it('lists summaries, most recently updated first', async () => {
+    await saveWorkspace(workspace('older', { updatedAt: 10 }));
+    await saveWorkspace(workspace('newer', { updatedAt: 20 }));
+    const summaries = (await listWorkspaces()).filter(summary => summary.id === 'older' || summary.id === 'newer');
+    expect(summaries).toEqual([
+      { id: 'newer', name: 'Workspace newer', createdAt: 1, updatedAt: 20 },
+      { id: 'older', name: 'Workspace older', createdAt: 1, updatedAt: 10 },
+    ]);
+  });
+
+  it('keeps a duplicate apart from the workspace it was copied from', async () => {
+    const original = workspace('original', { snapshots: [snapshot('s1')] });
+    await saveWorkspace(original);
+    await saveWorkspace({ ...original, id: 'copy', name: 'Copy', snapshots: [...original.snapshots!, snapshot('s2')] });
+    expect((await loadWorkspace('original'))?.snapshots).toEqual([snapshot('s1')]);
+    expect((await loadWorkspace('copy'))?.snapshots).toEqual([snapshot('s1'), snapshot('s2')]);
+  });
+
+  it('deletes a workspace along with its snapshots', async () => {
+    await saveWorkspace(workspace('doomed', { snapshots: [snapshot('s1')] }));
+    await deleteWorkspace('doomed');
+    expect(await loadWorkspace('doomed')).toBeNull();
+    await saveWorkspace(workspace('doomed', { snapshots: undefined }));
+    expect((await loadWorkspace('doomed'))?.snapshots).toEqual([]);
+  });
+
+  it('loads a record saved before tabs and snapshots existed', async () => {
+    const { editor, snapshots, ...legacy } = workspace('legacy');
+    await putRawRecord(legacy);
+    expect(await loadWorkspace('legacy')).toEqual({ ...legacy, editor, snapshots: [] });
+  });
+
+  it('returns null for a workspace that does not exist', async () => {
+    expect(await loadWorkspace('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { EditorLayout, ProjectSnapshot, Workspace, WorkspaceSummary } from '../types';
+import { layoutForFile } from './editorTabs';
+
+const DB_NAME = 'codenix';
+const DB_VERSION = 1;
+const STORE_NAME = 'workspaces';
+// Snapshots are whole copies of the project, so they live apart from the workspace record that
+// every autosave rewrites, and are only written when they change.
+const SNAPSHOT_STORE_NAME = 'snapshots';
+
+interface SnapshotRecord {
+  workspaceId: string;
+  snapshots: ProjectSnapshot[];
+}
+const LAST_WORKSPACE_KEY = 'codenix.lastWorkspaceId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        db.createObjectStore(SNAPSHOT_STORE_NAME, { keyPath: 'workspaceId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if the first open failed (e.g. storage was blocked).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore, snapshotStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, SNAPSHOT_STORE_NAME], mode);
+    const request = operation(transaction.objectStore(STORE_NAME), transaction.objectStore(SNAPSHOT_STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Fills in what records saved by older versions lack: workspaces from before tabs existed open
+ * their active file in a single tab, and ones from before snapshots have none.
+ */
+export const normalizeWorkspace = (workspace: Workspace): Workspace & { editor: EditorLayout; snapshots: ProjectSnapshot[] } => ({
+  ...workspace,
+  editor: workspace.editor ?? layoutForFile(workspace.activeFile),
+  snapshots: workspace.snapshots ?? [],
+});
+
+export const toSummary = ({ id, name, createdAt, updatedAt }: Workspace): WorkspaceSummary => ({ id, name, createdAt, updatedAt });
+
+/** All saved workspaces, most recently updated first. */
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const all = await runRequest<Workspace[]>('readonly', store => store.getAll());
+  return all.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadWorkspace = async (id: string): Promise<Workspace | null> => {
+  const [workspace, snapshots] = await Promise.all([
+    runRequest<Workspace | undefined>('readonly', store => store.get(id)),
+    runRequest<SnapshotRecord | undefined>('readonly', (_, snapshotStore) => snapshotStore.get(id)),
+  ]);
+  return workspace ? normalizeWorkspace({ ...workspace, snapshots: snapshots?.snapshots }) : null;
+};
+
+/** Saves a workspace. Its snapshots are written only when `workspace.snapshots` is set. */
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  const { snapshots, ...record } = workspace;
+  await runRequest('readwrite', (store, snapshotStore) => {
+    if (snapshots) snapshotStore.put({ workspaceId: workspace.id, snapshots } satisfies SnapshotRecord);
+    return store.put(record);
+  });
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  await runRequest('readwrite', (store, snapshotStore) => {
+    snapshotStore.delete(id);
+    return store.delete(id);
+  });
+};
+
+export const getLastWorkspaceId = (): string | null => localStorage.getItem(LAST_WORKSPACE_KEY);
+
+export const setLastWorkspaceId = (id: string) => {
+  localStorage.setItem(LAST_WORKSPACE_KEY, id);
+};
+
+export const createWorkspaceId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `ws-${Date.now()}-${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,70 @@
+import JSZip from 'jszip';
+import { FileNode } from '../types';
+
+export interface ZipEntry {
+  path: string;
+  // The size the archive declares for the entry once decompressed. A crafted archive can lie about it.
+  size: number;
+  // Decompresses the entry. Resolves to null as soon as it grows past `maxBytes`, without finishing.
+  read: (maxBytes?: number) => Promise<Uint8Array | null>;
+}
+
+// Parts of JSZip's API that its type definitions leave out: the sizes read from the central
+// directory, and the streaming reader that lets decompression stop part way.
+interface JSZipObjectInternals {
+  _data?: { uncompressedSize?: number };
+  internalStream: (type: 'uint8array') => JSZip.JSZipStreamHelper<Uint8Array>;
+}
+
+const readEntry = (entry: JSZip.JSZipObject, maxBytes: number) => new Promise<Uint8Array | null>((resolve, reject) => {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const stream = (entry as unknown as JSZipObjectInternals).internalStream('uint8array');
+  stream
+    .on('data', chunk => {
+      if (total === -1) return;
+      total += chunk.length;
+      if (total > maxBytes) {
+        total = -1;
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    })
+    .on('error', reject)
+    .on('end', () => {
+      if (total === -1) return;
+      const bytes = new Uint8Array(total);
+      let offset = 0;
+      chunks.forEach(chunk => {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+      });
+      resolve(bytes);
+    })
+    .resume();
+});
+
+/** The files in a zip archive, without its directory entries. Rejects when the data isn't a zip archive. */
+export const readZipEntries = async (data: ArrayBuffer): Promise<ZipEntry[]> => {
+  const zip = await JSZip.loadAsync(data);
+  const entries: ZipEntry[] = [];
+  zip.forEach((path, entry) => {
+    if (entry.dir) return;
+    const size = (entry as unknown as JSZipObjectInternals)._data?.uncompressedSize ?? 0;
+    entries.push({ path, size, read: (maxBytes = Infinity) => readEntry(entry, maxBytes) });
+  });
+  return entries;
+};
+
+/** Packs project files into a zip archive. Binary files are stored as their bytes, not as data: URLs. */
+export const createZip = (files: FileNode[], directories: string[] = []): Promise<Blob> => {
+  const zip = new JSZip();
+  directories.forEach(directory => { zip.folder(directory); });
+  files.forEach(file => {
+    if (file.binary) zip.file(file.name, file.content.slice(file.content.indexOf(',') + 1), { base64: true });
+    else zip.file(file.name, file.content);
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -1,7 +1,31 @@
+// Node names are full project paths ('css/styles.css'), so a file can be looked up
+// without walking its ancestors.
 export interface FileNode {
   name: string;
+  // Text for regular files; a data: URL when `binary` is set (images, fonts…).
   content: string;
   type: 'file';
+  binary?: boolean;
+}
+
+export interface DirectoryNode {
+  name: string;
+  type: 'directory';
+  children: ProjectNode[];
+}
+
+export type ProjectNode = FileNode | DirectoryNode;
+
+export type FileChange =
+  | { type: 'upsert'; path: string; content: string }
+  | { type: 'delete'; path: string };
+
+// AI changes waiting for the user to review them. `originals` holds each file's content
+// when the proposal was made, or null for files the proposal creates.
+export interface ProposedChangeset {
+  summary: string;
+  changes: FileChange[];
+  originals: Record<string, string | null>;
 }
 
 export interface ChatMessage {
@@ -10,13 +34,170 @@ export interface ChatMessage {
   isError?: boolean;
 }
 
+// What the model gets to see besides the request itself.
+export interface ModelContext {
+  files: FileNode[];
+  activeFile: string | null;
+  history: ChatMessage[];
+}
+
+export type ModelProviderId = 'activepieces' | 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  endpoint: string;
+  apiKey: string;
+  model: string;
+}
+
+export interface ModelSettings {
+  provider: ModelProviderId;
+  // Kept per provider so switching back and forth doesn't lose what was entered.
+  configs: Record<ModelProviderId, ProviderConfig>;
+}
+
+export interface ModelRequest {
+  // The full prompt, with instructions and project context.
+  prompt: string;
+  // The user's message on its own.
+  message: string;
+}
+
+export interface ModelRequestOptions {
+  signal?: AbortSignal;
+  // Called with the whole answer received so far each time more of it arrives.
+  onProgress?: (textSoFar: string) => void;
+}
+
+export interface ModelProvider {
+  id: ModelProviderId;
+  label: string;
+  description: string;
+  // Which ProviderConfig fields the settings panel should ask for.
+  fields: (keyof ProviderConfig)[];
+  // Resolves with the raw answer text; throws an Error with a readable message on failure,
+  // or an AbortError when options.signal is aborted.
+  send: (request: ModelRequest, config: ProviderConfig, options?: ModelRequestOptions) => Promise<string>;
+}
+
 export type CodenixServiceResponse =
   | { success: true; message: string }
-  | { success: false; error: string };
+  | { success: false; error: string; aborted?: boolean; partial?: string };
+
+
+export interface WorkspaceLayout {
+  explorerWidth: number;
+  rightPanelWidth: number;
+  consoleHeight: number;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One pane of the editor: its open tabs, in display order, and the one being shown.
+export interface EditorGroup {
+  tabs: string[];
+  activeTab: string | null;
+}
+
+// The editor shows one group, or two side by side when split.
+export interface EditorLayout {
+  groups: EditorGroup[];
+  focusedGroup: number;
+}
+
+export type HistorySource = 'edit' | 'ai' | 'import' | 'restore' | 'replace';
+
+// A file's content before a change, so the change can be undone.
+export interface HistoryEntry {
+  content: string;
+  source: HistorySource;
+  timestamp: number;
+}
 
+export interface FileHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// The whole project as it was before a larger operation (an AI answer, an import, a delete…).
+export interface ProjectSnapshot {
+  id: string;
+  label: string;
+  timestamp: number;
+  files: ProjectNode[];
+}
+
+export interface Workspace extends WorkspaceSummary {
+  files: ProjectNode[];
+  activeFile: string | null;
+  chatHistory: ChatMessage[];
+  layout: WorkspaceLayout;
+  // Missing in workspaces saved before tabs existed.
+  editor?: EditorLayout;
+  snapshots?: ProjectSnapshot[];
+}
+
+// What a share link carries: the project flattened to files, plus any empty folders.
+export interface SharedProject {
+  name: string;
+  files: FileNode[];
+  directories: string[];
+  activeFile: string | null;
+  chatHistory?: ChatMessage[];
+}
+
+export type ConsoleLogLevel = 'log' | 'warn' | 'error' | 'info';
+
+export type ConsoleValue =
+  | { kind: 'primitive'; type: 'string' | 'number' | 'boolean' | 'bigint' | 'symbol' | 'undefined' | 'null' | 'function' | 'error' | 'node' | 'circular'; text: string }
+  | { kind: 'object'; label: string; entries: { key: string; value: ConsoleValue }[]; truncated?: boolean };
 
 export interface ConsoleLog {
-  type: 'log' | 'warn' | 'error' | 'info';
+  type: ConsoleLogLevel;
   message: string[];
+  args?: ConsoleValue[];
   timestamp: string;
-}
\ No newline at end of file
+}
+
+// Something the user can run from the command palette or with a keyboard shortcut.
+export interface Command {
+  id: string;
+  title: string;
+  category: string;
+  run: () => void;
+}
+
+// Key combinations (e.g. "Mod+Shift+P") by command id as the user changed them; null unbinds a default.
+export type KeybindingOverrides = Record<string, string | null>;
+
+// How the preview updates, what its pages may load, and where packages imported by name, like `react`, come from.
+export interface PreviewSettings {
+  // Packages without an entry in `imports` load from here, e.g. https://esm.sh/react.
+  cdnUrl: string;
+  // URLs by import specifier, as in an import map's "imports".
+  imports: Record<string, string>;
+  // Rebuild the preview as files change; when off it only updates on refresh.
+  autoRefresh: boolean;
+  // Applied to every page in the preview; empty for none.
+  contentSecurityPolicy: string;
+}
+
+// A screen the preview emulates, in CSS pixels.
+export interface PreviewViewport {
+  label: string;
+  width: number;
+  height: number;
+}
+
+// How the preview is laid out when the device toolbar is on: one frame per viewport, side by side.
+export interface DeviceSettings {
+  viewports: PreviewViewport[];
+  // The viewport the toolbar is editing.
+  selected: number;
+  // 'fit' scales the frames down until they all fit the panel; a number is a fixed zoom.
+  zoom: 'fit' | number;
+}
@@ -1,19 +1,34 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+// Emits sw.js from service-worker.js, filled in with every file of the build so all of them are
+// cached for offline use. Runs last so that index.html and the worker chunks are in the bundle.
+const serviceWorker = (): Plugin => ({
+  name: 'codenix-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const files = [...new Set(['./', 'index.html', ...Object.keys(bundle)])].filter(file => !file.endsWith('.map')).sort();
+    const hash = createHash('sha256');
+    Object.values(bundle).forEach(output => hash.update(output.type === 'chunk' ? output.code : output.source));
+    const version = hash.digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8')
+      .replace("'__CACHE_VERSION__'", JSON.stringify(version))
+      .replace("['__PRECACHE_FILES__']", JSON.stringify(files));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), serviceWorker()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),